@@ -13,7 +13,12 @@ interface IPropertyVerification {
         address owner,
         string memory propertyAddress,
         string memory documentHash,
-        bool isVerified
+        string memory videoHash,
+        string memory gpsCoordinates,
+        uint256 verificationDate,
+        bool isVerified,
+        bool isActive,
+        uint256 kycLevel
     );
     function getListingFee() external view returns (uint256);
 }
@@ -21,6 +26,7 @@ interface IPropertyVerification {
 interface IRentalReceipt {
     function mintReceipt(
         address tenant,
+        address landlord,
         uint256 propertyId,
         uint256 depositAmount,
         uint256 rentAmount,
@@ -31,10 +37,12 @@ interface IRentalReceipt {
     
     function mintRentPaymentProof(
         address tenant,
+        address landlord,
         uint256 agreementId,
         uint256 rentAmount,
         uint256 paymentDate,
         uint256 periodStart,
-        uint256 periodEnd
+        uint256 periodEnd,
+        string memory metadataHash
     ) external returns (uint256);
 }
\ No newline at end of file
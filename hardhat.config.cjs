@@ -0,0 +1,6 @@
+// Only used to run a local node for `npm run devnet`; contracts are compiled in Remix (see artifacts/).
+module.exports = {
+  networks: {
+    hardhat: { chainId: 31337 },
+  },
+};
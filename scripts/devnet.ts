@@ -0,0 +1,238 @@
+/**
+ * Runs TrustLease on a local EVM devnet (chain 31337) so every flow can be exercised offline.
+ *
+ * Attaches to the node at DEVNET_RPC_URL (default http://127.0.0.1:8545), or starts one
+ * with `anvil` when it is on the PATH and the bundled Hardhat node otherwise. It then
+ *   - deploys PropertyVerification, RentalReceipt and TrustLeaseEscrow from artifacts/
+ *   - grants the escrow the receipt minter role via `setMinter`
+ *   - seeds verified and pending properties, pending/active/disputed agreements and a rent payment
+ *   - writes .deploys/pinned-contracts/31337/*.json for the frontend
+ *
+ * Run with `npm run devnet`, then start the app with `VITE_CHAIN_ID=31337 npm run dev`.
+ * A node started by the script keeps running until Ctrl+C; pass `--exit` to stop it after seeding.
+ */
+import { spawn, spawnSync, type ChildProcess } from 'node:child_process';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { ContractFactory, JsonRpcProvider, parseEther, type InterfaceAbi, type Signer } from 'ethers';
+import { TrustLeaseClient } from '../src/lib/contracts/client';
+import type { ChainDeployment, ContractName, PinnedContractManifest } from '../src/lib/contracts/deployments';
+
+export const DEVNET_CHAIN_ID = 31337;
+export const DEVNET_RPC_URL = process.env.DEVNET_RPC_URL || 'http://127.0.0.1:8545';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const ARTIFACTS_DIR = path.join(ROOT, 'artifacts');
+const MANIFEST_DIR = path.join(ROOT, '.deploys/pinned-contracts', String(DEVNET_CHAIN_ID));
+
+const DAY = 24 * 60 * 60;
+
+export interface DevnetNode {
+  provider: JsonRpcProvider;
+  /** Stops the node if this process started it; a no-op when attached to an existing one. */
+  stop: () => void;
+  started: boolean;
+}
+
+export interface DevnetAccounts {
+  admin: Signer;
+  landlord: Signer;
+  tenant: Signer;
+  otherTenant: Signer;
+}
+
+export interface DevnetFixtures {
+  properties: { verified: number[]; pending: number[] };
+  agreements: { pending: number; active: number; disputed: number };
+  rent: { agreementId: number; amount: bigint };
+}
+
+async function waitForRpc(provider: JsonRpcProvider, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return await provider.getBlockNumber();
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+}
+
+function spawnNode(rpcUrl: string): ChildProcess {
+  const port = new URL(rpcUrl).port || '8545';
+  const hasAnvil = spawnSync('anvil', ['--version'], { stdio: 'ignore' }).status === 0;
+  return hasAnvil
+    ? spawn('anvil', ['--chain-id', String(DEVNET_CHAIN_ID), '--port', port, '--silent'], { stdio: 'ignore' })
+    : spawn(path.join(ROOT, 'node_modules/.bin/hardhat'), ['node', '--port', port, '--config', path.join(ROOT, 'hardhat.config.cjs')], {
+      cwd: ROOT,
+      stdio: 'ignore',
+    });
+}
+
+/** Attaches to a running devnet at `rpcUrl`, starting a local node when nothing answers there. */
+export async function startOrAttachNode(rpcUrl = DEVNET_RPC_URL): Promise<DevnetNode> {
+  // No request cache: scripts read balances and state straight after their own writes
+  const provider = new JsonRpcProvider(rpcUrl, DEVNET_CHAIN_ID, { staticNetwork: true, pollingInterval: 250, cacheTimeout: -1 });
+  let child: ChildProcess | null = null;
+
+  try {
+    await waitForRpc(provider, 500);
+  } catch {
+    child = spawnNode(rpcUrl);
+    await waitForRpc(provider, 30_000);
+  }
+
+  const { chainId } = await provider.send('eth_chainId', []).then((hex: string) => ({ chainId: Number(hex) }));
+  if (chainId !== DEVNET_CHAIN_ID) {
+    child?.kill();
+    throw new Error(`Expected a devnet on chain ${DEVNET_CHAIN_ID} at ${rpcUrl}, found chain ${chainId}`);
+  }
+
+  return {
+    provider,
+    started: !!child,
+    stop: () => {
+      provider.destroy();
+      child?.kill();
+    },
+  };
+}
+
+/** The node's unlocked dev accounts, by role. */
+export async function getDevnetAccounts(provider: JsonRpcProvider): Promise<DevnetAccounts> {
+  const [admin, landlord, tenant, otherTenant] = await Promise.all([0, 1, 2, 3].map(i => provider.getSigner(i)));
+  return { admin, landlord, tenant, otherTenant };
+}
+
+function readArtifact(name: ContractName) {
+  const artifact = JSON.parse(readFileSync(path.join(ARTIFACTS_DIR, `${name}.json`), 'utf8'));
+  return { abi: artifact.abi as InterfaceAbi, bytecode: `0x${artifact.data.bytecode.object}` };
+}
+
+async function deployContract(name: ContractName, deployer: Signer, args: unknown[]) {
+  const { abi, bytecode } = readArtifact(name);
+  const contract = await new ContractFactory(abi, bytecode, deployer).deploy(...args);
+  const receipt = await contract.deploymentTransaction()!.wait();
+  return { address: await contract.getAddress(), abi, pinnedAt: Date.now(), deployBlock: receipt!.blockNumber };
+}
+
+/**
+ * Deploys the three contracts with `admin` as owner and lets the escrow mint receipts.
+ * Listing and platform fees go to `feeRecipient`, which defaults to the admin.
+ */
+export async function deployTrustLease(admin: Signer, feeRecipient?: string): Promise<ChainDeployment> {
+  const feeWallet = feeRecipient ?? await admin.getAddress();
+  const PropertyVerification = await deployContract('PropertyVerification', admin, [feeWallet]);
+  const RentalReceipt = await deployContract('RentalReceipt', admin, []);
+  const TrustLeaseEscrow = await deployContract('TrustLeaseEscrow', admin, [
+    PropertyVerification.address,
+    RentalReceipt.address,
+    feeWallet,
+  ]);
+
+  const deployment = { PropertyVerification, RentalReceipt, TrustLeaseEscrow };
+  const client = new TrustLeaseClient({ deployment, signer: admin });
+  await (await client.rentalReceipt.setMinter(TrustLeaseEscrow.address)).wait();
+  return deployment;
+}
+
+/**
+ * Seeds one of everything the UI shows. Expects freshly deployed contracts, so property
+ * and agreement IDs start at 1.
+ */
+export async function seedFixtures(deployment: ChainDeployment, provider: JsonRpcProvider, accounts: DevnetAccounts): Promise<DevnetFixtures> {
+  const client = new TrustLeaseClient({ deployment, provider });
+  const admin = client.connect(accounts.admin);
+  const landlord = client.connect(accounts.landlord);
+  const tenant = client.connect(accounts.tenant);
+  const otherTenant = client.connect(accounts.otherTenant);
+  const landlordAddress = await accounts.landlord.getAddress();
+  const listingFee = await client.getListingFee();
+
+  const listings = [
+    ['12 Marina Road, Lagos', '6.4281, 3.4219'],
+    ['48 Independence Ave, Accra', '5.5600, -0.2057'],
+    ['7 Kenyatta Lane, Nairobi', '-1.2864, 36.8172'],
+  ];
+  for (const [address, gps] of listings) {
+    await (await landlord.submitProperty(address, 'ipfs://devnet-documents', 'ipfs://devnet-walkthrough', gps, 1, listingFee)).wait();
+  }
+  for (const propertyId of [1, 2]) {
+    await (await admin.propertyVerification.verifyProperty(propertyId)).wait();
+  }
+
+  const now = (await provider.getBlock('latest'))!.timestamp;
+  const monthlyRent = parseEther('1');
+  const deposit = parseEther('2');
+  const agree = async (who: TrustLeaseClient, propertyId: number) =>
+    (await who.createAgreement(propertyId, landlordAddress, monthlyRent, 30 * DAY, now + DAY, now + 365 * DAY, 'ipfs://devnet-terms', deposit)).wait();
+  const activate = async (agreementId: number, who: TrustLeaseClient) => {
+    await (await who.escrow.tenantConfirm(agreementId)).wait();
+    await (await landlord.escrow.landlordConfirm(agreementId)).wait();
+  };
+
+  // 1: pending, 2: active with a rent payment, 3: active then disputed
+  await agree(tenant, 1);
+  await agree(tenant, 2);
+  await activate(2, tenant);
+  await (await tenant.payRent(2, 'ipfs://devnet-rent-1', monthlyRent)).wait();
+  await agree(otherTenant, 1);
+  await activate(3, otherTenant);
+  await (await otherTenant.escrow.raiseDispute(3, 'Deposit deductions not agreed', 'ipfs://devnet-evidence')).wait();
+
+  return {
+    properties: { verified: [1, 2], pending: [3] },
+    agreements: { pending: 1, active: 2, disputed: 3 },
+    rent: { agreementId: 2, amount: monthlyRent },
+  };
+}
+
+/** Replaces the devnet manifests the frontend bundles from .deploys/pinned-contracts/31337/. */
+export function writeDevnetManifests(deployment: ChainDeployment, dir = MANIFEST_DIR) {
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+  for (const [name, { address, abi, pinnedAt, deployBlock }] of Object.entries(deployment)) {
+    const manifest: PinnedContractManifest = { name, address, abi, filePath: `contracts/${name}.sol`, pinnedAt, deployBlock };
+    writeFileSync(path.join(dir, `${address}.json`), JSON.stringify(manifest, null, 2) + '\n');
+  }
+  return dir;
+}
+
+async function main() {
+  const node = await startOrAttachNode();
+  try {
+    const accounts = await getDevnetAccounts(node.provider);
+    const deployment = await deployTrustLease(accounts.admin);
+    const fixtures = await seedFixtures(deployment, node.provider, accounts);
+    const dir = writeDevnetManifests(deployment);
+
+    console.log(`Devnet ${node.started ? 'started' : 'attached'} at ${DEVNET_RPC_URL} (chain ${DEVNET_CHAIN_ID})`);
+    for (const [name, { address }] of Object.entries(deployment)) console.log(`  ${name.padEnd(20)} ${address}`);
+    console.log(`  Landlord  ${await accounts.landlord.getAddress()}`);
+    console.log(`  Tenant    ${await accounts.tenant.getAddress()}`);
+    console.log(`  Fixtures  ${JSON.stringify(fixtures, (_, v) => typeof v === 'bigint' ? v.toString() : v)}`);
+    console.log(`Manifests written to ${path.relative(ROOT, dir)}. Start the app with VITE_CHAIN_ID=${DEVNET_CHAIN_ID} npm run dev`);
+  } catch (error) {
+    node.stop();
+    throw error;
+  }
+
+  if (!node.started || process.argv.includes('--exit')) {
+    node.stop();
+    return;
+  }
+  console.log('Node running, press Ctrl+C to stop');
+  process.on('SIGINT', () => {
+    node.stop();
+    process.exit(0);
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
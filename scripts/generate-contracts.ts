@@ -0,0 +1,174 @@
+/**
+ * Generates the typed TrustLease contract layer from the compiled Remix artifacts.
+ *
+ * Reads `artifacts/<Contract>.json` and writes:
+ *   - src/lib/contracts/generated/abis.ts  (ABI constants)
+ *   - src/lib/contracts/generated/types.ts (struct, return value, event and contract types)
+ *
+ * Run with `npm run generate:contracts` after recompiling the contracts.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CONTRACTS = ['PropertyVerification', 'TrustLeaseEscrow', 'RentalReceipt'] as const;
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const ARTIFACTS_DIR = path.join(ROOT, 'artifacts');
+const OUT_DIR = path.join(ROOT, 'src/lib/contracts/generated');
+
+const HEADER = `// Auto-generated by scripts/generate-contracts.ts from artifacts/*.json. Do not edit by hand.\n`;
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParam[];
+}
+
+interface AbiEntry {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+}
+
+const pascal = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// "struct TrustLeaseEscrow.RentalAgreement[]" -> "RentalAgreement"
+function structName(param: AbiParam) {
+  const match = /struct\s+(?:\w+\.)?(\w+)/.exec(param.internalType || '');
+  if (!match) throw new Error(`Cannot derive struct name for ${param.name} (${param.internalType})`);
+  return match[1];
+}
+
+function baseType(type: string, direction: 'input' | 'output') {
+  if (/^u?int\d*$/.test(type)) return direction === 'input' ? 'BigNumberish' : 'bigint';
+  if (type === 'address') return direction === 'input' ? 'AddressLike' : 'string';
+  if (type === 'bool') return 'boolean';
+  if (type === 'string') return 'string';
+  if (/^bytes\d*$/.test(type)) return direction === 'input' ? 'BytesLike' : 'string';
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function tsType(param: AbiParam, direction: 'input' | 'output'): string {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) return `${tsType({ ...param, type: array[1] }, direction)}[]`;
+  if (param.type === 'tuple') return structName(param);
+  return baseType(param.type, direction);
+}
+
+function collectStructs(params: AbiParam[], structs: Map<string, AbiParam[]>) {
+  for (const param of params) {
+    if (!param.type.startsWith('tuple')) continue;
+    structs.set(structName(param), param.components || []);
+    collectStructs(param.components || [], structs);
+  }
+}
+
+function renderFields(params: AbiParam[]) {
+  return params.map((p, i) => `  ${p.name || `value${i}`}: ${tsType(p, 'output')};`).join('\n');
+}
+
+// Functions returning several named values get an interface, named after the getter
+// (`getDispute` -> `Dispute`) or `<Name>Output` for public mapping getters.
+function outputTypeName(fn: AbiEntry) {
+  const name = fn.name!;
+  return /^get[A-Z]/.test(name) ? name.slice(3) : `${pascal(name)}Output`;
+}
+
+function returnType(fn: AbiEntry, outputTypes: Map<string, AbiParam[]>) {
+  const outputs = fn.outputs || [];
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return tsType(outputs[0], 'output');
+  const name = outputTypeName(fn);
+  const existing = outputTypes.get(name);
+  if (existing && JSON.stringify(existing) !== JSON.stringify(outputs)) {
+    throw new Error(`Return type ${name} is declared with different fields by two contracts`);
+  }
+  outputTypes.set(name, outputs);
+  return name;
+}
+
+function renderArgs(inputs: AbiParam[]) {
+  return inputs.map((p, i) => `${p.name || `arg${i}`}: ${tsType(p, 'input')}`).join(', ');
+}
+
+function loadAbi(contract: string): AbiEntry[] {
+  const artifact = JSON.parse(readFileSync(path.join(ARTIFACTS_DIR, `${contract}.json`), 'utf8'));
+  return artifact.abi;
+}
+
+function generate() {
+  const abis = CONTRACTS.map(name => ({ name, abi: loadAbi(name) }));
+
+  const abiFile = [HEADER];
+  for (const { name, abi } of abis) {
+    abiFile.push(`export const ${name}ABI = [`);
+    for (const entry of abi) abiFile.push(`  ${JSON.stringify(entry)},`);
+    abiFile.push('] as const;\n');
+  }
+
+  const structs = new Map<string, AbiParam[]>();
+  const outputTypes = new Map<string, AbiParam[]>();
+  const contractBlocks: string[] = [];
+  const eventBlocks: string[] = [];
+
+  for (const { name, abi } of abis) {
+    const functions = abi.filter(e => e.type === 'function');
+    const events = abi.filter(e => e.type === 'event');
+    functions.forEach(fn => collectStructs([...(fn.inputs || []), ...(fn.outputs || [])], structs));
+
+    const counts = new Map<string, number>();
+    functions.forEach(fn => counts.set(fn.name!, (counts.get(fn.name!) || 0) + 1));
+
+    const members = functions.map(fn => {
+      const inputs = fn.inputs || [];
+      // Overloaded functions are only reachable by their full signature in ethers
+      const key = counts.get(fn.name!)! > 1
+        ? `'${fn.name}(${inputs.map(i => i.type).join(',')})'`
+        : fn.name!;
+      const result = returnType(fn, outputTypes);
+      const args = `[${renderArgs(inputs)}]`;
+      const isView = fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+      const method = isView
+        ? `ConstantContractMethod<${args}, ${result}>`
+        : `BaseContractMethod<${args}, ${result}, ContractTransactionResponse>`;
+      return `  ${key}: ${method};`;
+    });
+
+    contractBlocks.push(
+      `/** Typed view of the deployed ${name} contract. */\n` +
+      `export interface ${name}Contract extends BaseContract {\n${members.join('\n')}\n}`
+    );
+
+    const eventMembers = events.map(ev => `  ${ev.name}: {\n${renderFields(ev.inputs || []).replace(/^/gm, '  ')}\n  };`);
+    eventBlocks.push(`/** Decoded arguments of every ${name} event, keyed by event name. */\nexport interface ${name}Events {\n${eventMembers.join('\n')}\n}`);
+  }
+
+  for (const name of outputTypes.keys()) {
+    if (structs.has(name)) throw new Error(`Output type ${name} clashes with a struct of the same name`);
+  }
+
+  const typeFile = [
+    HEADER,
+    `import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ConstantContractMethod, ContractTransactionResponse } from 'ethers';\n`,
+    '// ---- Structs ----\n',
+    ...[...structs].map(([name, fields]) => `export interface ${name} {\n${renderFields(fields)}\n}\n`),
+    '// ---- Multi-value return types ----\n',
+    ...[...outputTypes].map(([name, fields]) => `export interface ${name} {\n${renderFields(fields)}\n}\n`),
+    '// ---- Events ----\n',
+    ...eventBlocks.map(b => `${b}\n`),
+    '// ---- Contracts ----\n',
+    ...contractBlocks.map(b => `${b}\n`),
+  ];
+
+  mkdirSync(OUT_DIR, { recursive: true });
+  writeFileSync(path.join(OUT_DIR, 'abis.ts'), abiFile.join('\n'));
+  writeFileSync(path.join(OUT_DIR, 'types.ts'), typeFile.join('\n'));
+  console.log(`Generated contract types for ${CONTRACTS.join(', ')} in ${path.relative(ROOT, OUT_DIR)}`);
+}
+
+generate();
@@ -0,0 +1,501 @@
+/**
+ * Operator CLI for the TrustLease admin functions, which used to be called by hand in Remix.
+ *
+ *   npm run trustlease -- pending --network 545
+ *   npm run trustlease -- link-kyc 3 --persona inq_123 --video-timestamp 2025-03-01T10:00:00Z --government-id --address-proof
+ *   npm run trustlease -- verify 3 --dry-run
+ *   npm run trustlease -- terminate 2 --at 2025-06-15 --deduct 0.5 --json
+ *
+ * Contracts come from .deploys/pinned-contracts/<chainId>/ (or `--manifests <dir>`) and
+ * reads fail over across the network's RPC endpoints unless `--rpc` names one.
+ * Writes are signed with the owner key, from an encrypted JSON keystore (`--keystore <file>`,
+ * password in TRUSTLEASE_KEYSTORE_PASSWORD) or TRUSTLEASE_PRIVATE_KEY. Every write is
+ * simulated before it is sent and `--dry-run` stops there; without a key, a dry run
+ * simulates as the contract owner. `--json` prints one JSON object for scripting.
+ *
+ * Run `npm run trustlease -- help` for every command.
+ */
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  VoidSigner,
+  Wallet,
+  isAddress,
+  type BaseContractMethod,
+  type ContractMethodArgs,
+  type ContractTransactionResponse,
+  type Signer,
+} from 'ethers';
+import { TrustLeaseClient } from '../src/lib/contracts/client';
+import { agreementStatus, createDeploymentRegistry, type PinnedContractManifest } from '../src/lib/contracts';
+import { decodeError } from '../src/lib/contracts/errors';
+import { simulateWrite } from '../src/lib/contracts/preflight';
+import { quoteTermination } from '../src/lib/contracts/termination';
+import { formatAmount, formatFlow, formatInteger, formatLeaseDate, nowInSeconds, parseDateInput, parseFlow } from '../src/lib/format';
+import { DEFAULT_NETWORK, NETWORKS, explorerUrl, getNetwork, type NetworkConfig } from '../src/lib/networks';
+import { FailoverProvider } from '../src/lib/rpc';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const OPTIONS = {
+  network: { type: 'string', short: 'n' },
+  rpc: { type: 'string' },
+  manifests: { type: 'string' },
+  keystore: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  persona: { type: 'string' },
+  'video-timestamp': { type: 'string' },
+  'government-id': { type: 'boolean' },
+  'address-proof': { type: 'boolean' },
+  reason: { type: 'string' },
+  'refund-tenant': { type: 'boolean' },
+  'release-landlord': { type: 'boolean' },
+  at: { type: 'string' },
+  deduct: { type: 'string' },
+  refund: { type: 'string' },
+  listing: { type: 'boolean' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+export type CliEnv = Record<string, string | undefined>;
+
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/** Bad arguments or setup: reported with a pointer to `help` and exit code 2. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface Context {
+  network: NetworkConfig;
+  client: TrustLeaseClient;
+  /** Null when no key was given, which only dry runs and reads allow. */
+  signer: Signer | null;
+  dryRun: boolean;
+}
+
+export interface WriteResult {
+  contract: OwnedContract;
+  method: string;
+  args: unknown[];
+  from: string;
+  dryRun: boolean;
+  gasLimit: bigint;
+  gasPrice: bigint;
+  gasCost: bigint;
+  hash?: string;
+  blockNumber?: number;
+}
+
+interface CommandOutput {
+  result: object;
+  lines: string[];
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  run: (ctx: Context, args: string[], options: Options) => Promise<CommandOutput>;
+}
+
+// ---- Arguments ----
+
+function positional(args: string[], index: number, name: string) {
+  const value = args[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+function parseId(value: string, name: string) {
+  if (!/^\d+$/.test(value) || Number(value) === 0) throw new UsageError(`<${name}> must be a positive whole number, got "${value}"`);
+  return Number(value);
+}
+
+function required(options: Options, name: keyof Options) {
+  const value = options[name];
+  if (typeof value !== 'string' || value.trim() === '') throw new UsageError(`Missing --${name}`);
+  return value;
+}
+
+function flow(value: string, name: string) {
+  try {
+    return parseFlow(value);
+  } catch (error) {
+    throw new UsageError(`--${name}: ${(error as Error).message}`);
+  }
+}
+
+// A calendar day is read as UTC midnight so the result does not depend on the operator's machine
+function timestamp(value: string) {
+  if (/^\d+$/.test(value)) return Number(value);
+  try {
+    return parseDateInput(value, 'UTC');
+  } catch (error) {
+    throw new UsageError(`--at: ${(error as Error).message}; use YYYY-MM-DD or Unix seconds`);
+  }
+}
+
+// ---- Setup ----
+
+function resolveNetwork(value: string | undefined) {
+  const chainId = value === undefined ? DEFAULT_NETWORK.chainId : Number(value);
+  const network = getNetwork(chainId);
+  if (!network) {
+    throw new UsageError(`Unknown network "${value}". Use one of ${NETWORKS.map(n => `${n.chainId} (${n.name})`).join(', ')}`);
+  }
+  return network;
+}
+
+function loadDeployment(chainId: number, dir = path.join(ROOT, '.deploys/pinned-contracts', String(chainId))) {
+  const files = existsSync(dir) ? readdirSync(dir).filter(file => file.endsWith('.json')) : [];
+  const manifests = files.map(file => JSON.parse(readFileSync(path.join(dir, file), 'utf8')) as PinnedContractManifest);
+  return createDeploymentRegistry({ [chainId]: manifests }).resolve(chainId);
+}
+
+async function loadSigner(options: Options, env: CliEnv, provider: FailoverProvider): Promise<Signer | null> {
+  if (options.keystore) {
+    const password = env.TRUSTLEASE_KEYSTORE_PASSWORD;
+    if (password === undefined) throw new UsageError('Set TRUSTLEASE_KEYSTORE_PASSWORD to unlock the keystore');
+    const wallet = await Wallet.fromEncryptedJson(readFileSync(options.keystore, 'utf8'), password);
+    return wallet.connect(provider);
+  }
+  return env.TRUSTLEASE_PRIVATE_KEY ? new Wallet(env.TRUSTLEASE_PRIVATE_KEY, provider) : null;
+}
+
+// ---- Writes ----
+
+// The Ownable contracts; RentalReceipt is only written to by the escrow
+const OWNED_CONTRACTS = {
+  PropertyVerification: 'propertyVerification',
+  TrustLeaseEscrow: 'escrow',
+} as const;
+
+type OwnedContract = keyof typeof OWNED_CONTRACTS;
+
+async function senderFor(ctx: Context, contract: OwnedContract) {
+  if (ctx.signer) return ctx.client.connect(ctx.signer);
+  if (!ctx.dryRun) throw new UsageError('Writes need a key: pass --keystore or set TRUSTLEASE_PRIVATE_KEY, or add --dry-run');
+  // Keyless dry runs act as the owner, so they show every revert except access control
+  const owner = await ctx.client[OWNED_CONTRACTS[contract]].owner();
+  return ctx.client.connect(new VoidSigner(owner, ctx.client.provider));
+}
+
+/** Simulates the call, then sends it and waits for it to be mined unless this is a dry run. */
+async function write<A extends unknown[]>(
+  ctx: Context,
+  contract: OwnedContract,
+  pick: (client: TrustLeaseClient) => BaseContractMethod<A, void, ContractTransactionResponse>,
+  args: A
+): Promise<WriteResult> {
+  const client = await senderFor(ctx, contract);
+  const method = pick(client);
+  const gas = await simulateWrite(client.provider, method, args, 0n);
+  const result: WriteResult = {
+    contract,
+    method: method.name,
+    args,
+    from: await client.signer!.getAddress(),
+    dryRun: ctx.dryRun,
+    ...gas,
+  };
+  if (ctx.dryRun) return result;
+
+  const tx = await method(...([...args, { gasLimit: gas.gasLimit }] as ContractMethodArgs<A>));
+  const receipt = await tx.wait();
+  return { ...result, hash: tx.hash, blockNumber: receipt?.blockNumber };
+}
+
+const formatArg = (arg: unknown) => (typeof arg === 'string' ? JSON.stringify(arg) : String(arg));
+
+function describeWrite(ctx: Context, result: WriteResult) {
+  const call = `${result.contract}.${result.method}(${result.args.map(formatArg).join(', ')})`;
+  const lines = [result.dryRun ? `Dry run: ${call} from ${result.from} would succeed` : `Sent ${call} from ${result.from}`];
+  lines.push(`  Gas       ${formatInteger(result.gasLimit)} at ${formatAmount(result.gasPrice, { decimals: 9, symbol: 'gwei' })}, about ${formatFlow(result.gasCost)}`);
+  if (result.hash) {
+    lines.push(`  Tx        ${result.hash} (block ${result.blockNumber})`);
+    const url = explorerUrl(ctx.network, 'tx', result.hash);
+    if (url) lines.push(`  Explorer  ${url}`);
+  }
+  return lines;
+}
+
+const writeOutput = (ctx: Context, result: WriteResult, lines: string[] = []): CommandOutput => ({
+  result,
+  lines: [...lines, ...describeWrite(ctx, result)],
+});
+
+// ---- Commands ----
+
+const SET_FEE_KINDS = ['listing', 'kyc', 'platform', 'rent-processing'] as const;
+
+const COMMANDS: Record<string, Command> = {
+  pending: {
+    usage: 'pending',
+    summary: 'List active properties waiting for verification, with their KYC proof',
+    run: async ({ client }) => {
+      const properties = await client.getPendingProperties();
+      const proofs = await client.getKYCProofs(properties.map(p => p.id));
+      const pending = properties.map((property, i) => ({
+        ...property,
+        kycProof: proofs[i].personaVerificationId ? proofs[i] : null,
+      }));
+
+      const lines = pending.length === 0 ? ['No properties waiting for verification'] : pending.map(p => {
+        const proof = p.kycProof
+          ? `KYC ${p.kycProof.personaVerificationId} (ID ${p.kycProof.governmentIdVerified ? 'verified' : 'unverified'}, address ${p.kycProof.addressProofVerified ? 'verified' : 'unverified'})`
+          : 'no KYC proof linked';
+        return `#${p.id}  ${p.propertyAddress}  owner ${p.owner}  KYC level ${p.kycLevel}  ${proof}`;
+      });
+      return { result: pending, lines };
+    },
+  },
+
+  'link-kyc': {
+    usage: 'link-kyc <propertyId> --persona <id> --video-timestamp <ts> [--government-id] [--address-proof]',
+    summary: 'Record the Persona KYC result for a property',
+    run: async (ctx, args, options) => {
+      const propertyId = parseId(positional(args, 0, 'propertyId'), 'propertyId');
+      const result = await write(ctx, 'PropertyVerification', c => c.propertyVerification.linkKYCProof, [
+        propertyId,
+        required(options, 'persona'),
+        required(options, 'video-timestamp'),
+        !!options['government-id'],
+        !!options['address-proof'],
+      ]);
+      return writeOutput(ctx, result);
+    },
+  },
+
+  verify: {
+    usage: 'verify <propertyId>',
+    summary: 'Verify a property and mint its badge to the landlord',
+    run: async (ctx, args) => {
+      const propertyId = parseId(positional(args, 0, 'propertyId'), 'propertyId');
+      return writeOutput(ctx, await write(ctx, 'PropertyVerification', c => c.propertyVerification.verifyProperty, [propertyId]));
+    },
+  },
+
+  deactivate: {
+    usage: 'deactivate <propertyId> --reason <text>',
+    summary: 'Take a property off the platform for fraud or disputes',
+    run: async (ctx, args, options) => {
+      const propertyId = parseId(positional(args, 0, 'propertyId'), 'propertyId');
+      const reason = required(options, 'reason');
+      return writeOutput(ctx, await write(ctx, 'PropertyVerification', c => c.propertyVerification.deactivateProperty, [propertyId, reason]));
+    },
+  },
+
+  'resolve-dispute': {
+    usage: 'resolve-dispute <agreementId> (--refund-tenant | --release-landlord)',
+    summary: 'Settle a disputed deposit in favour of the tenant or the landlord',
+    run: async (ctx, args, options) => {
+      const agreementId = parseId(positional(args, 0, 'agreementId'), 'agreementId');
+      if (!!options['refund-tenant'] === !!options['release-landlord']) {
+        throw new UsageError('Pass exactly one of --refund-tenant or --release-landlord');
+      }
+      const refundTenant = !!options['refund-tenant'];
+      const { depositAmount } = await ctx.client.getAgreement(agreementId);
+      const result = await write(ctx, 'TrustLeaseEscrow', c => c.escrow.resolveDispute, [agreementId, refundTenant]);
+      return writeOutput(ctx, result, [
+        `Deposit of ${formatFlow(depositAmount)} goes to the ${refundTenant ? 'tenant' : 'landlord, less the platform fee'}`,
+      ]);
+    },
+  },
+
+  terminate: {
+    usage: 'terminate <agreementId> [--at <YYYY-MM-DD|unix>] [--deduct <FLOW>] [--refund <FLOW>]',
+    summary: 'End a lease early with a pro-rata refund of deposit and unused rent',
+    run: async (ctx, args, options) => {
+      const agreementId = parseId(positional(args, 0, 'agreementId'), 'agreementId');
+      const [agreement, platformFeePercent, block] = await Promise.all([
+        ctx.client.getAgreement(agreementId),
+        ctx.client.escrow.platformFeePercent(),
+        ctx.client.provider.getBlock('latest'),
+      ]);
+      const terminatedAt = options.at ? timestamp(options.at) : block?.timestamp ?? nowInSeconds();
+      const deductions = options.deduct ? flow(options.deduct, 'deduct') : 0n;
+      if (deductions > agreement.depositAmount) {
+        throw new UsageError(`--deduct of ${formatFlow(deductions)} is more than the ${formatFlow(agreement.depositAmount)} deposit`);
+      }
+
+      const quote = quoteTermination(agreement, { terminatedAt, deductions, platformFeePercent });
+      const refund = options.refund ? flow(options.refund, 'refund') : quote.refund;
+      const result = await write(ctx, 'TrustLeaseEscrow', c => c.escrow.terminateAgreement, [agreementId, refund]);
+
+      const dated = (seconds: number | bigint) => formatLeaseDate(seconds, { timeZone: 'UTC' });
+      const summary = [
+        `Agreement #${agreementId} (${agreementStatus(agreement.status)}), terminated ${dated(terminatedAt)} UTC`,
+        `  Deposit      ${formatFlow(quote.deposit)}`,
+        `  Deductions   ${formatFlow(quote.deductions)}`,
+        `  Unused rent  ${formatFlow(quote.unusedRent)} (rent paid through ${dated(quote.paidThrough)})`,
+        `  Refund       ${formatFlow(refund)}${options.refund ? ` (set by --refund; calculated ${formatFlow(quote.refund)})` : ''}`,
+        `  Landlord     ${formatFlow(quote.toLandlord)} after the ${platformFeePercent}% platform fee of ${formatFlow(quote.platformFee)}`,
+      ];
+      return { result: { ...result, terminatedAt, quote }, lines: [...summary, ...describeWrite(ctx, result)] };
+    },
+  },
+
+  'grant-subsidy': {
+    usage: 'grant-subsidy <address> [--listing]',
+    summary: 'Subsidise a tenant\'s rent gas, or with --listing sponsor a landlord\'s listing fee',
+    run: async (ctx, args, options) => {
+      const user = positional(args, 0, 'address');
+      if (!isAddress(user)) throw new UsageError(`"${user}" is not an address`);
+      const result = options.listing
+        ? await write(ctx, 'PropertyVerification', c => c.propertyVerification.grantGasSponsorship, [user])
+        : await write(ctx, 'TrustLeaseEscrow', c => c.escrow.grantGasSubsidy, [user]);
+      return writeOutput(ctx, result);
+    },
+  },
+
+  fees: {
+    usage: 'fees',
+    summary: 'Show the current listing, KYC, platform and rent processing fees',
+    run: async ({ client }) => {
+      const [listingFee, kycProcessingFee, platformFeePercent, rentProcessingFeePercent] = await Promise.all([
+        client.propertyVerification.listingFee(),
+        client.propertyVerification.kycProcessingFee(),
+        client.escrow.platformFeePercent(),
+        client.escrow.rentProcessingFeePercent(),
+      ]);
+      return {
+        result: { listingFee, kycProcessingFee, platformFeePercent, rentProcessingFeePercent },
+        lines: [
+          `Listing fee      ${formatFlow(listingFee)}`,
+          `KYC fee          ${formatFlow(kycProcessingFee)}`,
+          `Platform fee     ${platformFeePercent}%`,
+          `Rent processing  ${rentProcessingFeePercent}%`,
+        ],
+      };
+    },
+  },
+
+  'set-fee': {
+    usage: `set-fee <${SET_FEE_KINDS.join('|')}> <value>`,
+    summary: 'Update a fee: listing and kyc in FLOW, platform and rent-processing in whole percent',
+    run: async (ctx, args) => {
+      const kind = positional(args, 0, 'kind');
+      const value = positional(args, 1, 'value');
+      const percent = () => {
+        if (!/^\d+$/.test(value)) throw new UsageError(`A ${kind} fee is a whole percentage, got "${value}"`);
+        return BigInt(value);
+      };
+
+      switch (kind) {
+        case 'listing':
+          return writeOutput(ctx, await write(ctx, 'PropertyVerification', c => c.propertyVerification.updateListingFee, [flow(value, 'value')]));
+        case 'kyc':
+          return writeOutput(ctx, await write(ctx, 'PropertyVerification', c => c.propertyVerification.updateKYCFee, [flow(value, 'value')]));
+        case 'platform':
+          return writeOutput(ctx, await write(ctx, 'TrustLeaseEscrow', c => c.escrow.updatePlatformFee, [percent()]));
+        case 'rent-processing':
+          return writeOutput(ctx, await write(ctx, 'TrustLeaseEscrow', c => c.escrow.updateRentProcessingFee, [percent()]));
+        default:
+          throw new UsageError(`Unknown fee "${kind}". Use one of ${SET_FEE_KINDS.join(', ')}`);
+      }
+    },
+  },
+
+  pause: {
+    usage: 'pause',
+    summary: 'Stop new agreements and rent payments in an emergency (the escrow has no unpause)',
+    run: async ctx => writeOutput(ctx, await write(ctx, 'TrustLeaseEscrow', c => c.escrow.pause, [])),
+  },
+};
+
+function helpText() {
+  return [
+    'Usage: npm run trustlease -- <command> [options]',
+    '',
+    'Commands:',
+    ...Object.values(COMMANDS).flatMap(command => [`  ${command.usage}`, `      ${command.summary}`]),
+    '',
+    'Options:',
+    `  -n, --network <chainId>  ${NETWORKS.map(n => `${n.chainId} (${n.name})`).join(', ')}; defaults to TRUSTLEASE_NETWORK or ${DEFAULT_NETWORK.chainId}`,
+    '  --rpc <url>              RPC endpoint to use instead of the network\'s, also TRUSTLEASE_RPC_URL',
+    '  --manifests <dir>        Pinned contract manifests; defaults to .deploys/pinned-contracts/<chainId>',
+    '  --keystore <file>        Encrypted JSON keystore to sign with, unlocked by TRUSTLEASE_KEYSTORE_PASSWORD',
+    '  --dry-run                Simulate writes and estimate gas without sending',
+    '  --json                   Print the result as JSON',
+    '',
+    'Without --keystore, writes are signed with TRUSTLEASE_PRIVATE_KEY.',
+  ].join('\n');
+}
+
+const toJson = (value: unknown) => JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item), 2);
+
+const consoleOutput: CliOutput = {
+  stdout: text => console.log(text),
+  stderr: text => console.error(text),
+};
+
+/** Runs one CLI invocation and resolves to its exit code: 0 on success, 1 on failure, 2 on bad usage. */
+export async function runCli(argv: string[], env: CliEnv = process.env, out: CliOutput = consoleOutput): Promise<number> {
+  let options: Options = {};
+  let provider: FailoverProvider | undefined;
+
+  try {
+    const parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    options = parsed.values;
+    const [name, ...args] = parsed.positionals;
+    if (!name || name === 'help' || options.help) {
+      out.stdout(helpText());
+      return 0;
+    }
+    const command = COMMANDS[name];
+    if (!command) throw new UsageError(`Unknown command "${name}"`);
+
+    const network = resolveNetwork(options.network ?? env.TRUSTLEASE_NETWORK);
+    const rpc = options.rpc ?? env.TRUSTLEASE_RPC_URL;
+    provider = new FailoverProvider(rpc ? [rpc] : network.rpcUrls, network.chainId);
+    const chainId = Number(await provider.send('eth_chainId', []));
+    if (chainId !== network.chainId) {
+      throw new Error(`The RPC endpoint is on chain ${chainId}, not ${network.name} (${network.chainId})`);
+    }
+
+    const deployment = loadDeployment(network.chainId, options.manifests);
+    const signer = await loadSigner(options, env, provider);
+    const ctx: Context = { network, client: new TrustLeaseClient({ deployment, provider }), signer, dryRun: !!options['dry-run'] };
+
+    const { result, lines } = await command.run(ctx, args, options);
+    out.stdout(options.json ? toJson(result) : lines.join('\n'));
+    return 0;
+  } catch (error) {
+    // Anything can be thrown here, including raw JSON-RPC errors with numeric codes
+    const code = error !== null && typeof error === 'object' ? (error as { code?: unknown }).code : undefined;
+    if (error instanceof UsageError || (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS'))) {
+      if (options.json) out.stdout(toJson({ error: { kind: 'usage', message: (error as Error).message } }));
+      else out.stderr(`${(error as Error).message}\nRun \`npm run trustlease -- help\` for usage.`);
+      return 2;
+    }
+
+    const { cause: _cause, ...decoded } = decodeError(error);
+    if (options.json) out.stdout(toJson({ error: decoded }));
+    else out.stderr([`${decoded.title}: ${decoded.message}`, decoded.fix].filter(Boolean).join(' '));
+    return 1;
+  } finally {
+    provider?.destroy();
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli(process.argv.slice(2))
+    .then(code => {
+      process.exitCode = code;
+    })
+    .catch(error => {
+      console.error(error);
+      process.exitCode = 1;
+    });
+}
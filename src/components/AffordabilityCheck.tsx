@@ -0,0 +1,60 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useAffordability } from '@/hooks/useWallet';
+import { formatFlow } from '@/lib/format';
+
+export interface AffordabilityItem {
+  /** e.g. "Security deposit" or "Listing fee". */
+  label: string;
+  amount: bigint;
+}
+
+interface AffordabilityCheckProps {
+  /** What the transaction sends, summed into its value. */
+  items: AffordabilityItem[];
+  /** Estimated gas from a cost preview; until then the check covers the value alone. */
+  gasCost?: bigint;
+}
+
+const formatCost = (wei: bigint) => formatFlow(wei, { maximumFractionDigits: 6 });
+
+/** Inline check of what a form will send, plus gas, against the live wallet balance. */
+export function AffordabilityCheck({ items, gasCost }: AffordabilityCheckProps) {
+  const check = useAffordability();
+  const value = items.reduce((sum, item) => sum + item.amount, 0n);
+  const affordability = items.length > 0 ? check(value, gasCost) : null;
+  if (!affordability) return null;
+
+  const rows = [
+    ...items.map(item => ({ label: item.label, value: formatCost(item.amount) })),
+    { label: 'Estimated gas', value: gasCost === undefined ? 'Estimated on review' : formatCost(gasCost) },
+    { label: 'Wallet balance', value: formatCost(affordability.balance) },
+  ];
+
+  return (
+    <div
+      role="status"
+      aria-label="Affordability check"
+      className={`rounded-xl border p-4 text-sm space-y-3 ${affordability.affordable ? 'border-primary/30' : 'border-destructive/50 bg-destructive/5'}`}
+    >
+      <dl className="space-y-1">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-center justify-between gap-4">
+            <dt className="text-muted-foreground">{row.label}</dt>
+            <dd className="font-mono">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      {affordability.affordable ? (
+        <p className="flex items-center gap-2 text-primary">
+          <CheckCircle2 className="w-4 h-4" />
+          Your balance covers {gasCost === undefined ? formatCost(affordability.required) : `${formatCost(affordability.required)} including gas`}
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="w-4 h-4" />
+          Not enough FLOW: top up {formatCost(affordability.shortfall)}{gasCost === undefined && ' plus gas'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { motion } from 'framer-motion';
+import { Fuel, Loader2, ShieldCheck } from 'lucide-react';
+import type { CostPreview } from '@/lib/contracts/preflight';
+import { formatAmount, formatFlow, formatInteger } from '@/lib/format';
+
+interface CostSummaryProps {
+  preview: CostPreview;
+  /** Label for the value row, e.g. "Security deposit" or "Rent". */
+  valueLabel: string;
+  /** Explains when the platform fee is taken, e.g. "deducted on release". */
+  feeNote?: string;
+  symbol?: string;
+  isConfirming?: boolean;
+  /** The live balance cannot cover the total; confirming is blocked. */
+  insufficientFunds?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Six digits keeps gas costs, a fraction of a cent, from rounding away
+const formatCost = (wei: bigint, symbol: string) => formatFlow(wei, { symbol, maximumFractionDigits: 6 });
+
+export function CostSummary({ preview, valueLabel, feeNote, symbol = 'FLOW', isConfirming, insufficientFunds, onConfirm, onCancel }: CostSummaryProps) {
+  const rows = [
+    { label: valueLabel, value: formatCost(preview.value, symbol) },
+    {
+      label: `Platform fee (${preview.feePercent}%)`,
+      value: formatCost(preview.platformFee, symbol),
+      note: feeNote,
+    },
+    {
+      label: 'Estimated gas',
+      value: formatCost(preview.gasCost, symbol),
+      note: `${formatInteger(preview.gasLimit)} gas @ ${formatAmount(preview.gasPrice, { decimals: 9, symbol: 'gwei' })}`,
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card p-6 rounded-2xl border border-primary/30 space-y-4"
+    >
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-primary" />
+        <p className="font-medium">Simulation passed — review the cost</p>
+      </div>
+
+      <dl className="space-y-3 text-sm">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-start justify-between gap-4">
+            <dt className="text-muted-foreground">
+              {row.label}
+              {row.note && <span className="block text-xs">{row.note}</span>}
+            </dt>
+            <dd className="font-mono">{row.value}</dd>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-4 pt-3 border-t border-border">
+          <dt className="flex items-center gap-2 font-medium">
+            <Fuel className="w-4 h-4 text-primary" />
+            Total from wallet
+          </dt>
+          <dd className="font-mono font-bold">{formatCost(preview.total, symbol)}</dd>
+        </div>
+      </dl>
+
+      <div className="flex gap-3 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isConfirming}
+          className="btn-secondary disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={isConfirming || insufficientFunds}
+          className="btn-primary flex items-center gap-2 disabled:opacity-50"
+        >
+          {isConfirming && <Loader2 className="w-4 h-4 animate-spin" />}
+          {insufficientFunds ? 'Not enough FLOW' : 'Confirm in wallet'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,11 +1,20 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FileText, DollarSign, Calendar, Loader2, Lock, Sparkles, PartyPopper } from 'lucide-react';
 import { toast } from 'sonner';
-import { useWallet } from '@/hooks/useWallet';
+import { useAffordability, useWallet, useWalletChange } from '@/hooks/useWallet';
+import { useViewer } from '@/hooks/useWatchAddress';
 import { useEscrow } from '@/hooks/useContract';
+import { useCreateAgreement } from '@/hooks/useTrustLeaseQueries';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import type { CostPreview } from '@/lib/contracts/preflight';
+import { DAY, formatFlow, humanizeInterval, parseDateInput, tryParseFlow } from '@/lib/format';
+import { AffordabilityCheck } from './AffordabilityCheck';
+import { CostSummary } from './CostSummary';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import confetti from 'canvas-confetti';
-import { ethers } from 'ethers';
+
+const RENT_INTERVAL = 30 * DAY;
 
 interface AgreementForm {
   propertyId: string;
@@ -19,7 +28,10 @@ interface AgreementForm {
 
 export function CreateAgreement() {
   const { isConnected, address } = useWallet();
-  const { createAgreement } = useEscrow();
+  const { isWatching } = useViewer();
+  const { previewCreateAgreement } = useEscrow();
+  const checkAffordability = useAffordability();
+  const { mutateAsync: createAgreement } = useCreateAgreement();
 
   const [formData, setFormData] = useState<AgreementForm>({
     propertyId: '',
@@ -32,11 +44,20 @@ export function CreateAgreement() {
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<CostPreview | null>(null);
+  // A preview was priced for the previous account and chain; keep what was typed
+  useWalletChange(() => setPreview(null));
+  // Nothing may be confirmed while viewing someone else's address
+  useEffect(() => {
+    if (isWatching) setPreview(null);
+  }, [isWatching]);
   const [showSuccess, setShowSuccess] = useState(false);
   const [showEscrowAnimation, setShowEscrowAnimation] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    setPreview(null);
   };
 
   const triggerConfetti = () => {
@@ -48,6 +69,29 @@ export function CreateAgreement() {
     });
   };
 
+  const agreementParams = () => {
+    return [
+      Number(formData.propertyId),
+      formData.landlord,
+      formData.monthlyRent,
+      RENT_INTERVAL,
+      parseDateInput(formData.startDate),
+      parseDateInput(formData.endDate),
+      formData.metadataHash || '',
+      formData.depositAmount,
+    ] as const;
+  };
+
+  // The deposit is the whole value sent; rent is paid later, period by period
+  const deposit = tryParseFlow(formData.depositAmount);
+  const depositItems = deposit ? [{ label: 'Security deposit', amount: deposit }] : [];
+  const cannotAfford = deposit ? checkAffordability(deposit, preview?.gasCost)?.affordable === false : false;
+
+  const requiredDeposit = () => {
+    const deposit = tryParseFlow(formData.depositAmount);
+    return deposit === null ? undefined : formatFlow(deposit);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -55,32 +99,34 @@ export function CreateAgreement() {
       toast.error('Please connect wallet first');
       return;
     }
+    if (isWatching) return;
 
+    // Simulate first so a reverting agreement never reaches the wallet
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewCreateAgreement(...agreementParams()));
+    } catch (error) {
+      const err = decodeError(error, { required: requiredDeposit() });
+      toast.error(err.title, { description: describeError(err) });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleConfirm = async () => {
     setIsSubmitting(true);
     setShowEscrowAnimation(true);
 
     try {
-      const startTimestamp = Math.floor(new Date(formData.startDate).getTime() / 1000);
-      const endTimestamp = Math.floor(new Date(formData.endDate).getTime() / 1000);
-      const rentInterval = 30 * 24 * 60 * 60; // 30 days
-
-      const result = await createAgreement(
-        Number(formData.propertyId),
-        formData.landlord,
-        formData.monthlyRent,
-        rentInterval,
-        startTimestamp,
-        endTimestamp,
-        formData.metadataHash || '',
-        formData.depositAmount
-      );
+      const result = await createAgreement(agreementParams());
 
+      setPreview(null);
       setShowEscrowAnimation(false);
       setShowSuccess(true);
       triggerConfetti();
 
       toast.success('Agreement Created!', {
-        description: `TX: ${result.transactionHash.slice(0, 10)}...`,
+        description: `TX: ${result.hash.slice(0, 10)}...`,
       });
 
       setTimeout(() => {
@@ -95,13 +141,10 @@ export function CreateAgreement() {
         });
       }, 5000);
 
-    } catch (error: any) {
+    } catch (error) {
       setShowEscrowAnimation(false);
-      toast.error('Failed', {
-        description: error.message.includes('insufficient')
-          ? `Need ${formData.depositAmount} FLOW + gas`
-          : error.message || 'Try again',
-      });
+      const err = decodeError(error, { required: requiredDeposit() });
+      toast.error(err.title, { description: describeError(err) });
     } finally {
       setIsSubmitting(false);
     }
@@ -251,6 +294,8 @@ export function CreateAgreement() {
           </AnimatePresence>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            <ReadOnlyNotice action="Creating agreements" />
+
             <div className="grid md:grid-cols-2 gap-6">
               <div>
                 <label className="block text-sm font-medium mb-2">Property ID</label>
@@ -321,6 +366,7 @@ export function CreateAgreement() {
                     required
                   />
                 </div>
+                <p className="text-xs text-muted-foreground mt-1">Due {humanizeInterval(RENT_INTERVAL)}</p>
               </div>
 
               <div>
@@ -366,27 +412,41 @@ export function CreateAgreement() {
               </div>
             </div>
 
-            <div className="flex justify-center pt-4">
-              <motion.button
-                type="submit"
-                disabled={isSubmitting || !isConnected}
-                whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
-                whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
-                className="btn-primary flex items-center gap-2 min-w-[220px] justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isSubmitting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Lock className="w-5 h-5" />
-                    Create Agreement & Lock Deposit
-                  </>
-                )}
-              </motion.button>
-            </div>
+            {!isWatching && <AffordabilityCheck items={depositItems} gasCost={preview?.gasCost} />}
+
+            {preview ? (
+              <CostSummary
+                preview={preview}
+                valueLabel="Security deposit"
+                feeNote="Deducted from the deposit when it is released"
+                isConfirming={isSubmitting}
+                insufficientFunds={cannotAfford}
+                onConfirm={handleConfirm}
+                onCancel={() => setPreview(null)}
+              />
+            ) : (
+              <div className="flex justify-center pt-4">
+                <motion.button
+                  type="submit"
+                  disabled={isPreviewing || !isConnected || isWatching || cannotAfford}
+                  whileHover={{ scale: isPreviewing ? 1 : 1.02 }}
+                  whileTap={{ scale: isPreviewing ? 1 : 0.98 }}
+                  className="btn-primary flex items-center gap-2 min-w-[220px] justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPreviewing ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Simulating...
+                    </>
+                  ) : (
+                    <>
+                      <Lock className="w-5 h-5" />
+                      Review Agreement & Costs
+                    </>
+                  )}
+                </motion.button>
+              </div>
+            )}
           </form>
         </motion.div>
       </div>
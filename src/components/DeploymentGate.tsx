@@ -0,0 +1,70 @@
+import { useEffect, type ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { NetworkSelector } from '@/components/NetworkSelector';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useDeploymentCheck } from '@/hooks/useTrustLeaseQueries';
+
+/**
+ * Renders the app unless the startup check finds the selected network's deployment
+ * out of step with the app's ABIs, in which case nothing else is usable and a blocking
+ * screen lists what is wrong. When the check itself fails (RPC down) the app renders
+ * and reads surface their own errors.
+ */
+export function DeploymentGate({ children }: { children: ReactNode }) {
+  const { network } = useNetwork();
+  const { data: report, error, refetch, isFetching } = useDeploymentCheck();
+
+  useEffect(() => {
+    if (error) console.error('Error checking the TrustLease deployment:', error);
+  }, [error]);
+
+  if (!report || report.issues.length === 0) return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-24">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card rounded-2xl p-8 max-w-2xl w-full"
+        role="alert"
+      >
+        <div className="flex items-start gap-4 mb-6">
+          <div className="p-3 rounded-xl bg-destructive/10">
+            <AlertTriangle className="w-6 h-6 text-destructive" />
+          </div>
+          <div>
+            <h1 className="font-display text-2xl font-bold mb-1">Deployment misconfigured</h1>
+            <p className="text-muted-foreground text-sm">
+              The TrustLease contracts configured for {network.name} do not match what this app was built for.
+              Transactions would fail or be misread, so the app is disabled on this network.
+            </p>
+          </div>
+        </div>
+
+        <ul className="space-y-3 mb-6">
+          {report.issues.map((issue, index) => (
+            <li key={index} className="p-3 rounded-lg bg-muted/50 text-sm">
+              <p className="font-medium">{issue.contract}</p>
+              <p className="text-muted-foreground break-words">{issue.message}</p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <NetworkSelector />
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="btn-primary flex items-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Check again
+          </motion.button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
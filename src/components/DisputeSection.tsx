@@ -1,9 +1,14 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, Upload, FileImage, Loader2, CheckCircle2, Clock, XCircle, Send } from 'lucide-react';
 import { toast } from 'sonner';
 import { useWallet } from '@/hooks/useWallet';
 import { useContract } from '@/hooks/useContract';
+import { useAccountDisputes } from '@/hooks/useTrustLeaseQueries';
+import { useViewer } from '@/hooks/useWatchAddress';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import { DAY, formatLeaseDate, nowInSeconds } from '@/lib/format';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 
 interface DisputeForm {
   agreementId: string;
@@ -20,15 +25,15 @@ const MOCK_DISPUTES = [
     agreementId: 1,
     description: 'Property condition not as described. Multiple appliances non-functional.',
     status: 'resolving' as DisputeStatus,
-    timestamp: Date.now() - 86400000 * 2,
+    timestamp: nowInSeconds() - 2 * DAY,
   },
   {
     id: 2,
     agreementId: 2,
     description: 'Security deposit not returned after lease ended.',
     status: 'resolved' as DisputeStatus,
-    timestamp: Date.now() - 86400000 * 10,
-    resolution: 'in_favor_of_tenant',
+    timestamp: nowInSeconds() - 10 * DAY,
+    resolution: 'Resolved in favor of tenant',
   },
 ];
 
@@ -37,13 +42,17 @@ interface Dispute {
   agreementId: number;
   description: string;
   status: DisputeStatus;
+  /** Unix seconds. */
   timestamp: number;
+  /** Who the dispute was resolved for, as shown. */
   resolution?: string;
 }
 
 export function DisputeSection() {
-  const { isConnected } = useWallet();
+  const { isConnected, shortenAddress } = useWallet();
+  const { address: viewer, isWatching } = useViewer();
   const { sendTransaction } = useContract();
+  const { data: accountDisputes } = useAccountDisputes(viewer);
   
   const [formData, setFormData] = useState<DisputeForm>({
     agreementId: '',
@@ -51,7 +60,20 @@ export function DisputeSection() {
     evidenceFiles: [],
   });
   
-  const [disputes, setDisputes] = useState<Dispute[]>(MOCK_DISPUTES);
+  // Without a wallet or watched address there is no one to read disputes for, so show examples
+  const [mockDisputes, setMockDisputes] = useState<Dispute[]>(MOCK_DISPUTES);
+  const disputes = useMemo<Dispute[]>(() => {
+    if (!viewer) return mockDisputes;
+    // One dispute per agreement, so the agreement ID doubles as the dispute's
+    return (accountDisputes ?? []).map(dispute => ({
+      id: dispute.agreementId,
+      agreementId: dispute.agreementId,
+      description: dispute.reason,
+      status: dispute.resolved ? 'resolved' : 'pending',
+      timestamp: Number(dispute.createdAt),
+      resolution: dispute.resolved ? `Resolved in favor of ${shortenAddress(dispute.winner)}` : undefined,
+    }));
+  }, [viewer, accountDisputes, mockDisputes, shortenAddress]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
 
@@ -94,6 +116,7 @@ export function DisputeSection() {
       toast.error('Please connect your wallet first');
       return;
     }
+    if (isWatching) return;
 
     if (formData.evidenceFiles.length === 0) {
       toast.error('Please upload at least one evidence file');
@@ -117,12 +140,12 @@ export function DisputeSection() {
       await new Promise(resolve => setTimeout(resolve, 1000));
       
       // Add new dispute to list
-      setDisputes(prev => [{
+      setMockDisputes(prev => [{
         id: prev.length + 1,
         agreementId: parseInt(formData.agreementId),
         description: formData.description,
         status: 'pending',
-        timestamp: Date.now(),
+        timestamp: nowInSeconds(),
       }, ...prev]);
       
       toast.success('Dispute Submitted!', {
@@ -134,10 +157,9 @@ export function DisputeSection() {
         description: '',
         evidenceFiles: [],
       });
-    } catch (error: any) {
-      toast.error('Failed to submit dispute', {
-        description: error.message || 'Please try again',
-      });
+    } catch (error) {
+      const err = decodeError(error);
+      toast.error(err.title, { description: describeError(err) });
     } finally {
       setIsSubmitting(false);
       setUploadProgress(0);
@@ -190,6 +212,8 @@ export function DisputeSection() {
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-5">
+              <ReadOnlyNotice action="Raising disputes" />
+
               <div>
                 <label className="block text-sm font-medium mb-2">Agreement ID</label>
                 <input
@@ -290,7 +314,7 @@ export function DisputeSection() {
 
               <motion.button
                 type="submit"
-                disabled={isSubmitting || !isConnected}
+                disabled={isSubmitting || !isConnected || isWatching}
                 whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
                 whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
                 className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
@@ -318,7 +342,9 @@ export function DisputeSection() {
             transition={{ duration: 0.6 }}
             className="space-y-4"
           >
-            <h3 className="font-display text-xl font-bold mb-6">Your Disputes</h3>
+            <h3 className="font-display text-xl font-bold mb-6">
+              {isWatching ? `Disputes of ${shortenAddress(viewer!)}` : 'Your Disputes'}
+            </h3>
 
             {disputes.map((dispute, index) => {
               const statusConfig = getStatusConfig(dispute.status);
@@ -351,14 +377,14 @@ export function DisputeSection() {
                   </p>
                   
                   <p className="text-xs text-muted-foreground">
-                    Submitted {new Date(dispute.timestamp).toLocaleDateString()}
+                    Submitted {formatLeaseDate(dispute.timestamp)}
                   </p>
 
                   {dispute.resolution && (
                     <div className="mt-3 pt-3 border-t border-border">
                       <div className="flex items-center gap-2 text-primary text-sm">
                         <CheckCircle2 className="w-4 h-4" />
-                        Resolved in favor of tenant
+                        {dispute.resolution}
                       </div>
                     </div>
                   )}
@@ -1,15 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Home, MapPin, Shield, Eye, X, ExternalLink, Calendar, DollarSign } from 'lucide-react';
-import { useWallet } from '@/hooks/useWallet';
-import { usePropertyVerification } from '@/hooks/useContract';
+import { useWallet, useWalletChange } from '@/hooks/useWallet';
+import { useViewer } from '@/hooks/useWatchAddress';
+import { useLandlordProperties, useVerifiedProperties } from '@/hooks/useTrustLeaseQueries';
+import { decodeError, describeError } from '@/lib/contracts/errors';
 import { toast } from 'sonner';
 
 interface Property {
   id: string;
   propertyAddress: string;
   documentHash: string;
-  string;
   videoHash: string;
   gpsCoordinates: string;
   isVerified: boolean;
@@ -17,57 +18,38 @@ interface Property {
 }
 
 export function ExploreProperties() {
-  const { address, isConnected } = useWallet();
-  const { getLandlordProperties, getPropertyDetails } = usePropertyVerification();
+  const { shortenAddress } = useWallet();
+  const { address: viewer, isWatching } = useViewer();
+  // Connected or watched landlords show their own listings; everyone else browses verified ones
+  const landlordQuery = useLandlordProperties(viewer);
+  const verifiedQuery = useVerifiedProperties(!viewer);
+  const { data: details, error, isLoading: loading } = viewer ? landlordQuery : verifiedQuery;
 
-  const [properties, setProperties] = useState<Property[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+  // An open listing may have come from the previous account's list
+  useWalletChange(() => setSelectedProperty(null));
+  useEffect(() => setSelectedProperty(null), [viewer]);
 
   useEffect(() => {
-    if (!isConnected || !address) return;
-
-    const load = async () => {
-      try {
-        setLoading(true);
-        const ids = await getLandlordProperties(address);
-        const list = await Promise.all(
-          ids.map(async (id: bigint) => {
-            const p = await getPropertyDetails(Number(id));
-            return {
-              id: id.toString(),
-              propertyAddress: p.propertyAddress || 'Unknown Address',
-              documentHash: p.documentHash,
-              videoHash: p.videoHash,
-              gpsCoordinates: p.gpsCoordinates,
-              isVerified: p.isVerified,
-              kycLevel: Number(p.kycLevel),
-            };
-          })
-        );
-        setProperties(list);
-      } catch (err) {
-        toast.error('Failed to load properties');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    load();
-  }, [address, isConnected]);
-
-  if (!isConnected) {
-    return (
-      <section className="py-24 text-center">
-        <p className="text-lg text-muted-foreground">Connect wallet to view properties</p>
-      </section>
-    );
-  }
+    if (error) toast.error('Failed to load properties', { description: describeError(decodeError(error)) });
+  }, [error]);
+
+  const properties: Property[] = (details ?? []).map(p => ({
+    id: p.id.toString(),
+    propertyAddress: p.propertyAddress || 'Unknown Address',
+    documentHash: p.documentHash,
+    videoHash: p.videoHash,
+    gpsCoordinates: p.gpsCoordinates,
+    isVerified: p.isVerified,
+    kycLevel: Number(p.kycLevel),
+  }));
 
   if (loading) {
     return (
       <section className="py-24 text-center">
-        <p className="text-xl">Loading your verified properties...</p>
+        <p className="text-xl">
+          {isWatching ? `Loading properties of ${shortenAddress(viewer!)}...` : viewer ? 'Loading your properties...' : 'Loading verified properties...'}
+        </p>
       </section>
     );
   }
@@ -86,7 +68,9 @@ export function ExploreProperties() {
             <span className="text-gradient">Verified Properties</span>
           </h2>
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-            Browse our collection of verified rental properties. Each listing is thoroughly vetted for your safety.
+            {isWatching
+              ? `Listings owned by ${shortenAddress(viewer!)}, shown read-only.`
+              : 'Browse our collection of verified rental properties. Each listing is thoroughly vetted for your safety.'}
           </p>
         </motion.div>
 
@@ -211,13 +195,15 @@ export function ExploreProperties() {
                   </div>
 
                   <div className="flex flex-col sm:flex-row gap-3">
-                    <a
-                      href="#agreements"
-                      onClick={() => setSelectedProperty(null)}
-                      className="btn-primary flex-1 text-center py-3"
-                    >
-                      Create Agreement
-                    </a>
+                    {!isWatching && (
+                      <a
+                        href="#agreements"
+                        onClick={() => setSelectedProperty(null)}
+                        className="btn-primary flex-1 text-center py-3"
+                      >
+                        Create Agreement
+                      </a>
+                    )}
                     <a
                       href={`https://ipfs.io/ipfs/${selectedProperty.videoHash}`}
                       target="_blank"
@@ -1,7 +1,16 @@
 import { motion } from 'framer-motion';
 import { useWallet } from '@/hooks/useWallet';
-import { Wallet, AlertTriangle, ChevronDown, LogOut, ExternalLink } from 'lucide-react';
-import { useState } from 'react';
+import { useSiwe } from '@/hooks/useSiwe';
+import { useWatchAddress } from '@/hooks/useWatchAddress';
+import { Wallet, AlertTriangle, ChevronDown, LogOut, ExternalLink, Repeat, KeyRound, Eye, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { TransactionTray } from './TransactionTray';
+import { NetworkSelector } from './NetworkSelector';
+import { WalletPicker } from './WalletPicker';
+import { WatchAddressDialog } from './WatchAddressDialog';
+import { explorerUrl } from '@/lib/networks';
+import { formatFlow, parseFlow } from '@/lib/format';
 
 export function Header() {
   const { 
@@ -10,14 +19,28 @@ export function Header() {
     isConnected, 
     isConnecting, 
     isWrongNetwork,
+    wallets,
+    wallet,
     connect, 
     disconnect, 
     switchNetwork,
     shortenAddress,
     networkConfig 
   } = useWallet();
+  const { isSignedIn, isSigningIn, error: signInError, signIn, signOut } = useSiwe();
+  const { watchedAddress, watchAddress } = useWatchAddress();
   
   const [showDropdown, setShowDropdown] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [showWatch, setShowWatch] = useState(false);
+  const addressLink = address && explorerUrl(networkConfig, 'address', address);
+
+  // Only ask which wallet when there is a choice and none was picked before
+  const handleConnect = () => (wallet || wallets.length <= 1 ? connect() : setShowPicker(true));
+
+  useEffect(() => {
+    if (signInError) toast.error('Sign-in failed', { description: signInError });
+  }, [signInError]);
 
   return (
     <motion.header 
@@ -62,7 +85,7 @@ export function Header() {
               <motion.button
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
-                onClick={switchNetwork}
+                onClick={() => switchNetwork()}
                 className="flex items-center gap-2 px-4 py-2 bg-destructive/20 border border-destructive/50 rounded-xl text-destructive text-sm font-medium hover:bg-destructive/30 transition-colors"
               >
                 <AlertTriangle className="w-4 h-4" />
@@ -70,11 +93,42 @@ export function Header() {
               </motion.button>
             )}
 
+            {watchedAddress ? (
+              <div
+                role="status"
+                aria-label="Watch mode"
+                className="flex items-center gap-2 px-3 py-2 bg-accent/15 border border-accent/50 rounded-xl text-accent text-sm font-medium"
+              >
+                <Eye className="w-4 h-4" />
+                <span>Viewing <span className="font-mono">{shortenAddress(watchedAddress)}</span> · Read-only</span>
+                <button
+                  onClick={() => watchAddress(null)}
+                  aria-label="Stop viewing"
+                  className="p-0.5 rounded hover:bg-accent/20 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowWatch(true)}
+                aria-label="View as address"
+                title="View as address"
+                className="p-2 glass-card rounded-xl text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Eye className="w-4 h-4" />
+              </button>
+            )}
+
+            <NetworkSelector onSelect={network => isConnected && switchNetwork(network)} />
+
+            <TransactionTray />
+
             {!isConnected ? (
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
-                onClick={connect}
+                onClick={handleConnect}
                 disabled={isConnecting}
                 className="btn-primary flex items-center gap-2"
               >
@@ -101,7 +155,7 @@ export function Header() {
                   </div>
                   <div className="h-4 w-px bg-border" />
                   <div className="flex items-center gap-1 text-primary text-sm font-semibold">
-                    <span>{parseFloat(balance || '0').toFixed(3)}</span>
+                    <span>{formatFlow(parseFlow(balance || '0'), { symbol: undefined, minimumFractionDigits: 3, maximumFractionDigits: 3 })}</span>
                     <span className="text-muted-foreground">FLOW</span>
                   </div>
                   <ChevronDown className={`w-4 h-4 transition-transform ${showDropdown ? 'rotate-180' : ''}`} />
@@ -118,17 +172,45 @@ export function Header() {
                       <p className="text-xs text-muted-foreground">Connected to</p>
                       <p className="text-sm font-medium text-primary">{networkConfig.name}</p>
                     </div>
-                    <a
-                      href={`${networkConfig.blockExplorer}/address/${address}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 w-full p-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-lg transition-colors"
+                    {addressLink && (
+                      <a
+                        href={addressLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 w-full p-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-lg transition-colors"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        View on Explorer
+                      </a>
+                    )}
+                    {wallets.length > 1 && (
+                      <button
+                        onClick={() => {
+                          setShowPicker(true);
+                          setShowDropdown(false);
+                        }}
+                        className="flex items-center gap-2 w-full p-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-lg transition-colors"
+                      >
+                        <Repeat className="w-4 h-4" />
+                        Change Wallet
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (isSignedIn) signOut();
+                        else signIn();
+                        setShowDropdown(false);
+                      }}
+                      disabled={isSigningIn}
+                      className="flex items-center gap-2 w-full p-3 text-sm text-muted-foreground hover:text-foreground hover:bg-muted/50 rounded-lg transition-colors disabled:opacity-50"
                     >
-                      <ExternalLink className="w-4 h-4" />
-                      View on Explorer
-                    </a>
+                      <KeyRound className="w-4 h-4" />
+                      {isSignedIn ? 'Sign Out' : isSigningIn ? 'Signing In...' : 'Sign In'}
+                    </button>
                     <button
                       onClick={() => {
+                        // Disconnecting also ends the sign-in, so the next visitor on this browser is not signed in
+                        signOut();
                         disconnect();
                         setShowDropdown(false);
                       }}
@@ -144,6 +226,9 @@ export function Header() {
           </div>
         </div>
       </div>
+
+      <WalletPicker open={showPicker} onOpenChange={setShowPicker} />
+      <WatchAddressDialog open={showWatch} onOpenChange={setShowWatch} />
     </motion.header>
   );
 }
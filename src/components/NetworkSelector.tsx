@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, ChevronDown, Globe } from 'lucide-react';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useRpcHealth } from '@/hooks/useRpcHealth';
+import type { NetworkConfig } from '@/lib/networks';
+import type { RpcStatus } from '@/lib/rpc';
+
+const STATUS_STYLES: Record<RpcStatus, { dot: string; label: string }> = {
+  healthy: { dot: 'bg-green-500', label: 'RPC healthy' },
+  degraded: { dot: 'bg-yellow-500', label: 'RPC degraded: some endpoints are failing' },
+  down: { dot: 'bg-destructive', label: 'RPC unreachable: retrying' },
+};
+
+interface NetworkSelectorProps {
+  /** Called after the app switches, e.g. to move a connected wallet along with it. */
+  onSelect?: (network: NetworkConfig) => void;
+}
+
+export function NetworkSelector({ onSelect }: NetworkSelectorProps) {
+  const { network, networks, selectNetwork, isDeployed } = useNetwork();
+  const { status } = useRpcHealth(network);
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (target: NetworkConfig) => {
+    setOpen(false);
+    if (target.chainId === network.chainId) return;
+    selectNetwork(target.chainId);
+    onSelect?.(target);
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.02 }}
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 glass-card rounded-xl border border-primary/30 hover:border-primary/60 transition-colors text-sm font-medium"
+        aria-label="Select network"
+      >
+        <span className="relative">
+          <Globe className="w-4 h-4 text-primary" />
+          <span
+            className={`absolute -bottom-0.5 -right-0.5 w-2 h-2 rounded-full ${STATUS_STYLES[status].dot}`}
+            title={STATUS_STYLES[status].label}
+          />
+        </span>
+        <span className="hidden sm:inline">{network.name}</span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </motion.button>
+
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 mt-2 w-64 glass-card rounded-xl p-2 border border-glass-border"
+        >
+          <p className="p-3 text-xs text-muted-foreground border-b border-border">Network</p>
+          <ul>
+            {networks.map(option => {
+              const deployed = isDeployed(option);
+              return (
+                <li key={option.chainId}>
+                  <button
+                    onClick={() => handleSelect(option)}
+                    disabled={!deployed}
+                    className="flex items-center justify-between w-full p-3 text-sm rounded-lg hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span className="text-left">
+                      <span className="block font-medium">{option.name}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {deployed ? `Chain ${option.chainId}${option.testnet ? ' · Testnet' : ''}` : 'TrustLease not deployed yet'}
+                      </span>
+                    </span>
+                    {option.chainId === network.chainId && <Check className="w-4 h-4 text-primary" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </motion.div>
+      )}
+    </div>
+  );
+}
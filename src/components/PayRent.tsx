@@ -1,74 +1,102 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Calendar, Clock, DollarSign, Home, Loader2, CheckCircle2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useWallet } from '@/hooks/useWallet';
+import { useAffordability, useWallet, useWalletChange } from '@/hooks/useWallet';
 import { useContract } from '@/hooks/useContract';
+import { usePayRent, useTenantAgreements } from '@/hooks/useTrustLeaseQueries';
+import { useViewer } from '@/hooks/useWatchAddress';
+import { agreementStatus } from '@/lib/contracts';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import type { CostPreview } from '@/lib/contracts/preflight';
+import {
+  DAY,
+  daysUntil,
+  formatCountdown,
+  formatFlow,
+  formatLeaseDate,
+  humanizeInterval,
+  nowInSeconds,
+  parseFlow,
+  secondsUntil,
+} from '@/lib/format';
+import { AffordabilityCheck } from './AffordabilityCheck';
+import { CostSummary } from './CostSummary';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+
+interface Agreement {
+  id: number;
+  propertyAddress: string;
+  /** In wei. */
+  monthlyRent: bigint;
+  /** Seconds between payments, as stored on-chain. */
+  rentInterval: number;
+  /** Unix seconds. */
+  nextRentDue: number;
+  isActive: boolean;
+}
 
 // Mock active agreements
-const MOCK_AGREEMENTS = [
+const MOCK_AGREEMENTS: Agreement[] = [
   {
     id: 1,
     propertyAddress: '456 Ocean Drive, Miami Beach, FL',
-    monthlyRent: '2500',
-    nextRentDue: Date.now() + 86400000 * 5, // 5 days from now
+    monthlyRent: parseFlow('2500'),
+    rentInterval: 30 * DAY,
+    nextRentDue: nowInSeconds() + 5 * DAY,
     isActive: true,
   },
   {
     id: 2,
     propertyAddress: '789 Park Avenue, New York, NY',
-    monthlyRent: '8500',
-    nextRentDue: Date.now() + 86400000 * 12, // 12 days from now
+    monthlyRent: parseFlow('8500'),
+    rentInterval: 30 * DAY,
+    nextRentDue: nowInSeconds() + 12 * DAY,
     isActive: true,
   },
 ];
 
-interface Agreement {
-  id: number;
-  propertyAddress: string;
-  monthlyRent: string;
-  nextRentDue: number;
-  isActive: boolean;
-}
-
 export function PayRent() {
   const { isConnected } = useWallet();
-  const { sendTransaction } = useContract();
+  const { address: viewer, isWatching } = useViewer();
+  const { previewPayRent } = useContract();
+  const { mutateAsync: payRent } = usePayRent();
+  const { data: tenantAgreements } = useTenantAgreements(viewer);
+  const checkAffordability = useAffordability();
   
-  const [agreements, setAgreements] = useState<Agreement[]>(MOCK_AGREEMENTS);
+  // Without a wallet or watched address there is no one to read agreements for, so show examples
+  const [mockAgreements, setMockAgreements] = useState<Agreement[]>(MOCK_AGREEMENTS);
+  const agreements = useMemo<Agreement[]>(() => {
+    if (!viewer) return mockAgreements;
+    return (tenantAgreements ?? [])
+      .filter(agreement => agreementStatus(agreement.status) === 'Active')
+      .map(agreement => ({
+        id: Number(agreement.agreementId),
+        propertyAddress: `Property #${agreement.propertyId}`,
+        monthlyRent: agreement.monthlyRent,
+        rentInterval: Number(agreement.rentInterval),
+        nextRentDue: Number(agreement.nextRentDueDate),
+        isActive: true,
+      }));
+  }, [viewer, tenantAgreements, mockAgreements]);
   const [payingId, setPayingId] = useState<number | null>(null);
+  const [previewingId, setPreviewingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ agreementId: number; amount: bigint; cost: CostPreview } | null>(null);
+  // A preview was priced for the previous account and chain; keep what was typed
+  useWalletChange(() => setPreview(null));
+  // Nothing may be confirmed while viewing someone else's address
+  useEffect(() => {
+    if (isWatching) setPreview(null);
+  }, [isWatching]);
   const [countdowns, setCountdowns] = useState<{ [key: number]: string }>({});
 
-  // TODO: Replace with actual contract call
-  // useEffect(() => {
-  //   async function fetchAgreements() {
-  //     const ids = await callMethod('getMyAgreements');
-  //     const agreements = await Promise.all(ids.map(id => callMethod('getAgreement', [id])));
-  //     setAgreements(agreements);
-  //   }
-  //   if (isConnected) fetchAgreements();
-  // }, [isConnected]);
-
   useEffect(() => {
     const updateCountdowns = () => {
       const newCountdowns: { [key: number]: string } = {};
       
       agreements.forEach(agreement => {
-        const diff = agreement.nextRentDue - Date.now();
-        
-        if (diff <= 0) {
-          newCountdowns[agreement.id] = 'Due Now!';
-        } else {
-          const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-          const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-          const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-          
-          if (days > 0) {
-            newCountdowns[agreement.id] = `${days}d ${hours}h ${minutes}m`;
-          } else {
-            newCountdowns[agreement.id] = `${hours}h ${minutes}m`;
-          }
-        }
+        const remaining = secondsUntil(agreement.nextRentDue);
+        newCountdowns[agreement.id] = remaining <= 0 ? 'Due Now!' : formatCountdown(remaining);
       });
       
       setCountdowns(newCountdowns);
@@ -79,45 +107,54 @@ export function PayRent() {
     return () => clearInterval(interval);
   }, [agreements]);
 
-  const handlePayRent = async (agreementId: number, amount: string) => {
+  const rentParams = (agreementId: number, amount: bigint) =>
+    [agreementId, 'ipfs://trustlease-rent-metadata', { value: amount }] as const;
+
+  // Simulate before the wallet opens so payments that would revert are blocked up front
+  const handlePayRent = async (agreementId: number, amount: bigint) => {
     if (!isConnected) {
       toast.error('Please connect your wallet first');
       return;
     }
 
+    setPreviewingId(agreementId);
+
+    try {
+      const cost = await previewPayRent(...rentParams(agreementId, amount));
+      setPreview({ agreementId, amount, cost });
+    } catch (error) {
+      const err = decodeError(error, { required: formatFlow(amount) });
+      toast.error(err.title, { description: describeError(err) });
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  const handleConfirmPayment = async (agreementId: number, amount: bigint) => {
     setPayingId(agreementId);
 
     try {
-      // TODO: Replace with actual contract call
-      // const amountWei = ethers.parseEther(amount);
-      // await sendTransaction('payRent', [agreementId], { value: amountWei });
+      await payRent(rentParams(agreementId, amount));
+      setPreview(null);
 
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
       toast.success('Rent Paid Successfully!', {
         description: 'NFT receipt has been minted to your wallet.',
       });
 
-      // Update next due date
-      setAgreements(prev => prev.map(a => 
+      // On-chain agreements refetch once the payment settles; the examples move on by hand
+      setMockAgreements(prev => prev.map(a => 
         a.id === agreementId 
-          ? { ...a, nextRentDue: a.nextRentDue + 30 * 24 * 60 * 60 * 1000 }
+          ? { ...a, nextRentDue: a.nextRentDue + a.rentInterval }
           : a
       ));
-    } catch (error: any) {
-      toast.error('Failed to pay rent', {
-        description: error.message || 'Please try again',
-      });
+    } catch (error) {
+      const err = decodeError(error, { required: formatFlow(amount) });
+      toast.error(err.title, { description: describeError(err) });
     } finally {
       setPayingId(null);
     }
   };
 
-  const getDaysUntilDue = (dueDate: number) => {
-    const diff = dueDate - Date.now();
-    return Math.ceil(diff / (1000 * 60 * 60 * 24));
-  };
-
   const getUrgencyColor = (days: number) => {
     if (days <= 0) return 'text-destructive';
     if (days <= 3) return 'text-orange-500';
@@ -144,9 +181,16 @@ export function PayRent() {
         </motion.div>
 
         <div className="space-y-6">
+          <ReadOnlyNotice action="Paying rent" />
+
           {agreements.map((agreement, index) => {
-            const daysUntil = getDaysUntilDue(agreement.nextRentDue);
-            const urgencyColor = getUrgencyColor(daysUntil);
+            const daysLeft = daysUntil(agreement.nextRentDue);
+            const urgencyColor = getUrgencyColor(daysLeft);
+            const periodDays = agreement.rentInterval / DAY;
+            const isPreviewed = preview?.agreementId === agreement.id;
+            const rentGas = isPreviewed ? preview.cost.gasCost : undefined;
+            // The connected wallet's balance says nothing about a watched address
+            const cannotAfford = !isWatching && checkAffordability(agreement.monthlyRent, rentGas)?.affordable === false;
             
             return (
               <motion.div
@@ -179,7 +223,7 @@ export function PayRent() {
                       {countdowns[agreement.id] || '...'}
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      {new Date(agreement.nextRentDue).toLocaleDateString()}
+                      {formatLeaseDate(agreement.nextRentDue)}
                     </p>
                   </div>
 
@@ -188,21 +232,22 @@ export function PayRent() {
                     <div className="text-right">
                       <p className="text-sm text-muted-foreground">Amount</p>
                       <p className="font-display text-xl font-bold text-primary">
-                        ${agreement.monthlyRent}
+                        {formatFlow(agreement.monthlyRent)}
                       </p>
+                      <p className="text-xs text-muted-foreground">{humanizeInterval(agreement.rentInterval)}</p>
                     </div>
                     
                     <motion.button
-                      whileHover={{ scale: payingId === agreement.id ? 1 : 1.02 }}
-                      whileTap={{ scale: payingId === agreement.id ? 1 : 0.98 }}
-                      disabled={payingId !== null || !isConnected}
+                      whileHover={{ scale: previewingId === agreement.id ? 1 : 1.02 }}
+                      whileTap={{ scale: previewingId === agreement.id ? 1 : 0.98 }}
+                      disabled={previewingId !== null || payingId !== null || isPreviewed || !isConnected || isWatching || cannotAfford}
                       onClick={() => handlePayRent(agreement.id, agreement.monthlyRent)}
                       className="btn-primary min-w-[120px] flex items-center justify-center gap-2 disabled:opacity-50"
                     >
-                      {payingId === agreement.id ? (
+                      {previewingId === agreement.id ? (
                         <>
                           <Loader2 className="w-4 h-4 animate-spin" />
-                          Paying...
+                          Checking...
                         </>
                       ) : (
                         <>
@@ -214,16 +259,37 @@ export function PayRent() {
                   </div>
                 </div>
 
+                {/* Only shown while reviewing a payment, or when the balance falls short of the rent */}
+                {(isPreviewed || cannotAfford) && (
+                  <div className="mt-4">
+                    <AffordabilityCheck items={[{ label: 'Rent', amount: agreement.monthlyRent }]} gasCost={rentGas} />
+                  </div>
+                )}
+
+                {isPreviewed && (
+                  <div className="mt-4">
+                    <CostSummary
+                      preview={preview.cost}
+                      valueLabel="Rent"
+                      feeNote="Deducted from the rent sent to your landlord"
+                      isConfirming={payingId === agreement.id}
+                      insufficientFunds={cannotAfford}
+                      onConfirm={() => handleConfirmPayment(agreement.id, preview.amount)}
+                      onCancel={() => setPreview(null)}
+                    />
+                  </div>
+                )}
+
                 {/* Progress Bar */}
                 <div className="mt-4 pt-4 border-t border-border">
                   <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
                     <span>Payment Period</span>
-                    <span>{30 - Math.max(0, daysUntil)} of 30 days</span>
+                    <span>{periodDays - daysLeft} of {periodDays} days</span>
                   </div>
                   <div className="h-2 bg-muted rounded-full overflow-hidden">
                     <motion.div
                       initial={{ width: 0 }}
-                      whileInView={{ width: `${((30 - Math.max(0, daysUntil)) / 30) * 100}%` }}
+                      whileInView={{ width: `${((periodDays - daysLeft) / periodDays) * 100}%` }}
                       viewport={{ once: true }}
                       transition={{ duration: 1, delay: 0.3 }}
                       className="h-full bg-gradient-to-r from-primary to-accent rounded-full"
@@ -243,7 +309,7 @@ export function PayRent() {
               <Calendar className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="font-display text-xl font-bold mb-2">No Active Agreements</h3>
               <p className="text-muted-foreground">
-                You don't have any active rental agreements yet.
+                {isWatching ? 'This address has no active rental agreements.' : "You don't have any active rental agreements yet."}
               </p>
             </motion.div>
           )}
@@ -1,9 +1,21 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MapPin, FileText, Link2, Video, Upload, CheckCircle2, Loader2, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
-import { useWallet } from '@/hooks/useWallet';
+import { formatEther, parseEther } from 'ethers';
+import { useAffordability, useWallet, useWalletChange } from '@/hooks/useWallet';
+import { useViewer } from '@/hooks/useWatchAddress';
 import { usePropertyVerification } from '@/hooks/useContract';
+import { useKycProcessingFee, useSubmitProperty } from '@/hooks/useTrustLeaseQueries';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import type { CostPreview } from '@/lib/contracts/preflight';
+import { formatFlow, parseFlow } from '@/lib/format';
+import { AffordabilityCheck } from './AffordabilityCheck';
+import { CostSummary } from './CostSummary';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+
+// Listing fee in FLOW, as configured on PropertyVerification
+const LISTING_FEE = '0.1';
 
 interface FormData {
   propertyAddress: string;
@@ -11,11 +23,16 @@ interface FormData {
   documentHash: string;
   gpsLink: string;
   videoLink: string;
+  /** '1' basic, '2' enhanced; enhanced also pays the KYC processing fee. */
+  kycLevel: string;
 }
 
 export function PropertySubmission() {
   const { isConnected } = useWallet();
-  const { submitProperty } = usePropertyVerification();
+  const { isWatching } = useViewer();
+  const { previewSubmitProperty } = usePropertyVerification();
+  const { mutateAsync: submitProperty } = useSubmitProperty();
+  const checkAffordability = useAffordability();
 
   const [formData, setFormData] = useState<FormData>({
     propertyAddress: '',
@@ -23,15 +40,45 @@ export function PropertySubmission() {
     documentHash: 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco',
     gpsLink: '6.5244, 3.3792',
     videoLink: 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    kycLevel: '1',
   });
+  const kycLevel = Number(formData.kycLevel);
+  const { data: kycFee } = useKycProcessingFee(kycLevel === 2);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<CostPreview | null>(null);
+  // A preview was priced for the previous account and chain; keep what was typed
+  useWalletChange(() => setPreview(null));
+  // Nothing may be confirmed while viewing someone else's address
+  useEffect(() => {
+    if (isWatching) setPreview(null);
+  }, [isWatching]);
   const [isSuccess, setIsSuccess] = useState(false);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    setPreview(null);
   };
 
+  const feeItems = [
+    { label: 'Listing fee', amount: parseFlow(LISTING_FEE) },
+    ...(kycLevel === 2 && kycFee ? [{ label: 'KYC processing fee', amount: parseEther(kycFee) }] : []),
+  ];
+  const fee = feeItems.reduce((sum, item) => sum + item.amount, 0n);
+  // Submitting before the KYC fee is read would underpay and revert
+  const feesLoaded = kycLevel !== 2 || kycFee !== undefined;
+  const cannotAfford = checkAffordability(fee, preview?.gasCost)?.affordable === false;
+
+  const submissionParams = () => [
+    formData.propertyAddress || '123 Trust Street, Lagos',
+    formData.documentHash,
+    formData.videoLink,
+    formData.gpsLink,
+    kycLevel,
+    formatEther(fee),
+  ] as const;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -39,19 +86,26 @@ export function PropertySubmission() {
       toast.error('Connect wallet first');
       return;
     }
+    if (isWatching) return;
+
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewSubmitProperty(...submissionParams()));
+    } catch (error) {
+      const err = decodeError(error, { required: formatFlow(fee) });
+      toast.error(err.title, { description: describeError(err) });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
 
+  const handleConfirm = async () => {
     setIsSubmitting(true);
 
     try {
-      await submitProperty(
-        formData.propertyAddress || '123 Trust Street, Lagos',
-        formData.documentHash,
-        formData.videoLink,
-        formData.gpsLink,
-        1, // kycLevel = 1 (Basic)
-        '0.1' // fee in FLOW
-      );
+      await submitProperty(submissionParams());
 
+      setPreview(null);
       setIsSuccess(true);
       toast.success('Property Submitted!', {
         description: 'Verification in progress...',
@@ -61,12 +115,9 @@ export function PropertySubmission() {
         setIsSuccess(false);
       }, 5000);
 
-    } catch (error: any) {
-      toast.error('Failed', {
-        description: error.message.includes('insufficient')
-          ? 'Need 0.1 FLOW + gas'
-          : error.message || 'Try again',
-      });
+    } catch (error) {
+      const err = decodeError(error, { required: formatFlow(fee) });
+      toast.error(err.title, { description: describeError(err) });
     } finally {
       setIsSubmitting(false);
     }
@@ -150,6 +201,8 @@ export function PropertySubmission() {
           </AnimatePresence>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            <ReadOnlyNotice action="Submitting properties" />
+
             <div className="grid md:grid-cols-2 gap-6">
               {inputFields.map((field, index) => (
                 <motion.div
@@ -199,33 +252,62 @@ export function PropertySubmission() {
             </motion.div>
 
             <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              whileInView={{ opacity: 1, y: 0 }}
+              initial={{ opacity: 0, x: -20 }}
+              whileInView={{ opacity: 1, x: 0 }}
               viewport={{ once: true }}
-              transition={{ delay: 0.5 }}
-              className="flex justify-center pt-4"
+              transition={{ delay: 0.45 }}
             >
-              <motion.button
-                type="submit"
-                disabled={isSubmitting || !isConnected}
-                whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
-                whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
-                className="btn-primary flex items-center gap-2 min-w-[200px] justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isSubmitting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Submitting...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="w-5 h-5" />
-                    Submit for Verification (0.1 FLOW)
-                  </>
-                )}
-              </motion.button>
+              <label className="block text-sm font-medium mb-2 text-foreground">
+                KYC Level
+              </label>
+              <select name="kycLevel" value={formData.kycLevel} onChange={handleChange} className="input-glass">
+                <option value="1">Basic: listing fee only</option>
+                <option value="2">Enhanced: adds the KYC processing fee</option>
+              </select>
             </motion.div>
 
+            {!isWatching && <AffordabilityCheck items={feeItems} gasCost={preview?.gasCost} />}
+
+            {preview ? (
+              <CostSummary
+                preview={preview}
+                valueLabel="Listing fee"
+                feeNote="Paid to the fee collector"
+                isConfirming={isSubmitting}
+                insufficientFunds={cannotAfford}
+                onConfirm={handleConfirm}
+                onCancel={() => setPreview(null)}
+              />
+            ) : (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ delay: 0.5 }}
+                className="flex justify-center pt-4"
+              >
+                <motion.button
+                  type="submit"
+                  disabled={isPreviewing || !isConnected || isWatching || cannotAfford || !feesLoaded}
+                  whileHover={{ scale: isPreviewing ? 1 : 1.02 }}
+                  whileTap={{ scale: isPreviewing ? 1 : 0.98 }}
+                  className="btn-primary flex items-center gap-2 min-w-[200px] justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPreviewing ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Simulating...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="w-5 h-5" />
+                      Review Submission ({formatFlow(fee)})
+                    </>
+                  )}
+                </motion.button>
+              </motion.div>
+            )}
+
             {!isConnected && (
               <p className="text-center text-sm text-muted-foreground">
                 Please connect your wallet to submit a property
@@ -0,0 +1,29 @@
+import { Eye } from 'lucide-react';
+import { useWallet } from '@/hooks/useWallet';
+import { useWatchAddress } from '@/hooks/useWatchAddress';
+
+interface ReadOnlyNoticeProps {
+  /** What cannot be done here, e.g. "Submitting properties". */
+  action: string;
+}
+
+/** Explains, above a form that sends transactions, why it is disabled in watch mode. */
+export function ReadOnlyNotice({ action }: ReadOnlyNoticeProps) {
+  const { shortenAddress } = useWallet();
+  const { watchedAddress, watchAddress } = useWatchAddress();
+  if (!watchedAddress) return null;
+
+  return (
+    <div role="note" className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-accent/40 bg-accent/10 p-4 text-sm">
+      <p className="flex items-center gap-2">
+        <Eye className="w-4 h-4 text-accent" />
+        <span>
+          Viewing <span className="font-mono">{shortenAddress(watchedAddress)}</span> read-only. {action} is turned off.
+        </span>
+      </p>
+      <button type="button" onClick={() => watchAddress(null)} className="text-accent font-medium hover:underline">
+        Stop viewing
+      </button>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Receipt, ExternalLink, Calendar, Hash, Sparkles } from 'lucide-react';
 import { useWallet } from '@/hooks/useWallet';
+import { useViewer } from '@/hooks/useWatchAddress';
+import { useTenantReceipts } from '@/hooks/useTrustLeaseQueries';
+import { DAY, formatFlow, formatLeaseDate, nowInSeconds, parseFlow } from '@/lib/format';
+import { explorerUrl } from '@/lib/networks';
 
 // Mock NFT receipts
 const MOCK_RECEIPTS = [
@@ -9,8 +13,8 @@ const MOCK_RECEIPTS = [
     id: 1,
     agreementId: 1,
     propertyAddress: '456 Ocean Drive, Miami Beach',
-    amount: '2500',
-    timestamp: Date.now() - 86400000 * 30,
+    amount: parseFlow('2500'),
+    timestamp: nowInSeconds() - 30 * DAY,
     tokenURI: 'ipfs://QmXxxxx...yyyy',
     txHash: '0x1234...5678',
   },
@@ -18,8 +22,8 @@ const MOCK_RECEIPTS = [
     id: 2,
     agreementId: 1,
     propertyAddress: '456 Ocean Drive, Miami Beach',
-    amount: '2500',
-    timestamp: Date.now() - 86400000 * 60,
+    amount: parseFlow('2500'),
+    timestamp: nowInSeconds() - 60 * DAY,
     tokenURI: 'ipfs://QmYyyy...zzzz',
     txHash: '0xabcd...efgh',
   },
@@ -27,8 +31,8 @@ const MOCK_RECEIPTS = [
     id: 3,
     agreementId: 2,
     propertyAddress: '789 Park Avenue, New York',
-    amount: '8500',
-    timestamp: Date.now() - 86400000 * 15,
+    amount: parseFlow('8500'),
+    timestamp: nowInSeconds() - 15 * DAY,
     tokenURI: 'ipfs://QmZzzz...aaaa',
     txHash: '0x9876...5432',
   },
@@ -38,30 +42,33 @@ interface NFTReceipt {
   id: number;
   agreementId: number;
   propertyAddress: string;
-  amount: string;
+  /** In wei. */
+  amount: bigint;
+  /** Unix seconds. */
   timestamp: number;
   tokenURI: string;
-  txHash: string;
+  /** Known for the examples only; the contract does not record the minting transaction. */
+  txHash?: string;
 }
 
 export function RentalReceipts() {
-  const { isConnected } = useWallet();
-  const [receipts] = useState<NFTReceipt[]>(MOCK_RECEIPTS);
+  const { shortenAddress, networkConfig } = useWallet();
+  const { address: viewer, isWatching } = useViewer();
+  const { data: tenantReceipts } = useTenantReceipts(viewer);
   const [hoveredId, setHoveredId] = useState<number | null>(null);
 
-  // TODO: Replace with actual contract call
-  // useEffect(() => {
-  //   async function fetchReceipts() {
-  //     const agreementIds = await callMethod('getMyAgreements');
-  //     const allReceipts = [];
-  //     for (const id of agreementIds) {
-  //       const receipts = await callMethod('getRentReceipts', [id]);
-  //       allReceipts.push(...receipts);
-  //     }
-  //     setReceipts(allReceipts);
-  //   }
-  //   if (isConnected) fetchReceipts();
-  // }, [isConnected]);
+  // Without a wallet or watched address there is no one to read receipts for, so show examples
+  const receipts = useMemo<NFTReceipt[]>(() => {
+    if (!viewer) return MOCK_RECEIPTS;
+    return (tenantReceipts ?? []).map(receipt => ({
+      id: receipt.id,
+      agreementId: Number(receipt.linkedAgreementId),
+      propertyAddress: `Property #${receipt.propertyId}`,
+      amount: receipt.amount,
+      timestamp: Number(receipt.issuedDate),
+      tokenURI: receipt.metadataHash,
+    }));
+  }, [viewer, tenantReceipts]);
 
   return (
     <section id="receipts" className="py-24 relative">
@@ -77,126 +84,129 @@ export function RentalReceipts() {
             <span className="text-gradient-purple">NFT Rent Receipts</span>
           </h2>
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-            Your payment history as NFTs. Immutable proof of every rent payment, stored forever on-chain.
+            {isWatching
+              ? `Rent receipts held by ${shortenAddress(viewer!)}. Immutable proof of every payment, stored on-chain.`
+              : 'Your payment history as NFTs. Immutable proof of every rent payment, stored forever on-chain.'}
           </p>
         </motion.div>
 
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-5xl mx-auto">
-          {receipts.map((receipt, index) => (
-            <motion.div
-              key={receipt.id}
-              initial={{ opacity: 0, y: 30 }}
-              whileInView={{ opacity: 1, y: 0 }}
-              viewport={{ once: true }}
-              transition={{ duration: 0.5, delay: index * 0.1 }}
-              whileHover={{ y: -8 }}
-              onHoverStart={() => setHoveredId(receipt.id)}
-              onHoverEnd={() => setHoveredId(null)}
-              className="glass-card rounded-2xl overflow-hidden relative group"
-            >
-              {/* NFT Visual */}
-              <div className="relative h-48 bg-gradient-to-br from-accent/20 via-primary/10 to-transparent flex items-center justify-center">
-                <motion.div
-                  animate={hoveredId === receipt.id ? { scale: 1.1, rotate: 5 } : { scale: 1, rotate: 0 }}
-                  transition={{ type: 'spring', stiffness: 300 }}
-                  className="relative"
-                >
-                  <div className="w-24 h-24 rounded-2xl bg-gradient-to-br from-primary via-accent to-neon-pink flex items-center justify-center">
-                    <Receipt className="w-12 h-12 text-primary-foreground" />
-                  </div>
-                  
-                  {/* Glow effect on hover */}
+          {receipts.map((receipt, index) => {
+            const txLink = receipt.txHash && explorerUrl(networkConfig, 'tx', receipt.txHash);
+            return (
+              <motion.div
+                key={receipt.id}
+                initial={{ opacity: 0, y: 30 }}
+                whileInView={{ opacity: 1, y: 0 }}
+                viewport={{ once: true }}
+                transition={{ duration: 0.5, delay: index * 0.1 }}
+                whileHover={{ y: -8 }}
+                onHoverStart={() => setHoveredId(receipt.id)}
+                onHoverEnd={() => setHoveredId(null)}
+                className="glass-card rounded-2xl overflow-hidden relative group"
+              >
+                {/* NFT Visual */}
+                <div className="relative h-48 bg-gradient-to-br from-accent/20 via-primary/10 to-transparent flex items-center justify-center">
                   <motion.div
-                    animate={hoveredId === receipt.id ? { opacity: 1 } : { opacity: 0 }}
-                    className="absolute inset-0 rounded-2xl bg-primary/30 blur-xl -z-10"
-                  />
-                </motion.div>
-
-                {/* Sparkles */}
-                {hoveredId === receipt.id && (
-                  <>
-                    <motion.div
-                      initial={{ opacity: 0, scale: 0 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      className="absolute top-4 right-6"
-                    >
-                      <Sparkles className="w-5 h-5 text-primary animate-pulse" />
-                    </motion.div>
+                    animate={hoveredId === receipt.id ? { scale: 1.1, rotate: 5 } : { scale: 1, rotate: 0 }}
+                    transition={{ type: 'spring', stiffness: 300 }}
+                    className="relative"
+                  >
+                    <div className="w-24 h-24 rounded-2xl bg-gradient-to-br from-primary via-accent to-neon-pink flex items-center justify-center">
+                      <Receipt className="w-12 h-12 text-primary-foreground" />
+                    </div>
+                    
+                    {/* Glow effect on hover */}
                     <motion.div
-                      initial={{ opacity: 0, scale: 0 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      transition={{ delay: 0.1 }}
-                      className="absolute bottom-6 left-6"
-                    >
-                      <Sparkles className="w-4 h-4 text-accent animate-pulse" />
-                    </motion.div>
-                  </>
-                )}
+                      animate={hoveredId === receipt.id ? { opacity: 1 } : { opacity: 0 }}
+                      className="absolute inset-0 rounded-2xl bg-primary/30 blur-xl -z-10"
+                    />
+                  </motion.div>
 
-                {/* Token ID Badge */}
-                <div className="absolute top-4 left-4 px-3 py-1 rounded-full bg-background/50 backdrop-blur-sm border border-border text-xs font-mono">
-                  #{receipt.id.toString().padStart(4, '0')}
-                </div>
-              </div>
+                  {/* Sparkles */}
+                  {hoveredId === receipt.id && (
+                    <>
+                      <motion.div
+                        initial={{ opacity: 0, scale: 0 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        className="absolute top-4 right-6"
+                      >
+                        <Sparkles className="w-5 h-5 text-primary animate-pulse" />
+                      </motion.div>
+                      <motion.div
+                        initial={{ opacity: 0, scale: 0 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: 0.1 }}
+                        className="absolute bottom-6 left-6"
+                      >
+                        <Sparkles className="w-4 h-4 text-accent animate-pulse" />
+                      </motion.div>
+                    </>
+                  )}
 
-              {/* Receipt Details */}
-              <div className="p-5">
-                <div className="flex items-center justify-between mb-3">
-                  <div className="font-display text-2xl font-bold text-gradient">
-                    ${receipt.amount}
-                  </div>
-                  <div className="verified-badge">
-                    <Receipt className="w-3 h-3" />
-                    NFT
+                  {/* Token ID Badge */}
+                  <div className="absolute top-4 left-4 px-3 py-1 rounded-full bg-background/50 backdrop-blur-sm border border-border text-xs font-mono">
+                    #{receipt.id.toString().padStart(4, '0')}
                   </div>
                 </div>
 
-                <p className="text-sm text-muted-foreground mb-4 line-clamp-1">
-                  {receipt.propertyAddress}
-                </p>
-
-                <div className="space-y-2 text-xs text-muted-foreground">
-                  <div className="flex items-center gap-2">
-                    <Calendar className="w-3 h-3" />
-                    {new Date(receipt.timestamp).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric',
-                    })}
+                {/* Receipt Details */}
+                <div className="p-5">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="font-display text-2xl font-bold text-gradient">
+                      {formatFlow(receipt.amount)}
+                    </div>
+                    <div className="verified-badge">
+                      <Receipt className="w-3 h-3" />
+                      NFT
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Hash className="w-3 h-3" />
-                    <span className="font-mono truncate">{receipt.txHash}</span>
+
+                  <p className="text-sm text-muted-foreground mb-4 line-clamp-1">
+                    {receipt.propertyAddress}
+                  </p>
+
+                  <div className="space-y-2 text-xs text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="w-3 h-3" />
+                      {formatLeaseDate(receipt.timestamp, { month: 'long' })}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Hash className="w-3 h-3" />
+                      <span className="font-mono truncate">{receipt.txHash ?? `Agreement #${receipt.agreementId}`}</span>
+                    </div>
                   </div>
-                </div>
 
-                <div className="mt-4 pt-4 border-t border-border flex gap-2">
-                  <motion.a
-                    href={`https://evm-testnet.flowscan.io/tx/${receipt.txHash}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-muted hover:bg-muted/80 transition-colors text-sm"
-                  >
-                    <ExternalLink className="w-3 h-3" />
-                    View TX
-                  </motion.a>
-                  <motion.a
-                    href={`https://ipfs.io/ipfs/${receipt.tokenURI.replace('ipfs://', '')}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary transition-colors text-sm"
-                  >
-                    <ExternalLink className="w-3 h-3" />
-                    Metadata
-                  </motion.a>
+                  <div className="mt-4 pt-4 border-t border-border flex gap-2">
+                    {txLink && (
+                      <motion.a
+                        href={txLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        whileHover={{ scale: 1.02 }}
+                        whileTap={{ scale: 0.98 }}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-muted hover:bg-muted/80 transition-colors text-sm"
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                        View TX
+                      </motion.a>
+                    )}
+                    <motion.a
+                      href={`https://ipfs.io/ipfs/${receipt.tokenURI.replace('ipfs://', '')}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary transition-colors text-sm"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      Metadata
+                    </motion.a>
+                  </div>
                 </div>
-              </div>
-            </motion.div>
-          ))}
+              </motion.div>
+            );
+          })}
         </div>
 
         {receipts.length === 0 && (
@@ -208,7 +218,7 @@ export function RentalReceipts() {
             <Receipt className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="font-display text-xl font-bold mb-2">No Receipts Yet</h3>
             <p className="text-muted-foreground">
-              Your NFT rent receipts will appear here after making payments.
+              {isWatching ? 'This address has no rent receipts yet.' : 'Your NFT rent receipts will appear here after making payments.'}
             </p>
           </motion.div>
         )}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, Ban, CheckCircle2, ExternalLink, Loader2, PenLine, Repeat, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { explorerUrl, getNetwork } from '@/lib/networks';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import { useNetwork } from '@/hooks/useNetwork';
+import { getReadProvider, getWalletSigner } from '@/hooks/useContract';
+import {
+  cancelTransaction,
+  resumePendingTransactions,
+  speedUpTransaction,
+  useTransactions,
+  type ReplacementAction,
+  type TransactionStatus,
+} from '@/hooks/useTransactions';
+
+const STATUS_CONFIG: Record<TransactionStatus, { icon: typeof Activity; color: string; label: string }> = {
+  'awaiting-signature': { icon: PenLine, color: 'text-yellow-500', label: 'Awaiting signature' },
+  submitted: { icon: Loader2, color: 'text-accent', label: 'Pending' },
+  mined: { icon: CheckCircle2, color: 'text-primary', label: 'Confirmed' },
+  replaced: { icon: Repeat, color: 'text-orange-500', label: 'Replaced' },
+  cancelled: { icon: Ban, color: 'text-muted-foreground', label: 'Cancelled' },
+  failed: { icon: XCircle, color: 'text-destructive', label: 'Failed' },
+};
+
+export function TransactionTray() {
+  const { network } = useNetwork();
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+  const [open, setOpen] = useState(false);
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    resumePendingTransactions(getReadProvider(network), network.chainId);
+  }, [network]);
+
+  const handleReplace = async (id: string, action: ReplacementAction) => {
+    setReplacingId(id);
+    try {
+      const signer = await getWalletSigner();
+      await (action === 'speed-up' ? speedUpTransaction : cancelTransaction)(id, signer);
+      toast.success(action === 'speed-up' ? 'Speed-up sent' : 'Cancellation sent', {
+        description: 'Whichever transaction confirms first will show here.',
+      });
+    } catch (error) {
+      const err = decodeError(error);
+      toast.error(err.title, { description: describeError(err) });
+    } finally {
+      setReplacingId(null);
+    }
+  };
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.02 }}
+        onClick={() => setOpen(!open)}
+        className="relative flex items-center gap-2 px-3 py-2 glass-card rounded-xl border border-primary/30 hover:border-primary/60 transition-colors"
+        aria-label="Recent transactions"
+      >
+        {pendingCount > 0 ? (
+          <Loader2 className="w-4 h-4 text-accent animate-spin" />
+        ) : (
+          <Activity className="w-4 h-4 text-primary" />
+        )}
+        {pendingCount > 0 && <span className="text-sm font-medium">{pendingCount}</span>}
+      </motion.button>
+
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 mt-2 w-80 glass-card rounded-xl p-2 border border-glass-border"
+        >
+          <div className="flex items-center justify-between p-3 border-b border-border">
+            <p className="text-sm font-medium">Recent transactions</p>
+            <button onClick={clearFinished} className="text-xs text-muted-foreground hover:text-foreground transition-colors">
+              Clear finished
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-auto">
+            {transactions.map(tx => {
+              const status = STATUS_CONFIG[tx.status];
+              const StatusIcon = status.icon;
+              const explorerHash = tx.replacedBy || tx.replacing?.hash || tx.hash;
+              const statusLabel = tx.status === 'submitted' && tx.replacing
+                ? (tx.replacing.action === 'speed-up' ? 'Speeding up' : 'Cancelling')
+                : status.label;
+              const explorerLink = explorerHash && explorerUrl(getNetwork(tx.chainId), 'tx', explorerHash);
+              return (
+                <li key={tx.id} className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors">
+                  <StatusIcon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${status.color} ${tx.status === 'submitted' ? 'animate-spin' : ''}`} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{tx.label}</p>
+                    <p className={`text-xs ${status.color}`}>
+                      {statusLabel}{tx.error ? ` · ${tx.error}` : ''}
+                    </p>
+                    {tx.status === 'submitted' && (
+                      <div className="flex gap-3 mt-1">
+                        <button
+                          onClick={() => handleReplace(tx.id, 'speed-up')}
+                          disabled={replacingId === tx.id}
+                          className="text-xs text-primary hover:underline disabled:opacity-50"
+                        >
+                          Speed up
+                        </button>
+                        <button
+                          onClick={() => handleReplace(tx.id, 'cancel')}
+                          disabled={replacingId === tx.id}
+                          className="text-xs text-muted-foreground hover:text-destructive transition-colors disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {explorerLink && (
+                    <a
+                      href={explorerLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground hover:text-foreground transition-colors"
+                      aria-label="View on explorer"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Wallet } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useWallet } from '@/hooks/useWallet';
+
+interface WalletPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Lists every wallet that announced itself over EIP-6963 and connects the one picked. */
+export function WalletPicker({ open, onOpenChange }: WalletPickerProps) {
+  const { wallets, wallet: selected, connect } = useWallet();
+
+  const handlePick = (rdns: string) => {
+    onOpenChange(false);
+    connect(rdns);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card rounded-2xl max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display">Connect a wallet</DialogTitle>
+          <DialogDescription>
+            {wallets.length > 0
+              ? 'Choose the wallet TrustLease should use. We will remember it next time.'
+              : 'No wallet found. Install MetaMask or another Flow EVM compatible wallet.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {wallets.map(({ info }) => (
+            <button
+              key={info.rdns}
+              onClick={() => handlePick(info.rdns)}
+              className="flex items-center gap-3 w-full p-3 rounded-xl border border-border hover:border-primary/60 hover:bg-muted/50 transition-colors text-left"
+            >
+              {info.icon ? (
+                <img src={info.icon} alt="" className="w-8 h-8 rounded-lg" />
+              ) : (
+                <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Wallet className="w-4 h-4 text-primary" />
+                </div>
+              )}
+              <span className="flex-1 text-sm font-medium">{info.name}</span>
+              {selected?.info.rdns === info.rdns && (
+                <span className="text-xs text-muted-foreground">Current</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { ethers } from 'ethers';
+import type { NetworkConfig } from '@/lib/networks';
+import { useNetwork } from '@/hooks/useNetwork';
+import { onTransactionSettled } from '@/hooks/useTransactions';
+import { WalletContext, type WalletContextValue, type WalletState } from '@/hooks/useWallet';
+import {
+  forgetWallet,
+  getActiveEthereum,
+  getSelectedWallet,
+  getWallets,
+  onWalletsChanged,
+  selectWallet,
+  startWalletDiscovery,
+} from '@/lib/wallets';
+
+// Flow EVM closes a block about every second; polling slower keeps the wallet's RPC quota intact
+const BLOCK_POLL_INTERVAL = 4_000;
+
+// Set by an explicit Disconnect. The wallet still grants the site its accounts afterwards,
+// so without it the next restore would reconnect without asking.
+const DISCONNECTED_KEY = 'trustlease:disconnected';
+
+const hasDisconnected = () => typeof localStorage !== 'undefined' && localStorage.getItem(DISCONNECTED_KEY) !== null;
+
+function setDisconnected(disconnected: boolean) {
+  if (typeof localStorage === 'undefined') return;
+  if (disconnected) localStorage.setItem(DISCONNECTED_KEY, '1');
+  else localStorage.removeItem(DISCONNECTED_KEY);
+}
+
+/**
+ * Owns the wallet connection for the whole app: one copy of the state and one set of
+ * `accountsChanged`/`chainChanged` listeners, shared by every `useWallet()` caller.
+ * Installed wallets are discovered over EIP-6963 and the app talks only to the selected one.
+ * Account and chain switches update this state in place rather than reloading the page,
+ * so half-filled forms survive them.
+ */
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const { network } = useNetwork();
+  const [state, setState] = useState<WalletState>({
+    address: null,
+    balance: null,
+    isConnected: false,
+    isConnecting: false,
+    chainId: null,
+    error: null,
+  });
+  const [wallets, setWallets] = useState(getWallets);
+  const [wallet, setWallet] = useState(getSelectedWallet);
+  const ethereum = getActiveEthereum();
+  // Lets wallet events that arrive mid-request tell whether the account has moved on since
+  const addressRef = useRef(state.address);
+  addressRef.current = state.address;
+  const connectedRef = useRef(state.isConnected);
+  connectedRef.current = state.isConnected;
+  // Read through a ref so picking another network does not re-run the connection restore
+  const networkRef = useRef(network);
+  networkRef.current = network;
+
+  useEffect(() => {
+    const update = () => {
+      setWallets(getWallets());
+      setWallet(getSelectedWallet());
+    };
+    const unsubscribe = onWalletsChanged(update);
+    startWalletDiscovery();
+    // window.ethereum may have been injected since the first render
+    update();
+    return unsubscribe;
+  }, []);
+
+  // Resolved per call, so a wallet picked mid-connect is used straight away
+  const getProvider = useCallback(() => {
+    const active = getActiveEthereum();
+    return active ? new ethers.BrowserProvider(active) : null;
+  }, []);
+
+  const checkNetwork = useCallback(async () => {
+    const provider = getProvider();
+    if (!provider) return false;
+
+    try {
+      const walletNetwork = await provider.getNetwork();
+      const chainId = Number(walletNetwork.chainId);
+
+      setState(prev => ({ ...prev, chainId }));
+
+      return chainId === networkRef.current.chainId;
+    } catch (error) {
+      console.error('Error checking network:', error);
+      return false;
+    }
+  }, [getProvider]);
+
+  // Defaults to the network selected in the app
+  const switchNetwork = useCallback(async (target: NetworkConfig = network) => {
+    const active = getActiveEthereum();
+    if (!active) return false;
+
+    try {
+      await active.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: target.chainIdHex }],
+      });
+      return true;
+    } catch (switchError) {
+      // Chain not added, try to add it
+      if ((switchError as { code?: number }).code === 4902) {
+        try {
+          await active.request({
+            method: 'wallet_addEthereumChain',
+            params: [{
+              chainId: target.chainIdHex,
+              chainName: target.name,
+              rpcUrls: target.rpcUrls,
+              blockExplorerUrls: target.blockExplorer ? [target.blockExplorer] : undefined,
+              nativeCurrency: target.currency,
+            }],
+          });
+          return true;
+        } catch (addError) {
+          console.error('Error adding network:', addError);
+          return false;
+        }
+      }
+      console.error('Error switching network:', switchError);
+      return false;
+    }
+  }, [network]);
+
+  const fetchBalance = useCallback(async (address: string) => {
+    const provider = getProvider();
+    if (!provider) return null;
+
+    try {
+      const balance = await provider.getBalance(address);
+      return ethers.formatEther(balance);
+    } catch (error) {
+      console.error('Error fetching balance:', error);
+      return null;
+    }
+  }, [getProvider]);
+
+  // Re-reads the balance of whichever account is connected when the call resolves
+  const refreshBalance = useCallback(async () => {
+    const address = addressRef.current;
+    if (!address) return;
+    const balance = await fetchBalance(address);
+    if (addressRef.current === address) {
+      setState(prev => ({ ...prev, balance }));
+    }
+  }, [fetchBalance]);
+
+  // Connects the wallet picked in the picker, else the remembered or only one
+  const connect = useCallback(async (rdns?: string) => {
+    const active = rdns ? selectWallet(rdns).provider : getActiveEthereum();
+    if (!active) {
+      setState(prev => ({ ...prev, error: 'Please install MetaMask or a compatible wallet' }));
+      return;
+    }
+
+    setDisconnected(false);
+    setState(prev => ({ ...prev, isConnecting: true, error: null }));
+
+    try {
+      const provider = getProvider();
+      if (!provider) throw new Error('Provider not available');
+
+      // Request account access
+      const accounts = await active.request({
+        method: 'eth_requestAccounts',
+      }) as string[];
+
+      if (accounts.length === 0) {
+        throw new Error('No accounts found');
+      }
+
+      const address = accounts[0];
+      
+      // Check and switch network
+      const isCorrectNetwork = await checkNetwork();
+      if (!isCorrectNetwork) {
+        await switchNetwork();
+        await checkNetwork();
+      }
+
+      const balance = await fetchBalance(address);
+
+      setState(prev => ({
+        ...prev,
+        address,
+        balance,
+        isConnected: true,
+        isConnecting: false,
+        error: null,
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isConnecting: false,
+        error: (error as { message?: string }).message || 'Failed to connect wallet',
+      }));
+    }
+  }, [getProvider, checkNetwork, switchNetwork, fetchBalance]);
+
+  // Drops the connection but keeps the wallet choice, as when the wallet locks or revokes access
+  const clearConnection = useCallback(() => {
+    addressRef.current = null;
+    connectedRef.current = false;
+    setState({
+      address: null,
+      balance: null,
+      isConnected: false,
+      isConnecting: false,
+      chainId: null,
+      error: null,
+    });
+  }, []);
+
+  // The user's own Disconnect also forgets which wallet they picked
+  const disconnect = useCallback(() => {
+    setDisconnected(true);
+    forgetWallet();
+    clearConnection();
+  }, [clearConnection]);
+
+  const shortenAddress = useCallback((address: string) => {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  }, []);
+
+  // Listen for account and network changes
+  useEffect(() => {
+    if (!ethereum) return;
+
+    const handleAccountsChanged = async (accounts: string[]) => {
+      if (accounts.length === 0) {
+        clearConnection();
+        return;
+      }
+      // The wallet still reports account switches after Disconnect, or before the user ever
+      // connected; only connect() or the restore on mount picks an account up
+      if (!connectedRef.current) return;
+
+      // Show the new account straight away; the old balance is not its balance
+      addressRef.current = accounts[0];
+      setState(prev => ({ ...prev, address: accounts[0], balance: null }));
+      await refreshBalance();
+    };
+
+    // Providers and contracts are built per call from the wallet's current chain, so
+    // only the chain id and the balance on the new chain need refreshing
+    const handleChainChanged = async (chainIdHex: string) => {
+      setState(prev => ({ ...prev, chainId: Number(chainIdHex), balance: null }));
+      await refreshBalance();
+    };
+
+    ethereum.on('accountsChanged', handleAccountsChanged);
+    ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, [ethereum, clearConnection, refreshBalance]);
+
+  // Keep the balance live: re-read it on every new block and once each TrustLease transaction settles
+  useEffect(() => {
+    if (!ethereum || !state.isConnected) return;
+    let lastBlock: string | null = null;
+    let timer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const block = await ethereum.request({ method: 'eth_blockNumber' }) as string;
+        if (lastBlock !== null && block !== lastBlock) await refreshBalance();
+        lastBlock = block;
+      } catch {
+        // The wallet may be locked or busy; try again on the next tick
+      }
+      if (!stopped) timer = setTimeout(poll, BLOCK_POLL_INTERVAL);
+    };
+
+    poll();
+    const unsubscribe = onTransactionSettled(() => refreshBalance());
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [ethereum, state.isConnected, refreshBalance]);
+
+  // Check if already connected on mount, and again once the remembered wallet announces itself,
+  // unless the user disconnected; only connect() undoes that
+  useEffect(() => {
+    const checkConnection = async () => {
+      if (!ethereum || hasDisconnected()) return;
+
+      try {
+        const accounts = await ethereum.request({
+          method: 'eth_accounts',
+        }) as string[];
+
+        if (accounts.length > 0) {
+          const balance = await fetchBalance(accounts[0]);
+          await checkNetwork();
+          // Disconnect may have been clicked while this was in flight
+          if (hasDisconnected()) return;
+
+          setState(prev => ({
+            ...prev,
+            address: accounts[0],
+            balance,
+            isConnected: true,
+          }));
+        }
+      } catch (error) {
+        console.error('Error checking connection:', error);
+      }
+    };
+
+    checkConnection();
+  }, [ethereum, fetchBalance, checkNetwork]);
+
+  const value = useMemo<WalletContextValue>(() => ({
+    ...state,
+    isWrongNetwork: state.chainId !== null && state.chainId !== network.chainId,
+    wallets,
+    wallet,
+    connect,
+    disconnect,
+    switchNetwork,
+    shortenAddress,
+    getProvider,
+    refreshBalance,
+    networkConfig: network,
+  }), [state, network, wallets, wallet, connect, disconnect, switchNetwork, shortenAddress, getProvider, refreshBalance]);
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
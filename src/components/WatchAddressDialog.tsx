@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Eye } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useWatchAddress } from '@/hooks/useWatchAddress';
+
+interface WatchAddressDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Asks for an address to view the dashboards as, read-only. */
+export function WatchAddressDialog({ open, onOpenChange }: WatchAddressDialogProps) {
+  const { watchAddress } = useWatchAddress();
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    setError(null);
+    onOpenChange(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      watchAddress(value.trim());
+    } catch {
+      setError('Enter a 0x address with 40 hex characters');
+      return;
+    }
+    setValue('');
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">View as address</DialogTitle>
+          <DialogDescription>
+            See the properties, agreements, receipts and disputes of any tenant or landlord. Nothing can be signed or sent while viewing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => {
+              setValue(e.target.value);
+              setError(null);
+            }}
+            placeholder="0x..."
+            aria-label="Address to view"
+            aria-invalid={error !== null}
+            spellCheck={false}
+            className="input-glass font-mono"
+            required
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <button type="submit" className="btn-primary w-full flex items-center justify-center gap-2">
+            <Eye className="w-4 h-4" />
+            View read-only
+          </button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3782 +1,110 @@
 import { useCallback } from 'react';
 import { ethers } from 'ethers';
-
-declare global {
-  interface Window {
-    ethereum?: any;
+import { TrustLeaseClient } from '@/lib/contracts/client';
+import { deploymentRegistry } from '@/lib/contracts/pinnedDeployments';
+import { WrongNetworkError, type NetworkConfig } from '@/lib/networks';
+import { FailoverProvider } from '@/lib/rpc';
+import { parseFlow } from '@/lib/format';
+import { getActiveEthereum } from '@/lib/wallets';
+import { getActiveNetwork } from '@/hooks/useNetwork';
+import { trackTransaction } from '@/hooks/useTransactions';
+
+const readProviders = new Map<number, FailoverProvider>();
+
+// Reads go straight to the selected network's RPC endpoints, with retries and failover
+// between them, so visitors without a wallet (or with one on another chain) can still
+// browse listings, agreements and receipts
+export function getReadProvider(network: NetworkConfig = getActiveNetwork()) {
+  let provider = readProviders.get(network.chainId);
+  if (!provider) {
+    provider = new FailoverProvider(network.rpcUrls, network.chainId);
+    readProviders.set(network.chainId, provider);
   }
+  return provider;
 }
 
-// contract ABI
-export const  CONTRACT_ADDRESSES = {
-  PropertyVerification: '0x1d81c1F05926719bF8acBDeF8c222C017Aabb227',
-  TrustLeaseEscrow:     '0xD11098885107e58F6E5311dC4A6E924739AeE5C7',
-  RentalReceipt:        '0xa22f7A8539004b5850CC5810E0F04f32F63F100B',
-};
+export function getReadDeployment(network: NetworkConfig = getActiveNetwork()) {
+  return deploymentRegistry.resolve(network.chainId);
+}
 
-const TrustLeaseEscrowABI = [
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "cancelAgreement",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "checkRentOverdue",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "monthlyRent",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "rentInterval",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "startDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "endDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			}
-		],
-		"name": "createAgreement",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			}
-		],
-		"name": "grantGasSubsidy",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "_propertyVerification",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "_rentalReceipt",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "_platformWallet",
-				"type": "address"
-			}
-		],
-		"stateMutability": "nonpayable",
-		"type": "constructor"
-	},
-	{
-		"inputs": [],
-		"name": "EnforcedPause",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "ExpectedPause",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "FailedCall",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "balance",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "needed",
-				"type": "uint256"
-			}
-		],
-		"name": "InsufficientBalance",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "OwnableInvalidOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "OwnableUnauthorizedAccount",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "ReentrancyGuardReentrantCall",
-		"type": "error"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "AgreementCancelled",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "depositAmount",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "monthlyRent",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "rentInterval",
-				"type": "uint256"
-			}
-		],
-		"name": "AgreementCreated",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "refundAmount",
-				"type": "uint256"
-			}
-		],
-		"name": "AgreementTerminated",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "platformFee",
-				"type": "uint256"
-			}
-		],
-		"name": "DepositReleased",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "initiator",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			},
-			{
-				"indexed": false,
-				"internalType": "bool",
-				"name": "isRentDispute",
-				"type": "bool"
-			}
-		],
-		"name": "DisputeRaised",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "winner",
-				"type": "address"
-			}
-		],
-		"name": "DisputeResolved",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "evidenceHash",
-				"type": "string"
-			}
-		],
-		"name": "EvidenceSubmitted",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "landlordNet",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "platformTotal",
-				"type": "uint256"
-			}
-		],
-		"name": "FeeBreakdownCalculated",
-		"type": "event"
-	},
-	{
-		"inputs": [],
-		"name": "fundGasSubsidy",
-		"outputs": [],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			}
-		],
-		"name": "GasSubsidyGranted",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "landlordConfirm",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "LandlordConfirmed",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "previousOwner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "OwnershipTransferred",
-		"type": "event"
-	},
-	{
-		"inputs": [],
-		"name": "pause",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": false,
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "Paused",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			}
-		],
-		"name": "payRent",
-		"outputs": [],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "evidenceHash",
-				"type": "string"
-			}
-		],
-		"name": "raiseDispute",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "releaseDeposit",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "renounceOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "daysOverdue",
-				"type": "uint256"
-			}
-		],
-		"name": "RentOverdue",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "periodStart",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "periodEnd",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "nextDueDate",
-				"type": "uint256"
-			}
-		],
-		"name": "RentPaid",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "refundTenant",
-				"type": "bool"
-			}
-		],
-		"name": "resolveDispute",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "evidenceHash",
-				"type": "string"
-			}
-		],
-		"name": "submitEvidence",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "tenantConfirm",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "TenantConfirmed",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			}
-		],
-		"name": "TenantRefunded",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "proRatedRefund",
-				"type": "uint256"
-			}
-		],
-		"name": "terminateAgreement",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "transferOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": false,
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "Unpaused",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newPeriod",
-				"type": "uint256"
-			}
-		],
-		"name": "updateDisputePeriod",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newPeriod",
-				"type": "uint256"
-			}
-		],
-		"name": "updateGracePeriod",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newFeePercent",
-				"type": "uint256"
-			}
-		],
-		"name": "updatePlatformFee",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newFeePercent",
-				"type": "uint256"
-			}
-		],
-		"name": "updateRentProcessingFee",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "agreements",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "depositAmount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "monthlyRent",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "rentInterval",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "startDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "endDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "createdAt",
-				"type": "uint256"
-			},
-			{
-				"internalType": "enum TrustLeaseEscrow.AgreementStatus",
-				"name": "status",
-				"type": "uint8"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			},
-			{
-				"internalType": "bool",
-				"name": "tenantConfirmed",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "landlordConfirmed",
-				"type": "bool"
-			},
-			{
-				"internalType": "uint256",
-				"name": "disputeDeadline",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "nextRentDueDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "overdueGracePeriod",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "totalRentPaid",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "calculateFeeBreakdown",
-		"outputs": [
-			{
-				"components": [
-					{
-						"internalType": "uint256",
-						"name": "depositAmount",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "totalRentPaid",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "platformFeeOnDeposit",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "platformFeeOnRent",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "listingFee",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "totalGasSponsored",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "netToLandlord",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "netToTenant",
-						"type": "uint256"
-					}
-				],
-				"internalType": "struct TrustLeaseEscrow.FeeBreakdown",
-				"name": "",
-				"type": "tuple"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "defaultGracePeriod",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "disputePeriod",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "disputes",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "address",
-				"name": "initiator",
-				"type": "address"
-			},
-			{
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "createdAt",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "resolved",
-				"type": "bool"
-			},
-			{
-				"internalType": "address",
-				"name": "winner",
-				"type": "address"
-			},
-			{
-				"internalType": "bool",
-				"name": "isRentDispute",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "gasSubsidyPool",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "getAgreement",
-		"outputs": [
-			{
-				"components": [
-					{
-						"internalType": "uint256",
-						"name": "agreementId",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "propertyId",
-						"type": "uint256"
-					},
-					{
-						"internalType": "address",
-						"name": "tenant",
-						"type": "address"
-					},
-					{
-						"internalType": "address",
-						"name": "landlord",
-						"type": "address"
-					},
-					{
-						"internalType": "uint256",
-						"name": "depositAmount",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "monthlyRent",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "rentInterval",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "startDate",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "endDate",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "createdAt",
-						"type": "uint256"
-					},
-					{
-						"internalType": "enum TrustLeaseEscrow.AgreementStatus",
-						"name": "status",
-						"type": "uint8"
-					},
-					{
-						"internalType": "string",
-						"name": "metadataHash",
-						"type": "string"
-					},
-					{
-						"internalType": "bool",
-						"name": "tenantConfirmed",
-						"type": "bool"
-					},
-					{
-						"internalType": "bool",
-						"name": "landlordConfirmed",
-						"type": "bool"
-					},
-					{
-						"internalType": "uint256",
-						"name": "disputeDeadline",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "nextRentDueDate",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "overdueGracePeriod",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "totalRentPaid",
-						"type": "uint256"
-					}
-				],
-				"internalType": "struct TrustLeaseEscrow.RentalAgreement",
-				"name": "",
-				"type": "tuple"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "getDispute",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "initiator",
-				"type": "address"
-			},
-			{
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			},
-			{
-				"internalType": "string[]",
-				"name": "evidenceHashes",
-				"type": "string[]"
-			},
-			{
-				"internalType": "uint256",
-				"name": "createdAt",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "resolved",
-				"type": "bool"
-			},
-			{
-				"internalType": "address",
-				"name": "winner",
-				"type": "address"
-			},
-			{
-				"internalType": "bool",
-				"name": "isRentDispute",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			}
-		],
-		"name": "getLandlordAgreements",
-		"outputs": [
-			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "getRentPayments",
-		"outputs": [
-			{
-				"components": [
-					{
-						"internalType": "uint256",
-						"name": "agreementId",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "amount",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "paidDate",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "periodStart",
-						"type": "uint256"
-					},
-					{
-						"internalType": "uint256",
-						"name": "periodEnd",
-						"type": "uint256"
-					},
-					{
-						"internalType": "enum TrustLeaseEscrow.RentStatus",
-						"name": "status",
-						"type": "uint8"
-					}
-				],
-				"internalType": "struct TrustLeaseEscrow.RentPayment[]",
-				"name": "",
-				"type": "tuple[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			}
-		],
-		"name": "getTenantAgreements",
-		"outputs": [
-			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"name": "isGasSubsidized",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "landlordAgreements",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "owner",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "paused",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "platformFeePercent",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "platformWallet",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "propertyVerification",
-		"outputs": [
-			{
-				"internalType": "contract IPropertyVerification",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "rentalReceipt",
-		"outputs": [
-			{
-				"internalType": "contract IRentalReceipt",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "rentPayments",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "paidDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "periodStart",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "periodEnd",
-				"type": "uint256"
-			},
-			{
-				"internalType": "enum TrustLeaseEscrow.RentStatus",
-				"name": "status",
-				"type": "uint8"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "rentProcessingFeePercent",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "tenantAgreements",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	}
-]
+const readClients = new Map<number, TrustLeaseClient>();
 
-const PropertyVerificationABI = [
-  
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "_feeCollector",
-				"type": "address"
-			}
-		],
-		"stateMutability": "nonpayable",
-		"type": "constructor"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "ERC721IncorrectOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ERC721InsufficientApproval",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "approver",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidApprover",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidOperator",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "receiver",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidReceiver",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidSender",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ERC721NonexistentToken",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "FailedCall",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "balance",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "needed",
-				"type": "uint256"
-			}
-		],
-		"name": "InsufficientBalance",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "OwnableInvalidOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "OwnableUnauthorizedAccount",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "ReentrancyGuardReentrantCall",
-		"type": "error"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "approved",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "Approval",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "bool",
-				"name": "approved",
-				"type": "bool"
-			}
-		],
-		"name": "ApprovalForAll",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "user",
-				"type": "address"
-			}
-		],
-		"name": "GasSponsorshipGranted",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "personaVerificationId",
-				"type": "string"
-			}
-		],
-		"name": "KYCProofLinked",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "oldFee",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "newFee",
-				"type": "uint256"
-			}
-		],
-		"name": "ListingFeeUpdated",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "previousOwner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "OwnershipTransferred",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			}
-		],
-		"name": "PropertyDeactivated",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "propertyAddress",
-				"type": "string"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "kycLevel",
-				"type": "uint256"
-			}
-		],
-		"name": "PropertySubmitted",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "verifier",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "kycLevel",
-				"type": "uint256"
-			}
-		],
-		"name": "PropertyVerified",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "Transfer",
-		"type": "event"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "approve",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "balanceOf",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
-			}
-		],
-		"name": "deactivateProperty",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "emergencyWithdrawSponsorship",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "feeCollector",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "fundSponsorshipPool",
-		"outputs": [],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"name": "gasSponsored",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "getApproved",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			}
-		],
-		"name": "getKYCProof",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "personaVerificationId",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "videoTimestamp",
-				"type": "string"
-			},
-			{
-				"internalType": "bool",
-				"name": "governmentIdVerified",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "addressProofVerified",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			}
-		],
-		"name": "getLandlordProperties",
-		"outputs": [
-			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "getListingFee",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			}
-		],
-		"name": "getPropertyDetails",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"internalType": "string",
-				"name": "propertyAddress",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "documentHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "videoHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "gpsCoordinates",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "verificationDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "isVerified",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "isActive",
-				"type": "bool"
-			},
-			{
-				"internalType": "uint256",
-				"name": "kycLevel",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			}
-		],
-		"name": "getPropertyOwner",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "user",
-				"type": "address"
-			}
-		],
-		"name": "grantGasSponsorship",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			}
-		],
-		"name": "isApprovedForAll",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			}
-		],
-		"name": "isPropertyVerified",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "kycProcessingFee",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "kycProofs",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "personaVerificationId",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "videoTimestamp",
-				"type": "string"
-			},
-			{
-				"internalType": "bool",
-				"name": "governmentIdVerified",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "addressProofVerified",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "landlordProperties",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "_personaVerificationId",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "_videoTimestamp",
-				"type": "string"
-			},
-			{
-				"internalType": "bool",
-				"name": "_governmentIdVerified",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "_addressProofVerified",
-				"type": "bool"
-			}
-		],
-		"name": "linkKYCProof",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "listingFee",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "name",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "owner",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ownerOf",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "properties",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"internalType": "string",
-				"name": "propertyAddress",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "documentHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "videoHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "gpsCoordinates",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "verificationDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bool",
-				"name": "isVerified",
-				"type": "bool"
-			},
-			{
-				"internalType": "bool",
-				"name": "isActive",
-				"type": "bool"
-			},
-			{
-				"internalType": "uint256",
-				"name": "kycLevel",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "renounceOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "safeTransferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bytes",
-				"name": "data",
-				"type": "bytes"
-			}
-		],
-		"name": "safeTransferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"internalType": "bool",
-				"name": "approved",
-				"type": "bool"
-			}
-		],
-		"name": "setApprovalForAll",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "sponsorshipPool",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "string",
-				"name": "_propertyAddress",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "_documentHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "_videoHash",
-				"type": "string"
-			},
-			{
-				"internalType": "string",
-				"name": "_gpsCoordinates",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "_kycLevel",
-				"type": "uint256"
-			}
-		],
-		"name": "submitProperty",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "payable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes4",
-				"name": "interfaceId",
-				"type": "bytes4"
-			}
-		],
-		"name": "supportsInterface",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "symbol",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "tokenURI",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "transferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "newOwner",
-				"type": "address"
-			}
-		],
-		"name": "transferOwnership",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newFee",
-				"type": "uint256"
-			}
-		],
-		"name": "updateKYCFee",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "newFee",
-				"type": "uint256"
-			}
-		],
-		"name": "updateListingFee",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			}
-		],
-		"name": "verifyProperty",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	}
-];
+export function getReadClient(network: NetworkConfig = getActiveNetwork()) {
+  let client = readClients.get(network.chainId);
+  if (!client) {
+    client = new TrustLeaseClient({ deployment: getReadDeployment(network), provider: getReadProvider(network) });
+    readClients.set(network.chainId, client);
+  }
+  return client;
+}
 
+// Signs with the wallet picked in the wallet picker, not whichever extension owns window.ethereum
+export async function getWalletSigner() {
+  const ethereum = getActiveEthereum();
+  if (!ethereum) throw new Error('No wallet');
+  return new ethers.BrowserProvider(ethereum).getSigner();
+}
 
-const RentalReceiptABI = [
-	{
-		"inputs": [],
-		"stateMutability": "nonpayable",
-		"type": "constructor"
-	},
-	{
-		"inputs": [],
-		"name": "AccessControlBadConfirmation",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			},
-			{
-				"internalType": "bytes32",
-				"name": "neededRole",
-				"type": "bytes32"
-			}
-		],
-		"name": "AccessControlUnauthorizedAccount",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "ERC721IncorrectOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ERC721InsufficientApproval",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "approver",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidApprover",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidOperator",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidOwner",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "receiver",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidReceiver",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			}
-		],
-		"name": "ERC721InvalidSender",
-		"type": "error"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ERC721NonexistentToken",
-		"type": "error"
-	},
-	{
-		"inputs": [],
-		"name": "ReentrancyGuardReentrantCall",
-		"type": "error"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "approved",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "Approval",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "bool",
-				"name": "approved",
-				"type": "bool"
-			}
-		],
-		"name": "ApprovalForAll",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "receiptId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "enum RentalReceipt.ReceiptType",
-				"name": "receiptType",
-				"type": "uint8"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "ReceiptMinted",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"indexed": true,
-				"internalType": "bytes32",
-				"name": "previousAdminRole",
-				"type": "bytes32"
-			},
-			{
-				"indexed": true,
-				"internalType": "bytes32",
-				"name": "newAdminRole",
-				"type": "bytes32"
-			}
-		],
-		"name": "RoleAdminChanged",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			}
-		],
-		"name": "RoleGranted",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			}
-		],
-		"name": "RoleRevoked",
-		"type": "event"
-	},
-	{
-		"anonymous": false,
-		"inputs": [
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "Transfer",
-		"type": "event"
-	},
-	{
-		"inputs": [],
-		"name": "DEFAULT_ADMIN_ROLE",
-		"outputs": [
-			{
-				"internalType": "bytes32",
-				"name": "",
-				"type": "bytes32"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "MINTER_ROLE",
-		"outputs": [
-			{
-				"internalType": "bytes32",
-				"name": "",
-				"type": "bytes32"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "agreementRentReceipts",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "approve",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			}
-		],
-		"name": "balanceOf",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "receiptId",
-				"type": "uint256"
-			}
-		],
-		"name": "burnReceipt",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			}
-		],
-		"name": "getAgreementRentReceipts",
-		"outputs": [
-			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "getApproved",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "receiptId",
-				"type": "uint256"
-			}
-		],
-		"name": "getReceipt",
-		"outputs": [
-			{
-				"internalType": "enum RentalReceipt.ReceiptType",
-				"name": "receiptType",
-				"type": "uint8"
-			},
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "startDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "endDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "issuedDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "linkedAgreementId",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			}
-		],
-		"name": "getRoleAdmin",
-		"outputs": [
-			{
-				"internalType": "bytes32",
-				"name": "",
-				"type": "bytes32"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			}
-		],
-		"name": "getTenantReceipts",
-		"outputs": [
-			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "grantRole",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "hasRole",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "owner",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			}
-		],
-		"name": "isApprovedForAll",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "depositAmount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "startDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "endDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			}
-		],
-		"name": "mintReceipt",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "agreementId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "rentAmount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "paymentDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "periodStart",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "periodEnd",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			}
-		],
-		"name": "mintRentPaymentProof",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "name",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "ownerOf",
-		"outputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "receipts",
-		"outputs": [
-			{
-				"internalType": "enum RentalReceipt.ReceiptType",
-				"name": "receiptType",
-				"type": "uint8"
-			},
-			{
-				"internalType": "address",
-				"name": "tenant",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "landlord",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "propertyId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "amount",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "startDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "endDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "issuedDate",
-				"type": "uint256"
-			},
-			{
-				"internalType": "string",
-				"name": "metadataHash",
-				"type": "string"
-			},
-			{
-				"internalType": "uint256",
-				"name": "linkedAgreementId",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "address",
-				"name": "callerConfirmation",
-				"type": "address"
-			}
-		],
-		"name": "renounceRole",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes32",
-				"name": "role",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "address",
-				"name": "account",
-				"type": "address"
-			}
-		],
-		"name": "revokeRole",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "safeTransferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			},
-			{
-				"internalType": "bytes",
-				"name": "data",
-				"type": "bytes"
-			}
-		],
-		"name": "safeTransferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "operator",
-				"type": "address"
-			},
-			{
-				"internalType": "bool",
-				"name": "approved",
-				"type": "bool"
-			}
-		],
-		"name": "setApprovalForAll",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "escrowContract",
-				"type": "address"
-			}
-		],
-		"name": "setMinter",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "bytes4",
-				"name": "interfaceId",
-				"type": "bytes4"
-			}
-		],
-		"name": "supportsInterface",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [],
-		"name": "symbol",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"name": "tenantReceipts",
-		"outputs": [
-			{
-				"internalType": "uint256",
-				"name": "",
-				"type": "uint256"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "tokenURI",
-		"outputs": [
-			{
-				"internalType": "string",
-				"name": "",
-				"type": "string"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
-			{
-				"internalType": "address",
-				"name": "from",
-				"type": "address"
-			},
-			{
-				"internalType": "address",
-				"name": "to",
-				"type": "address"
-			},
-			{
-				"internalType": "uint256",
-				"name": "tokenId",
-				"type": "uint256"
-			}
-		],
-		"name": "transferFrom",
-		"outputs": [],
-		"stateMutability": "nonpayable",
-		"type": "function"
-	}
-];
+// Writes go to the same network as reads. A wallet on another chain is asked to switch
+// first; if it stays there the write is refused rather than sent to the wrong deployment.
+// Throws DeploymentNotFoundError when TrustLease is not deployed on the selected network
+export async function getWriteClient() {
+  const network = getActiveNetwork();
+  const ethereum = getActiveEthereum();
+  if (!ethereum) throw new Error('No wallet');
+
+  const walletChainId = Number(await ethereum.request({ method: 'eth_chainId' }));
+  if (walletChainId !== network.chainId) {
+    try {
+      await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: network.chainIdHex }] });
+    } catch {
+      // Rejected, or the wallet does not know the chain; the check below refuses the write
+    }
+  }
+
+  // Built after the switch, so the provider starts out on the selected chain
+  const signer = await getWalletSigner();
+  const provider = signer.provider;
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== network.chainId) throw new WrongNetworkError(network, Number(chainId));
+  return new TrustLeaseClient({ deployment: getReadDeployment(network), provider, signer });
+}
 
 // PROPERTY VERIFICATION HOOK
 export function usePropertyVerification() {
-  const getContract = useCallback(async () => {
-    if (!window.ethereum) throw new Error('No wallet');
-    const provider = new ethers.BrowserProvider(window.ethereum);
-    const signer = await provider.getSigner();
-    return new ethers.Contract(CONTRACT_ADDRESSES.PropertyVerification, PropertyVerificationABI, signer);
+  const prepareSubmitProperty = useCallback(async (address: string, docHash: string, videoHash: string, gps: string, kycLevel: number, feeEthString: string) => {
+    const client = await getWriteClient();
+    return client.prepareSubmitProperty(address, docHash, videoHash, gps, kycLevel, parseFlow(feeEthString));
   }, []);
 
-  const getReadContract = useCallback(() => {
-    if (!window.ethereum) return null;
-    const provider = new ethers.BrowserProvider(window.ethereum);
-    return new ethers.Contract(CONTRACT_ADDRESSES.PropertyVerification, PropertyVerificationABI, provider);
-  }, []);
+  const previewSubmitProperty = useCallback(async (...params: Parameters<typeof prepareSubmitProperty>) => {
+    return (await prepareSubmitProperty(...params)).preview;
+  }, [prepareSubmitProperty]);
 
-  const submitProperty = useCallback(async (address: string, docHash: string, videoHash: string, gps: string, kycLevel: number, feeEthString: string) => {
-    const contract = await getContract();
-    const tx = await contract.submitProperty(address, docHash, videoHash, gps, kycLevel, { value: ethers.parseEther(feeEthString) });
-    return await tx.wait();
-  }, [getContract]);
+  const submitProperty = useCallback(async (...params: Parameters<typeof prepareSubmitProperty>) => {
+    const { send } = await prepareSubmitProperty(...params);
+    return trackTransaction('submitProperty', `List ${params[0]}`, send);
+  }, [prepareSubmitProperty]);
 
   const getListingFee = useCallback(async () => {
-    const contract = getReadContract();
-    const fee = await contract.getListingFee();
-    return ethers.formatEther(fee);
-  }, [getReadContract]);
+    return ethers.formatEther(await getReadClient().getListingFee());
+  }, []);
 
-  const getLandlordProperties = useCallback(async (owner: string) => {
-    const contract = getReadContract();
-    return await contract.getLandlordProperties(owner);
-  }, [getReadContract]);
+  const getKycProcessingFee = useCallback(async () => {
+    return ethers.formatEther(await getReadClient().getKycProcessingFee());
+  }, []);
 
-  const getPropertyDetails = useCallback(async (id: number) => {
-    const contract = getReadContract();
-    const p = await contract.getPropertyDetails(id);
-    return {
-      owner: p[0],
-      propertyAddress: p[1],
-      documentHash: p[2],
-      videoHash: p[3],
-      gpsCoordinates: p[4],
-      verificationDate: p[5],
-      isVerified: p[6],
-      isActive: p[7],
-      kycLevel: p[8],
-    };
-  }, [getReadContract]);
+  const getLandlordProperties = useCallback((owner: string) => getReadClient().getLandlordProperties(owner), []);
+  const getPropertyDetails = useCallback((id: number) => getReadClient().getPropertyDetails(id), []);
+  const getPropertyDetailsBatch = useCallback((ids: number[]) => getReadClient().getPropertyDetailsBatch(ids), []);
+  const getVerifiedProperties = useCallback((pageSize?: number) => getReadClient().getVerifiedProperties(pageSize), []);
 
-  return { submitProperty, getListingFee, getLandlordProperties, getPropertyDetails };
+  return { previewSubmitProperty, submitProperty, getListingFee, getKycProcessingFee, getLandlordProperties, getPropertyDetails, getPropertyDetailsBatch, getVerifiedProperties };
 }
 
 // ESCROW HOOK
 export function useEscrow() {
-  const getContract = async () => {
-    if (!window.ethereum) throw new Error('No wallet');
-    const provider = new ethers.BrowserProvider(window.ethereum);
-    const signer = await provider.getSigner();
-    return new ethers.Contract(CONTRACT_ADDRESSES.TrustLeaseEscrow, TrustLeaseEscrowABI, signer);
-  };
-
-  const createAgreement = async (
+  const prepareCreateAgreement = async (
     propertyId: number,
     landlord: string,
     monthlyRent: string,
@@ -3786,46 +114,60 @@ export function useEscrow() {
     metadataHash: string,
     depositAmount: string
   ) => {
-    const contract = await getContract();
-    const tx = await contract.createAgreement(
+    const client = await getWriteClient();
+    return client.prepareCreateAgreement(
       propertyId,
       landlord,
-      ethers.parseEther(monthlyRent),
+      parseFlow(monthlyRent),
       rentInterval,
       startDate,
       endDate,
       metadataHash,
-      { value: ethers.parseEther(depositAmount) }
+      parseFlow(depositAmount)
     );
-    return await tx.wait();
   };
 
-  const payRent = async (agreementId: number, metadataHash: string, options: { value: bigint }) => {
-    const contract = await getContract();
-    const tx = await contract.payRent(agreementId, metadataHash, options);
-    return await tx.wait();
+  const previewCreateAgreement = async (...params: Parameters<typeof prepareCreateAgreement>) =>
+    (await prepareCreateAgreement(...params)).preview;
+
+  const createAgreement = async (...params: Parameters<typeof prepareCreateAgreement>) => {
+    const { send } = await prepareCreateAgreement(...params);
+    return trackTransaction('createAgreement', `Agreement for property #${params[0]}`, send);
+  };
+
+  const preparePayRent = async (agreementId: number, metadataHash: string, options: { value: bigint }) => {
+    const client = await getWriteClient();
+    return client.preparePayRent(agreementId, metadataHash, options.value);
   };
 
-  // THIS LINE WAS MISSING — NOW payRent WORKS
-  return { createAgreement, payRent };
+  const previewPayRent = async (...params: Parameters<typeof preparePayRent>) =>
+    (await preparePayRent(...params)).preview;
+
+  const payRent = async (...params: Parameters<typeof preparePayRent>) => {
+    const { send } = await preparePayRent(...params);
+    return trackTransaction('payRent', `Rent for agreement #${params[0]}`, send);
+  };
+
+  const getAgreement = (agreementId: number) => getReadClient().getAgreement(agreementId);
+  const getAgreements = (agreementIds: number[]) => getReadClient().getAgreements(agreementIds);
+  const getTenantAgreements = (tenant: string) => getReadClient().getTenantAgreements(tenant);
+  const getLandlordAgreements = (landlord: string) => getReadClient().getLandlordAgreements(landlord);
+  const getRentPayments = (agreementId: number) => getReadClient().getRentPayments(agreementId);
+  const getDispute = (agreementId: number) => getReadClient().getDispute(agreementId);
+  const getDisputes = (agreementIds: number[]) => getReadClient().getDisputes(agreementIds);
+  const getFeeBreakdown = (agreementId: number) => getReadClient().getFeeBreakdown(agreementId);
+
+  return { previewCreateAgreement, createAgreement, previewPayRent, payRent, getAgreement, getAgreements, getTenantAgreements, getLandlordAgreements, getRentPayments, getDispute, getDisputes, getFeeBreakdown };
 }
 
-// RENTAL RECEIPT HOOK — MOVED OUTSIDE usePropertyVerification
+// RENTAL RECEIPT HOOK
 export function useRentalReceipt() {
-  const getContract = useCallback(() => {
-    if (!window.ethereum) return null;
-    const provider = new ethers.BrowserProvider(window.ethereum);
-    return new ethers.Contract(CONTRACT_ADDRESSES.RentalReceipt, RentalReceiptABI, provider);
-  }, []);
-
-  const getTenantReceipts = useCallback(async (tenant: string) => {
-    const contract = getContract();
-    if (!contract) throw new Error('No provider');
-    return await contract.getTenantReceipts(tenant);
-  }, [getContract]);
+  const getTenantReceipts = useCallback((tenant: string) => getReadClient().getTenantReceipts(tenant), []);
+  const getReceipt = useCallback((receiptId: number) => getReadClient().getReceipt(receiptId), []);
+  const getReceipts = useCallback((receiptIds: number[]) => getReadClient().getReceipts(receiptIds), []);
 
-  return { getTenantReceipts };
+  return { getTenantReceipts, getReceipt, getReceipts };
 }
 
 // LEGACY SUPPORT
-export const useContract = useEscrow;
\ No newline at end of file
+export const useContract = useEscrow;
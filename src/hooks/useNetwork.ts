@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_NETWORK, getNetwork, NETWORKS, type NetworkConfig } from '@/lib/networks';
+import { deploymentRegistry } from '@/lib/contracts/pinnedDeployments';
+
+const STORAGE_KEY = 'trustlease:network';
+
+function loadNetwork(): NetworkConfig {
+  if (typeof localStorage === 'undefined') return DEFAULT_NETWORK;
+  return getNetwork(Number(localStorage.getItem(STORAGE_KEY))) ?? DEFAULT_NETWORK;
+}
+
+const listeners: Array<(network: NetworkConfig) => void> = [];
+
+let activeNetwork: NetworkConfig = loadNetwork();
+
+/** The network reads, explorer links and the wallet's target chain follow. */
+export function getActiveNetwork() {
+  return activeNetwork;
+}
+
+export function selectNetwork(chainId: number) {
+  const network = getNetwork(chainId);
+  if (!network) throw new Error(`Unknown network ${chainId}`);
+  if (network === activeNetwork) return network;
+
+  activeNetwork = network;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, String(chainId));
+  }
+  listeners.forEach(listener => listener(activeNetwork));
+  return network;
+}
+
+export const isDeployed = (network: NetworkConfig) => deploymentRegistry.has(network.chainId);
+
+export function useNetwork() {
+  const [network, setNetwork] = useState(activeNetwork);
+
+  useEffect(() => {
+    listeners.push(setNetwork);
+    return () => {
+      const index = listeners.indexOf(setNetwork);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    network,
+    networks: NETWORKS,
+    selectNetwork,
+    isDeployed,
+  };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { rpcStatus } from '@/lib/rpc';
+import type { NetworkConfig } from '@/lib/networks';
+import { getReadProvider } from '@/hooks/useContract';
+import { useNetwork } from '@/hooks/useNetwork';
+
+/** Health of the RPC endpoints reads use on `network` (the selected one by default). */
+export function useRpcHealth(target?: NetworkConfig) {
+  const { network: selected } = useNetwork();
+  const network = target ?? selected;
+  const provider = getReadProvider(network);
+  const [health, setHealth] = useState(() => provider.health());
+
+  useEffect(() => {
+    setHealth(provider.health());
+    return provider.onHealthChange(setHealth);
+  }, [provider]);
+
+  return { health, status: rpcStatus(health) };
+}
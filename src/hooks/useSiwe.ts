@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from 'react';
+import { verifyMessage } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { decodeError, describeError } from '@/lib/contracts/errors';
+import {
+  createLocalSiweVerifier,
+  createSiweMessage,
+  formatSiweMessage,
+  SiweError,
+  type SiweSession,
+  type SiweVerifier,
+} from '@/lib/siwe';
+
+const STORAGE_KEY = 'trustlease:siwe';
+
+const sessionKey = (address: string, chainId: number) => `${chainId}:${address.toLowerCase()}`;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// A stored session still needs its own signature and an expiry in the future, so an
+// edited or stale entry in localStorage never passes for a sign-in
+function isLive(session: SiweSession) {
+  if (session.expiresAt <= nowSeconds()) return false;
+  try {
+    return verifyMessage(session.message, session.signature) === session.address;
+  } catch {
+    return false;
+  }
+}
+
+function loadSessions(): Map<string, SiweSession> {
+  if (typeof localStorage === 'undefined') return new Map();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as SiweSession[];
+    return new Map(stored.filter(isLive).map(session => [sessionKey(session.address, session.chainId), session]));
+  } catch {
+    return new Map();
+  }
+}
+
+const listeners: Array<(sessions: Map<string, SiweSession>) => void> = [];
+
+let sessions = loadSessions();
+let verifier: SiweVerifier | null = null;
+
+function saveSessions(next: Map<string, SiweSession>) {
+  sessions = next;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...next.values()]));
+  }
+  listeners.forEach(listener => listener(sessions));
+}
+
+/** Replaces the verifier sign-ins go through, e.g. with one backed by a TrustLease server. */
+export function setSiweVerifier(next: SiweVerifier) {
+  verifier = next;
+}
+
+// Defaults to verifying in the page, for this origin only
+function getSiweVerifier() {
+  verifier ??= createLocalSiweVerifier({ domain: window.location.host });
+  return verifier;
+}
+
+/** The live session for `address` on `chainId`, if it has signed in and the session has not expired. */
+export function getSiweSession(address: string, chainId: number) {
+  const session = sessions.get(sessionKey(address, chainId));
+  return session && session.expiresAt > nowSeconds() ? session : null;
+}
+
+/**
+ * Sign-In With Ethereum for the connected wallet. A session belongs to one account on
+ * one chain, so switching either in the wallet shows as signed out until switching back.
+ */
+export function useSiwe() {
+  const { address, chainId, getProvider } = useWallet();
+  const [allSessions, setAllSessions] = useState(sessions);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped when the current session expires, to re-render without it
+  const [, setExpiredAt] = useState(0);
+
+  useEffect(() => {
+    listeners.push(setAllSessions);
+    return () => {
+      const index = listeners.indexOf(setAllSessions);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const stored = address && chainId !== null ? allSessions.get(sessionKey(address, chainId)) : undefined;
+  const session = stored && stored.expiresAt > nowSeconds() ? stored : null;
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => setExpiredAt(session.expiresAt), (session.expiresAt - nowSeconds()) * 1000);
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const signIn = useCallback(async () => {
+    const provider = getProvider();
+    if (!address || chainId === null || !provider) {
+      setError('Connect your wallet to sign in');
+      return null;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      const activeVerifier = getSiweVerifier();
+      const message = formatSiweMessage(createSiweMessage({
+        domain: window.location.host,
+        address,
+        uri: window.location.origin,
+        chainId,
+        nonce: await activeVerifier.issueNonce(),
+      }));
+      const signature = await (await provider.getSigner(address)).signMessage(message);
+      const verified = await activeVerifier.verify(message, signature);
+
+      saveSessions(new Map(sessions).set(sessionKey(verified.address, verified.chainId), verified));
+      return verified;
+    } catch (error) {
+      const decoded = decodeError(error);
+      setError(
+        error instanceof SiweError ? error.message
+          : decoded.kind === 'user-rejected' ? 'You rejected the sign-in request in your wallet.'
+          : describeError(decoded)
+      );
+      return null;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, chainId, getProvider]);
+
+  // Ends the current account's session; other accounts stay signed in
+  const signOut = useCallback(async () => {
+    if (!address || chainId === null) return;
+    const key = sessionKey(address, chainId);
+    const ended = sessions.get(key);
+    if (!ended) return;
+
+    const next = new Map(sessions);
+    next.delete(key);
+    saveSessions(next);
+    await getSiweVerifier().revoke?.(ended);
+  }, [address, chainId]);
+
+  return {
+    session,
+    isSignedIn: session !== null,
+    isSigningIn,
+    error,
+    signIn,
+    signOut,
+  };
+}
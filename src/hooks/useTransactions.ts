@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { isError, type FeeData, type Provider, type Signer, type TransactionReceipt, type TransactionRequest, type TransactionResponse } from 'ethers';
+import { decodeError } from '@/lib/contracts/errors';
+
+const STORAGE_KEY = 'trustlease:transactions';
+const TRANSACTION_LIMIT = 20;
+// Nodes only accept a same-nonce replacement that pays at least 10% more
+const FEE_BUMP_PERCENT = 125n;
+
+export type TransactionStatus = 'awaiting-signature' | 'submitted' | 'mined' | 'replaced' | 'cancelled' | 'failed';
+
+export type ReplacementAction = 'speed-up' | 'cancel';
+
+export type TransactionKind = 'submitProperty' | 'createAgreement' | 'payRent';
+
+export interface TrustLeaseTransaction {
+  id: string;
+  kind: TransactionKind;
+  label: string;
+  status: TransactionStatus;
+  chainId: number | null;
+  hash: string | null;
+  from: string | null;
+  nonce: number | null;
+  /** Block height when the transaction was sent; lets ethers detect replacements after a reload. */
+  startBlock: number | null;
+  /** Hash of the transaction that took this one's nonce, when it was sped up or replaced. */
+  replacedBy?: string;
+  /** The latest speed-up or cancel the user sent for this transaction. */
+  replacing?: { action: ReplacementAction; hash: string };
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type Action =
+  | { type: 'ADD_TRANSACTION'; transaction: TrustLeaseTransaction }
+  | { type: 'UPDATE_TRANSACTION'; transaction: Partial<TrustLeaseTransaction> & { id: string } }
+  | { type: 'CLEAR_FINISHED' };
+
+interface State {
+  transactions: TrustLeaseTransaction[];
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case 'ADD_TRANSACTION':
+      return { transactions: [action.transaction, ...state.transactions].slice(0, TRANSACTION_LIMIT) };
+    case 'UPDATE_TRANSACTION':
+      return {
+        transactions: state.transactions.map(t =>
+          t.id === action.transaction.id ? { ...t, ...action.transaction, updatedAt: Date.now() } : t
+        ),
+      };
+    case 'CLEAR_FINISHED':
+      return { transactions: state.transactions.filter(t => isPending(t)) };
+  }
+};
+
+export const isPending = (tx: TrustLeaseTransaction) => tx.status === 'awaiting-signature' || tx.status === 'submitted';
+
+function loadState(): State {
+  if (typeof localStorage === 'undefined') return { transactions: [] };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as TrustLeaseTransaction[];
+    // A wallet prompt does not survive a reload, so those requests can never complete
+    return {
+      transactions: stored.map(t =>
+        t.status === 'awaiting-signature' ? { ...t, status: 'failed', error: 'Signature request was interrupted' } : t
+      ),
+    };
+  } catch {
+    return { transactions: [] };
+  }
+}
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = loadState();
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState.transactions));
+  }
+  listeners.forEach(listener => listener(memoryState));
+}
+
+let count = 0;
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER;
+  return `${Date.now()}-${count}`;
+}
+
+const settledListeners: Array<(transaction: TrustLeaseTransaction) => void> = [];
+
+function update(id: string, changes: Partial<TrustLeaseTransaction>) {
+  dispatch({ type: 'UPDATE_TRANSACTION', transaction: { ...changes, id } });
+  const transaction = memoryState.transactions.find(t => t.id === id);
+  if (changes.status && transaction && !isPending(transaction)) {
+    settledListeners.forEach(listener => listener(transaction));
+  }
+}
+
+/** Calls `listener` when a tracked transaction is mined, replaced, cancelled or fails. Returns an unsubscribe function. */
+export function onTransactionSettled(listener: (transaction: TrustLeaseTransaction) => void) {
+  settledListeners.push(listener);
+  return () => {
+    const index = settledListeners.indexOf(listener);
+    if (index > -1) {
+      settledListeners.splice(index, 1);
+    }
+  };
+}
+
+async function waitForReceipt(id: string, tx: TransactionResponse): Promise<TransactionReceipt | null> {
+  try {
+    const receipt = await tx.wait();
+    update(id, { status: 'mined' });
+    return receipt;
+  } catch (error) {
+    if (isError(error, 'TRANSACTION_REPLACED')) {
+      // A repriced transaction is the same call with higher fees, so it still counts as ours
+      if (error.reason === 'repriced') {
+        update(id, { status: 'mined', replacedBy: error.replacement.hash });
+        return error.receipt;
+      }
+      update(id, {
+        status: error.reason === 'cancelled' ? 'cancelled' : 'replaced',
+        replacedBy: error.replacement.hash,
+      });
+    } else {
+      update(id, { status: 'failed', error: decodeError(error).title });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends a TrustLease transaction through the tracker: records it while the wallet
+ * prompt is open, persists the hash once submitted and follows it until it is mined,
+ * replaced or fails.
+ */
+export async function trackTransaction(
+  kind: TransactionKind,
+  label: string,
+  send: () => Promise<TransactionResponse>
+): Promise<TransactionReceipt | null> {
+  const id = genId();
+  dispatch({
+    type: 'ADD_TRANSACTION',
+    transaction: {
+      id, kind, label,
+      status: 'awaiting-signature',
+      chainId: null, hash: null, from: null, nonce: null, startBlock: null,
+      createdAt: Date.now(), updatedAt: Date.now(),
+    },
+  });
+
+  let tx: TransactionResponse;
+  try {
+    tx = await send();
+  } catch (error) {
+    update(id, { status: 'failed', error: decodeError(error).title });
+    throw error;
+  }
+
+  const startBlock = await tx.provider.getBlockNumber().catch(() => null);
+  update(id, {
+    status: 'submitted',
+    hash: tx.hash,
+    from: tx.from,
+    nonce: tx.nonce,
+    chainId: Number(tx.chainId),
+    startBlock,
+  });
+
+  return waitForReceipt(id, startBlock != null ? tx.replaceableTransaction(startBlock) : tx);
+}
+
+const resuming = new Set<string>();
+
+/** Picks up transactions that were still pending when the page was closed. */
+export function resumePendingTransactions(provider: Provider, chainId: number) {
+  const pending = memoryState.transactions.filter(t => t.status === 'submitted' && t.chainId === chainId && t.hash);
+
+  pending.forEach(async (record) => {
+    if (resuming.has(record.id)) return;
+    resuming.add(record.id);
+    try {
+      const tx = await provider.getTransaction(record.hash!);
+      if (tx) {
+        await waitForReceipt(record.id, record.startBlock != null ? tx.replaceableTransaction(record.startBlock) : tx)
+          .catch(() => undefined);
+        return;
+      }
+
+      const receipt = await provider.getTransactionReceipt(record.hash!);
+      if (receipt) {
+        update(record.id, { status: receipt.status === 1 ? 'mined' : 'failed' });
+        return;
+      }
+
+      // The original is gone; if the user sped it up or cancelled it, follow that transaction instead
+      if (record.replacing) {
+        const replacement = await provider.getTransaction(record.replacing.hash);
+        const replacementReceipt = replacement
+          ? await replacement.wait().catch(() => provider.getTransactionReceipt(record.replacing!.hash))
+          : await provider.getTransactionReceipt(record.replacing.hash);
+        if (replacementReceipt) {
+          update(record.id, replacementOutcome(record.replacing.action, replacementReceipt));
+          return;
+        }
+      }
+
+      // Gone from the mempool: if the nonce was used since, another transaction replaced it
+      const confirmedNonce = await provider.getTransactionCount(record.from!, 'latest');
+      update(record.id, confirmedNonce > record.nonce!
+        ? { status: 'replaced' }
+        : { status: 'failed', error: 'Dropped from the network' });
+    } catch (error) {
+      console.error('Error resuming transaction:', error);
+    } finally {
+      resuming.delete(record.id);
+    }
+  });
+}
+
+function replacementOutcome(action: ReplacementAction, receipt: TransactionReceipt): Partial<TrustLeaseTransaction> {
+  if (receipt.status !== 1) return { status: 'failed', replacedBy: receipt.hash, error: 'Transaction reverted' };
+  return { status: action === 'cancel' ? 'cancelled' : 'mined', replacedBy: receipt.hash };
+}
+
+const bump = (fee: bigint | null | undefined, current: bigint | null | undefined) => {
+  const bumped = (fee ?? 0n) * FEE_BUMP_PERCENT / 100n;
+  return current != null && current > bumped ? current : bumped;
+};
+
+// Keeps the original's fee type: EIP-1559 fields when it had them, a gas price otherwise
+function bumpedFees(original: TransactionResponse, feeData: FeeData): TransactionRequest {
+  if (original.maxFeePerGas != null) {
+    return {
+      maxFeePerGas: bump(original.maxFeePerGas, feeData.maxFeePerGas),
+      maxPriorityFeePerGas: bump(original.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
+    };
+  }
+  return { gasPrice: bump(original.gasPrice, feeData.gasPrice) };
+}
+
+async function sendReplacement(id: string, signer: Signer, action: ReplacementAction) {
+  const record = memoryState.transactions.find(t => t.id === id);
+  if (!record || record.status !== 'submitted' || !record.hash || !record.from || record.nonce == null) {
+    throw new Error('Only pending transactions can be sped up or cancelled');
+  }
+  if ((await signer.getAddress()).toLowerCase() !== record.from.toLowerCase()) {
+    throw new Error(`Switch your wallet to ${record.from} to replace this transaction`);
+  }
+
+  const provider = signer.provider;
+  if (!provider) throw new Error('Signer is not connected to a network');
+  const [original, feeData] = await Promise.all([
+    provider.getTransaction(record.replacing?.hash ?? record.hash),
+    provider.getFeeData(),
+  ]);
+  if (!original || original.blockNumber != null) throw new Error('The transaction is no longer pending');
+
+  // A cancel is an empty transfer to yourself that takes the nonce first
+  const request: TransactionRequest = action === 'speed-up'
+    ? { to: original.to, data: original.data, value: original.value, gasLimit: original.gasLimit }
+    : { to: record.from, value: 0n, data: '0x', gasLimit: 21_000n };
+
+  const replacement = await signer.sendTransaction({ ...request, ...bumpedFees(original, feeData), nonce: record.nonce });
+  update(id, { replacing: { action, hash: replacement.hash } });
+  return replacement;
+}
+
+/** Re-sends a pending transaction with the same nonce and higher fees. */
+export const speedUpTransaction = (id: string, signer: Signer) => sendReplacement(id, signer, 'speed-up');
+
+/** Replaces a pending transaction with a zero-value self-transfer on the same nonce. */
+export const cancelTransaction = (id: string, signer: Signer) => sendReplacement(id, signer, 'cancel');
+
+export function getTransactions() {
+  return memoryState.transactions;
+}
+
+export function useTransactions() {
+  const [state, setState] = useState<State>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    pendingCount: state.transactions.filter(isPending).length,
+    clearFinished: () => dispatch({ type: 'CLEAR_FINISHED' }),
+  };
+}
@@ -0,0 +1,287 @@
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import { syncEvents } from '@/lib/contracts/indexer';
+import { checkDeploymentCompatibility } from '@/lib/contracts/compatibility';
+import type { IndexedEvent } from '@/lib/contracts/eventStore';
+import { getReadDeployment, getReadProvider, useEscrow, usePropertyVerification, useRentalReceipt } from '@/hooks/useContract';
+import { isDeployed, useNetwork } from '@/hooks/useNetwork';
+import { useViewer } from '@/hooks/useWatchAddress';
+
+const EVENT_POLL_INTERVAL = 15_000;
+// A first visit starts this far behind the head instead of replaying all history; later visits catch up from the cursor
+const EVENT_BACKFILL_BLOCKS = 5_000;
+
+// Keys are nested so invalidating an entity also refreshes everything scoped under it,
+// e.g. ['trustlease', 'agreement', 3] covers the agreement, its payments, dispute and fees.
+// IDs are plain numbers because query keys are hashed with JSON.stringify.
+export const trustLeaseKeys = {
+  all: ['trustlease'] as const,
+  deploymentCheck: (chainId: number) => ['trustlease', 'deploymentCheck', chainId] as const,
+  listingFee: () => ['trustlease', 'listingFee'] as const,
+  kycProcessingFee: () => ['trustlease', 'kycProcessingFee'] as const,
+  property: (id: number) => ['trustlease', 'property', id] as const,
+  properties: () => ['trustlease', 'properties'] as const,
+  verifiedProperties: () => ['trustlease', 'properties', 'verified'] as const,
+  landlordProperties: (owner: string) => ['trustlease', 'properties', 'landlord', owner.toLowerCase()] as const,
+  agreement: (id: number) => ['trustlease', 'agreement', id] as const,
+  rentPayments: (id: number) => ['trustlease', 'agreement', id, 'payments'] as const,
+  dispute: (id: number) => ['trustlease', 'agreement', id, 'dispute'] as const,
+  feeBreakdown: (id: number) => ['trustlease', 'agreement', id, 'fees'] as const,
+  agreements: () => ['trustlease', 'agreements'] as const,
+  tenantAgreements: (tenant: string) => ['trustlease', 'agreements', 'tenant', tenant.toLowerCase()] as const,
+  accountDisputes: (account: string) => ['trustlease', 'agreements', 'disputes', account.toLowerCase()] as const,
+  receipt: (id: number) => ['trustlease', 'receipt', id] as const,
+  receipts: () => ['trustlease', 'receipts'] as const,
+  tenantReceipts: (tenant: string) => ['trustlease', 'receipts', 'tenant', tenant.toLowerCase()] as const,
+};
+
+// Reads scoped to one account, dropped once the wallet leaves it
+const accountKeys = (account: string): QueryKey[] => [
+  trustLeaseKeys.landlordProperties(account),
+  trustLeaseKeys.tenantAgreements(account),
+  trustLeaseKeys.accountDisputes(account),
+  trustLeaseKeys.tenantReceipts(account),
+];
+
+// Each entity an event touches invalidates that entity and every list it may appear in
+const ENTITY_KEYS: Record<string, (id: number) => QueryKey[]> = {
+  property: id => [trustLeaseKeys.property(id), trustLeaseKeys.properties()],
+  agreement: id => [trustLeaseKeys.agreement(id), trustLeaseKeys.agreements()],
+  receipt: id => [trustLeaseKeys.receipt(id), trustLeaseKeys.receipts()],
+};
+
+export function invalidateForEvents(queryClient: QueryClient, events: IndexedEvent[]) {
+  const keys = new Map<string, QueryKey>();
+  for (const event of events) {
+    for (const entity of event.entities) {
+      const [, kind, id] = entity.split(':');
+      ENTITY_KEYS[kind]?.(Number(id)).forEach(key => keys.set(JSON.stringify(key), key));
+    }
+  }
+  keys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+}
+
+/**
+ * Keeps the local event index in step with the selected network and invalidates the
+ * queries the new events touch. Mount once near the root.
+ */
+export function useContractEventSync() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  // Cached reads belong to the previous network once the user switches
+  const syncedChainId = useRef(network.chainId);
+  useEffect(() => {
+    if (syncedChainId.current === network.chainId) return;
+    syncedChainId.current = network.chainId;
+    queryClient.resetQueries({ queryKey: trustLeaseKeys.all });
+  }, [queryClient, network.chainId]);
+
+  useEffect(() => {
+    if (!isDeployed(network)) return;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout>;
+
+    const sync = async () => {
+      try {
+        await syncEvents(getReadProvider(network), network.chainId, getReadDeployment(network), {
+          signal: controller.signal,
+          confirmations: network.confirmations,
+          maxBackfill: EVENT_BACKFILL_BLOCKS,
+          onEvents: events => invalidateForEvents(queryClient, events),
+        });
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Error syncing contract events:', error);
+      }
+      if (!controller.signal.aborted) timer = setTimeout(sync, EVENT_POLL_INTERVAL);
+    };
+
+    sync();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [queryClient, network]);
+}
+
+/**
+ * Drops the previous account's cached reads when the wallet switches or disconnects, or a
+ * watched address changes, so no section keeps showing them and switching back refetches.
+ * Mount once near the root.
+ */
+export function useWalletQuerySync() {
+  const queryClient = useQueryClient();
+  const { address } = useViewer();
+
+  const previousAddress = useRef(address);
+  useEffect(() => {
+    const previous = previousAddress.current;
+    previousAddress.current = address;
+    if (!previous || previous.toLowerCase() === address?.toLowerCase()) return;
+    accountKeys(previous).forEach(queryKey => queryClient.removeQueries({ queryKey }));
+  }, [queryClient, address]);
+}
+
+// DEPLOYMENT
+
+/** Checks the selected network's deployment against the app's ABIs once per network. */
+export function useDeploymentCheck() {
+  const { network } = useNetwork();
+  return useQuery({
+    queryKey: trustLeaseKeys.deploymentCheck(network.chainId),
+    queryFn: () => checkDeploymentCompatibility(getReadProvider(network), getReadDeployment(network)),
+    enabled: isDeployed(network),
+    staleTime: Infinity,
+  });
+}
+
+// PROPERTY VERIFICATION
+
+export function useListingFee() {
+  const { getListingFee } = usePropertyVerification();
+  return useQuery({ queryKey: trustLeaseKeys.listingFee(), queryFn: getListingFee });
+}
+
+/** Only listings with enhanced KYC pay it, so callers can skip the read otherwise. */
+export function useKycProcessingFee(enabled = true) {
+  const { getKycProcessingFee } = usePropertyVerification();
+  return useQuery({ queryKey: trustLeaseKeys.kycProcessingFee(), queryFn: getKycProcessingFee, enabled });
+}
+
+export function usePropertyDetails(id: number | undefined) {
+  const { getPropertyDetails } = usePropertyVerification();
+  return useQuery({
+    queryKey: trustLeaseKeys.property(id ?? 0),
+    queryFn: () => getPropertyDetails(id!),
+    enabled: id !== undefined,
+  });
+}
+
+export function useLandlordProperties(owner: string | null | undefined) {
+  const { getLandlordProperties, getPropertyDetailsBatch } = usePropertyVerification();
+  return useQuery({
+    queryKey: trustLeaseKeys.landlordProperties(owner ?? ''),
+    queryFn: async () => getPropertyDetailsBatch((await getLandlordProperties(owner!)).map(Number)),
+    enabled: !!owner,
+  });
+}
+
+export function useVerifiedProperties(enabled = true) {
+  const { getVerifiedProperties } = usePropertyVerification();
+  return useQuery({ queryKey: trustLeaseKeys.verifiedProperties(), queryFn: () => getVerifiedProperties(), enabled });
+}
+
+export function useSubmitProperty() {
+  const queryClient = useQueryClient();
+  const { submitProperty } = usePropertyVerification();
+  return useMutation({
+    mutationFn: (params: Readonly<Parameters<typeof submitProperty>>) => submitProperty(...params),
+    // On settle, not success: a cancelled or replaced send rejects, and the lists
+    // should reflect whichever transaction actually took the nonce
+    onSettled: () => queryClient.invalidateQueries({ queryKey: trustLeaseKeys.properties() }),
+  });
+}
+
+// ESCROW
+
+export function useAgreement(id: number | undefined) {
+  const { getAgreement } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.agreement(id ?? 0),
+    queryFn: () => getAgreement(id!),
+    enabled: id !== undefined,
+  });
+}
+
+export function useTenantAgreements(tenant: string | null | undefined) {
+  const { getTenantAgreements, getAgreements } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.tenantAgreements(tenant ?? ''),
+    queryFn: async () => getAgreements((await getTenantAgreements(tenant!)).map(Number)),
+    enabled: !!tenant,
+  });
+}
+
+export function useRentPayments(agreementId: number | undefined) {
+  const { getRentPayments } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.rentPayments(agreementId ?? 0),
+    queryFn: () => getRentPayments(agreementId!),
+    enabled: agreementId !== undefined,
+  });
+}
+
+export function useDispute(agreementId: number | undefined) {
+  const { getDispute } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.dispute(agreementId ?? 0),
+    queryFn: () => getDispute(agreementId!),
+    enabled: agreementId !== undefined,
+  });
+}
+
+/** Disputes raised on any agreement `account` is party to, as tenant or landlord. */
+export function useAccountDisputes(account: string | null | undefined) {
+  const { getTenantAgreements, getLandlordAgreements, getDisputes } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.accountDisputes(account ?? ''),
+    queryFn: async () => {
+      const [asTenant, asLandlord] = await Promise.all([getTenantAgreements(account!), getLandlordAgreements(account!)]);
+      const ids = [...new Set([...asTenant, ...asLandlord].map(Number))];
+      return (await getDisputes(ids)).filter(dispute => dispute.createdAt > 0n);
+    },
+    enabled: !!account,
+  });
+}
+
+export function useFeeBreakdown(agreementId: number | undefined) {
+  const { getFeeBreakdown } = useEscrow();
+  return useQuery({
+    queryKey: trustLeaseKeys.feeBreakdown(agreementId ?? 0),
+    queryFn: () => getFeeBreakdown(agreementId!),
+    enabled: agreementId !== undefined,
+  });
+}
+
+export function useCreateAgreement() {
+  const queryClient = useQueryClient();
+  const { createAgreement } = useEscrow();
+  return useMutation({
+    mutationFn: (params: Readonly<Parameters<typeof createAgreement>>) => createAgreement(...params),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: trustLeaseKeys.agreements() }),
+  });
+}
+
+export function usePayRent() {
+  const queryClient = useQueryClient();
+  const { payRent } = useEscrow();
+  return useMutation({
+    mutationFn: (params: Readonly<Parameters<typeof payRent>>) => payRent(...params),
+    // A payment updates the agreement, appends a payment and mints a receipt
+    onSettled: (_receipt, _error, [agreementId]) => Promise.all([
+      queryClient.invalidateQueries({ queryKey: trustLeaseKeys.agreement(agreementId) }),
+      queryClient.invalidateQueries({ queryKey: trustLeaseKeys.agreements() }),
+      queryClient.invalidateQueries({ queryKey: trustLeaseKeys.receipts() }),
+    ]),
+  });
+}
+
+// RENTAL RECEIPTS
+
+export function useReceipt(id: number | undefined) {
+  const { getReceipt } = useRentalReceipt();
+  return useQuery({
+    queryKey: trustLeaseKeys.receipt(id ?? 0),
+    queryFn: () => getReceipt(id!),
+    enabled: id !== undefined,
+  });
+}
+
+export function useTenantReceipts(tenant: string | null | undefined) {
+  const { getTenantReceipts, getReceipts } = useRentalReceipt();
+  return useQuery({
+    queryKey: trustLeaseKeys.tenantReceipts(tenant ?? ''),
+    queryFn: async () => getReceipts((await getTenantReceipts(tenant!)).map(Number)),
+    enabled: !!tenant,
+  });
+}
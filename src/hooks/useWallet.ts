@@ -1,249 +1,75 @@
-import { useState, useEffect, useCallback } from 'react';
-import { ethers } from 'ethers';
+import { createContext, useCallback, useContext, useEffect, useRef } from 'react';
+import { parseEther, type BrowserProvider } from 'ethers';
+import type { NetworkConfig } from '@/lib/networks';
+import type { DiscoveredWallet } from '@/lib/wallets';
+import { checkAffordability } from '@/lib/contracts/preflight';
 
-// Flow EVM Testnet Configuration
-const FLOW_EVM_TESTNET = {
-  chainId: 545, // Flow EVM Testnet chain ID
-  chainIdHex: '0x221',
-  name: 'Flow EVM Testnet',
-  rpcUrl: 'https://testnet.evm.nodes.onflow.org',
-  blockExplorer: 'https://evm-testnet.flowscan.io',
-  currency: {
-    name: 'Flow',
-    symbol: 'FLOW',
-    decimals: 18,
-  },
-};
-
-interface WalletState {
+export interface WalletState {
   address: string | null;
   balance: string | null;
   isConnected: boolean;
   isConnecting: boolean;
-  isWrongNetwork: boolean;
   chainId: number | null;
   error: string | null;
 }
 
-export function useWallet() {
-  const [state, setState] = useState<WalletState>({
-    address: null,
-    balance: null,
-    isConnected: false,
-    isConnecting: false,
-    isWrongNetwork: false,
-    chainId: null,
-    error: null,
-  });
-
-  const getProvider = useCallback(() => {
-    if (typeof window !== 'undefined' && (window as any).ethereum) {
-      return new ethers.BrowserProvider((window as any).ethereum);
-    }
-    return null;
-  }, []);
-
-  const checkNetwork = useCallback(async () => {
-    const provider = getProvider();
-    if (!provider) return false;
-
-    try {
-      const network = await provider.getNetwork();
-      const chainId = Number(network.chainId);
-      const isCorrectNetwork = chainId === FLOW_EVM_TESTNET.chainId;
-      
-      setState(prev => ({
-        ...prev,
-        chainId,
-        isWrongNetwork: !isCorrectNetwork,
-      }));
-      
-      return isCorrectNetwork;
-    } catch (error) {
-      console.error('Error checking network:', error);
-      return false;
-    }
-  }, [getProvider]);
-
-  const switchNetwork = useCallback(async () => {
-    if (typeof window === 'undefined' || !(window as any).ethereum) return false;
-
-    try {
-      await (window as any).ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: FLOW_EVM_TESTNET.chainIdHex }],
-      });
-      return true;
-    } catch (switchError: any) {
-      // Chain not added, try to add it
-      if (switchError.code === 4902) {
-        try {
-          await (window as any).ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: FLOW_EVM_TESTNET.chainIdHex,
-              chainName: FLOW_EVM_TESTNET.name,
-              rpcUrls: [FLOW_EVM_TESTNET.rpcUrl],
-              blockExplorerUrls: [FLOW_EVM_TESTNET.blockExplorer],
-              nativeCurrency: FLOW_EVM_TESTNET.currency,
-            }],
-          });
-          return true;
-        } catch (addError) {
-          console.error('Error adding network:', addError);
-          return false;
-        }
-      }
-      console.error('Error switching network:', switchError);
-      return false;
-    }
-  }, []);
-
-  const fetchBalance = useCallback(async (address: string) => {
-    const provider = getProvider();
-    if (!provider) return null;
-
-    try {
-      const balance = await provider.getBalance(address);
-      return ethers.formatEther(balance);
-    } catch (error) {
-      console.error('Error fetching balance:', error);
-      return null;
-    }
-  }, [getProvider]);
-
-  const connect = useCallback(async () => {
-    if (typeof window === 'undefined' || !(window as any).ethereum) {
-      setState(prev => ({ ...prev, error: 'Please install MetaMask or a compatible wallet' }));
-      return;
-    }
-
-    setState(prev => ({ ...prev, isConnecting: true, error: null }));
-
-    try {
-      const provider = getProvider();
-      if (!provider) throw new Error('Provider not available');
-
-      // Request account access
-      const accounts = await (window as any).ethereum.request({
-        method: 'eth_requestAccounts',
-      });
-
-      if (accounts.length === 0) {
-        throw new Error('No accounts found');
-      }
-
-      const address = accounts[0];
-      
-      // Check and switch network
-      const isCorrectNetwork = await checkNetwork();
-      if (!isCorrectNetwork) {
-        await switchNetwork();
-        await checkNetwork();
-      }
-
-      const balance = await fetchBalance(address);
-
-      setState({
-        address,
-        balance,
-        isConnected: true,
-        isConnecting: false,
-        isWrongNetwork: false,
-        chainId: FLOW_EVM_TESTNET.chainId,
-        error: null,
-      });
-    } catch (error: any) {
-      setState(prev => ({
-        ...prev,
-        isConnecting: false,
-        error: error.message || 'Failed to connect wallet',
-      }));
-    }
-  }, [getProvider, checkNetwork, switchNetwork, fetchBalance]);
-
-  const disconnect = useCallback(() => {
-    setState({
-      address: null,
-      balance: null,
-      isConnected: false,
-      isConnecting: false,
-      isWrongNetwork: false,
-      chainId: null,
-      error: null,
-    });
-  }, []);
-
-  const shortenAddress = useCallback((address: string) => {
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
-  }, []);
-
-  // Listen for account and network changes
-  useEffect(() => {
-    if (typeof window === 'undefined' || !(window as any).ethereum) return;
-
-    const handleAccountsChanged = async (accounts: string[]) => {
-      if (accounts.length === 0) {
-        disconnect();
-      } else {
-        const balance = await fetchBalance(accounts[0]);
-        setState(prev => ({
-          ...prev,
-          address: accounts[0],
-          balance,
-        }));
-      }
-    };
+export interface WalletContextValue extends WalletState {
+  /** Connected to a chain other than the one selected in the app. */
+  isWrongNetwork: boolean;
+  /** Installed wallets, for the picker. */
+  wallets: DiscoveredWallet[];
+  /** The wallet the app talks to, remembered across sessions. */
+  wallet: DiscoveredWallet | null;
+  /** Connects the wallet with this EIP-6963 `rdns`, or the selected one when omitted. */
+  connect: (rdns?: string) => Promise<void>;
+  /** Disconnects and forgets the selected wallet. */
+  disconnect: () => void;
+  /** Defaults to the network selected in the app. */
+  switchNetwork: (target?: NetworkConfig) => Promise<boolean>;
+  shortenAddress: (address: string) => string;
+  getProvider: () => BrowserProvider | null;
+  /** Re-reads the balance now; it also refreshes on every block and after each TrustLease transaction. */
+  refreshBalance: () => Promise<void>;
+  networkConfig: NetworkConfig;
+}
 
-    const handleChainChanged = () => {
-      window.location.reload();
-    };
+export const WalletContext = createContext<WalletContextValue | null>(null);
 
-    (window as any).ethereum.on('accountsChanged', handleAccountsChanged);
-    (window as any).ethereum.on('chainChanged', handleChainChanged);
+/** The wallet connection shared by every section, provided by `WalletProvider` at the app root. */
+export function useWallet() {
+  const wallet = useContext(WalletContext);
+  if (!wallet) throw new Error('useWallet must be used inside <WalletProvider>');
+  return wallet;
+}
 
-    return () => {
-      (window as any).ethereum.removeListener('accountsChanged', handleAccountsChanged);
-      (window as any).ethereum.removeListener('chainChanged', handleChainChanged);
-    };
-  }, [disconnect, fetchBalance]);
+/**
+ * Calls `reset` when the wallet moves to another account or chain, to drop state worked
+ * out for the previous one, such as a cost preview or an open detail view. Form input
+ * should be left alone so nothing the user typed is lost.
+ */
+export function useWalletChange(reset: () => void) {
+  const { address, chainId } = useWallet();
+  const session = `${address?.toLowerCase() ?? ''}:${chainId ?? ''}`;
+  const lastSession = useRef(session);
+  const resetRef = useRef(reset);
+  resetRef.current = reset;
 
-  // Check if already connected on mount
   useEffect(() => {
-    const checkConnection = async () => {
-      if (typeof window === 'undefined' || !(window as any).ethereum) return;
-
-      try {
-        const accounts = await (window as any).ethereum.request({
-          method: 'eth_accounts',
-        });
-
-        if (accounts.length > 0) {
-          const balance = await fetchBalance(accounts[0]);
-          await checkNetwork();
-          
-          setState(prev => ({
-            ...prev,
-            address: accounts[0],
-            balance,
-            isConnected: true,
-          }));
-        }
-      } catch (error) {
-        console.error('Error checking connection:', error);
-      }
-    };
-
-    checkConnection();
-  }, [fetchBalance, checkNetwork]);
+    if (lastSession.current === session) return;
+    lastSession.current = session;
+    resetRef.current();
+  }, [session]);
+}
 
-  return {
-    ...state,
-    connect,
-    disconnect,
-    switchNetwork,
-    shortenAddress,
-    getProvider,
-    networkConfig: FLOW_EVM_TESTNET,
-  };
+/**
+ * Checks amounts against the live balance: the value sent, plus gas once a preview has
+ * estimated it. The check returns null until a connected balance is known.
+ */
+export function useAffordability() {
+  const { balance } = useWallet();
+  return useCallback((value: bigint, gasCost?: bigint) => {
+    if (balance === null) return null;
+    // The balance comes from formatEther, so it always uses '.' whatever the locale
+    return checkAffordability(parseEther(balance), value, gasCost);
+  }, [balance]);
 }
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { getAddress, isAddress } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+
+// `?viewAs=0x…` opens the app watching that address, so a read-only view can be shared as a link
+export const WATCH_PARAM = 'viewAs';
+
+const toWatchAddress = (value: string | null) => (value && isAddress(value) ? getAddress(value) : null);
+
+function loadWatchAddress() {
+  if (typeof window === 'undefined') return null;
+  return toWatchAddress(new URLSearchParams(window.location.search).get(WATCH_PARAM));
+}
+
+const listeners: Array<(address: string | null) => void> = [];
+
+let watchedAddress = loadWatchAddress();
+
+/** The address being viewed read-only, or null when the app follows the connected wallet. */
+export function getWatchedAddress() {
+  return watchedAddress;
+}
+
+/** Views the app as `address` without its keys, or returns to the connected wallet with null. */
+export function watchAddress(address: string | null) {
+  const next = toWatchAddress(address);
+  if (address !== null && !next) throw new Error(`Not a valid address: ${address}`);
+  if (next === watchedAddress) return next;
+
+  watchedAddress = next;
+  if (typeof window !== 'undefined') {
+    // Replaced rather than pushed: entering an address is not a page the back button should revisit
+    const url = new URL(window.location.href);
+    if (next) url.searchParams.set(WATCH_PARAM, next);
+    else url.searchParams.delete(WATCH_PARAM);
+    window.history.replaceState(window.history.state, '', url);
+  }
+  listeners.forEach(listener => listener(watchedAddress));
+  return next;
+}
+
+export function useWatchAddress() {
+  const [address, setAddress] = useState(watchedAddress);
+
+  useEffect(() => {
+    listeners.push(setAddress);
+    return () => {
+      const index = listeners.indexOf(setAddress);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    watchedAddress: address,
+    isWatching: address !== null,
+    watchAddress,
+  };
+}
+
+/**
+ * Whose agreements, receipts, properties and disputes the dashboards show: the watched
+ * address if there is one, else the connected wallet. Sections must not offer writes
+ * while `isWatching`, since the wallet cannot sign for the address on screen.
+ */
+export function useViewer() {
+  const { address, isConnected } = useWallet();
+  const { watchedAddress: watched, isWatching } = useWatchAddress();
+
+  return {
+    address: watched ?? (isConnected ? address : null),
+    isWatching,
+  };
+}
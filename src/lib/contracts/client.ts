@@ -0,0 +1,234 @@
+import { ZeroAddress, type ContractTransactionResponse, type Provider, type Signer } from 'ethers';
+import {
+  connectPropertyVerification,
+  connectRentalReceipt,
+  connectTrustLeaseEscrow,
+  toPlain,
+  type ChainDeployment,
+  type PropertyDetails,
+  type PropertyVerificationContract,
+  type RentalReceiptContract,
+  type TrustLeaseEscrowContract,
+} from './index';
+import { batchCall, multicall } from './multicall';
+import { buildCostPreview, simulateWrite, type CostPreview } from './preflight';
+
+export interface TrustLeaseClientOptions {
+  deployment: ChainDeployment;
+  /** Used for reads. Defaults to the signer's provider. */
+  provider?: Provider;
+  /** Required for writes. */
+  signer?: Signer;
+}
+
+/** A simulated write, ready to be sent. */
+export interface PreparedWrite {
+  preview: CostPreview;
+  send: () => Promise<ContractTransactionResponse>;
+}
+
+/**
+ * Plain TypeScript access to the TrustLease contracts on one chain. Works with any
+ * ethers provider or signer, so the same calls back the React hooks, Node scripts
+ * and backend jobs. The typed contract instances are public for admin calls the
+ * client does not wrap.
+ */
+export class TrustLeaseClient {
+  readonly provider: Provider;
+  readonly signer?: Signer;
+  readonly propertyVerification: PropertyVerificationContract;
+  readonly escrow: TrustLeaseEscrowContract;
+  readonly rentalReceipt: RentalReceiptContract;
+
+  constructor(readonly options: TrustLeaseClientOptions) {
+    const provider = options.provider ?? options.signer?.provider;
+    if (!provider) throw new Error('TrustLeaseClient needs a provider or a signer connected to one');
+
+    const { deployment, signer } = options;
+    const runner = signer ?? provider;
+    this.provider = provider;
+    this.signer = signer;
+    this.propertyVerification = connectPropertyVerification(deployment.PropertyVerification.address, runner, deployment.PropertyVerification.abi);
+    this.escrow = connectTrustLeaseEscrow(deployment.TrustLeaseEscrow.address, runner, deployment.TrustLeaseEscrow.abi);
+    this.rentalReceipt = connectRentalReceipt(deployment.RentalReceipt.address, runner, deployment.RentalReceipt.abi);
+  }
+
+  /** Returns a client for the same deployment that signs with `signer`. */
+  connect(signer: Signer) {
+    return new TrustLeaseClient({ ...this.options, signer });
+  }
+
+  private requireSigner() {
+    if (!this.signer) throw new Error('TrustLeaseClient needs a signer for writes');
+    return this.signer.provider ?? this.provider;
+  }
+
+  // ---- Property verification ----
+
+  getListingFee() {
+    return this.propertyVerification.getListingFee();
+  }
+
+  // Charged on top of the listing fee for enhanced (level 2) KYC
+  getKycProcessingFee() {
+    return this.propertyVerification.kycProcessingFee();
+  }
+
+  async getLandlordProperties(owner: string) {
+    return toPlain(await this.propertyVerification.getLandlordProperties(owner));
+  }
+
+  async getPropertyDetails(id: number) {
+    return toPlain(await this.propertyVerification.getPropertyDetails(id));
+  }
+
+  async getPropertyDetailsBatch(ids: number[]) {
+    const details = await multicall(this.provider, ids.map(id => batchCall(this.propertyVerification, 'getPropertyDetails', [id])));
+    return details.map((p, i) => ({ id: ids[i], ...p }));
+  }
+
+  // Property IDs are sequential from 1; an empty owner marks the end of the list,
+  // so probe a page of IDs per multicall until one comes back empty
+  async getProperties(pageSize = 100) {
+    const properties: (PropertyDetails & { id: number })[] = [];
+    for (let start = 1; ; start += pageSize) {
+      const page = await this.getPropertyDetailsBatch(Array.from({ length: pageSize }, (_, i) => start + i));
+      const existing = page.filter(p => p.owner !== ZeroAddress);
+      properties.push(...existing);
+      if (existing.length < page.length) return properties;
+    }
+  }
+
+  async getVerifiedProperties(pageSize = 100) {
+    return (await this.getProperties(pageSize)).filter(p => p.isVerified && p.isActive);
+  }
+
+  /** Active listings waiting for an admin to verify them. */
+  async getPendingProperties(pageSize = 100) {
+    return (await this.getProperties(pageSize)).filter(p => !p.isVerified && p.isActive);
+  }
+
+  getKYCProofs(propertyIds: number[]) {
+    return multicall(this.provider, propertyIds.map(id => batchCall(this.propertyVerification, 'getKYCProof', [id])));
+  }
+
+  // The whole listing fee goes to the fee collector
+  async prepareSubmitProperty(
+    propertyAddress: string,
+    documentHash: string,
+    videoHash: string,
+    gpsCoordinates: string,
+    kycLevel: number,
+    fee: bigint
+  ): Promise<PreparedWrite> {
+    const provider = this.requireSigner();
+    const args = [propertyAddress, documentHash, videoHash, gpsCoordinates, kycLevel] as const;
+    const gas = await simulateWrite(provider, this.propertyVerification.submitProperty, args, fee);
+    const preview = buildCostPreview(fee, 100n, gas);
+    return {
+      preview,
+      send: () => this.propertyVerification.submitProperty(...args, { value: fee, gasLimit: preview.gasLimit }),
+    };
+  }
+
+  async submitProperty(...params: Parameters<TrustLeaseClient['prepareSubmitProperty']>) {
+    return (await this.prepareSubmitProperty(...params)).send();
+  }
+
+  // ---- Escrow ----
+
+  async getAgreement(agreementId: number) {
+    return toPlain(await this.escrow.getAgreement(agreementId));
+  }
+
+  getAgreements(agreementIds: number[]) {
+    return multicall(this.provider, agreementIds.map(id => batchCall(this.escrow, 'getAgreement', [id])));
+  }
+
+  async getTenantAgreements(tenant: string) {
+    return toPlain(await this.escrow.getTenantAgreements(tenant));
+  }
+
+  async getLandlordAgreements(landlord: string) {
+    return toPlain(await this.escrow.getLandlordAgreements(landlord));
+  }
+
+  async getRentPayments(agreementId: number) {
+    return toPlain(await this.escrow.getRentPayments(agreementId));
+  }
+
+  async getDispute(agreementId: number) {
+    return toPlain(await this.escrow.getDispute(agreementId));
+  }
+
+  // Every agreement has a dispute slot; one never raised comes back with createdAt 0
+  async getDisputes(agreementIds: number[]) {
+    const disputes = await multicall(this.provider, agreementIds.map(id => batchCall(this.escrow, 'getDispute', [id])));
+    return disputes.map((dispute, i) => ({ agreementId: agreementIds[i], ...dispute }));
+  }
+
+  async getFeeBreakdown(agreementId: number) {
+    return toPlain(await this.escrow.calculateFeeBreakdown(agreementId));
+  }
+
+  // Simulating first surfaces reverts such as "Landlord mismatch" before anything is signed
+  async prepareCreateAgreement(
+    propertyId: number,
+    landlord: string,
+    monthlyRent: bigint,
+    rentInterval: number,
+    startDate: number,
+    endDate: number,
+    metadataHash: string,
+    deposit: bigint
+  ): Promise<PreparedWrite> {
+    const provider = this.requireSigner();
+    const args = [propertyId, landlord, monthlyRent, rentInterval, startDate, endDate, metadataHash] as const;
+    const [gas, feePercent] = await Promise.all([
+      simulateWrite(provider, this.escrow.createAgreement, args, deposit),
+      this.escrow.platformFeePercent(),
+    ]);
+    const preview = buildCostPreview(deposit, feePercent, gas);
+    return {
+      preview,
+      send: () => this.escrow.createAgreement(...args, { value: deposit, gasLimit: preview.gasLimit }),
+    };
+  }
+
+  async createAgreement(...params: Parameters<TrustLeaseClient['prepareCreateAgreement']>) {
+    return (await this.prepareCreateAgreement(...params)).send();
+  }
+
+  async preparePayRent(agreementId: number, metadataHash: string, amount: bigint): Promise<PreparedWrite> {
+    const provider = this.requireSigner();
+    const args = [agreementId, metadataHash] as const;
+    const [gas, feePercent] = await Promise.all([
+      simulateWrite(provider, this.escrow.payRent, args, amount),
+      this.escrow.rentProcessingFeePercent(),
+    ]);
+    const preview = buildCostPreview(amount, feePercent, gas);
+    return {
+      preview,
+      send: () => this.escrow.payRent(...args, { value: amount, gasLimit: preview.gasLimit }),
+    };
+  }
+
+  async payRent(...params: Parameters<TrustLeaseClient['preparePayRent']>) {
+    return (await this.preparePayRent(...params)).send();
+  }
+
+  // ---- Rental receipts ----
+
+  async getTenantReceipts(tenant: string) {
+    return toPlain(await this.rentalReceipt.getTenantReceipts(tenant));
+  }
+
+  async getReceipt(receiptId: number) {
+    return toPlain(await this.rentalReceipt.getReceipt(receiptId));
+  }
+
+  async getReceipts(receiptIds: number[]) {
+    const receipts = await multicall(this.provider, receiptIds.map(id => batchCall(this.rentalReceipt, 'getReceipt', [id])));
+    return receipts.map((receipt, i) => ({ id: receiptIds[i], ...receipt }));
+  }
+}
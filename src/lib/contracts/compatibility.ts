@@ -0,0 +1,142 @@
+import { getAddress, Interface, type FunctionFragment, type Provider } from 'ethers';
+import { PropertyVerificationABI, RentalReceiptABI, TrustLeaseEscrowABI } from './generated/abis';
+import { connectRentalReceipt, connectTrustLeaseEscrow } from './index';
+import { CONTRACT_NAMES, type ChainDeployment, type ContractName } from './deployments';
+
+const EXPECTED_ABIS: Record<ContractName, Interface> = {
+  PropertyVerification: new Interface(PropertyVerificationABI),
+  TrustLeaseEscrow: new Interface(TrustLeaseEscrowABI),
+  RentalReceipt: new Interface(RentalReceiptABI),
+};
+
+// What the client calls, plus what the contracts call on each other: the escrow checks
+// properties on PropertyVerification and mints through RentalReceipt
+export const REQUIRED_FUNCTIONS: Record<ContractName, readonly string[]> = {
+  PropertyVerification: [
+    'submitProperty',
+    'getPropertyDetails',
+    'getLandlordProperties',
+    'getListingFee',
+    'isPropertyVerified',
+    'getPropertyOwner',
+  ],
+  TrustLeaseEscrow: [
+    'createAgreement',
+    'payRent',
+    'getAgreement',
+    'getTenantAgreements',
+    'getLandlordAgreements',
+    'getRentPayments',
+    'getDispute',
+    'calculateFeeBreakdown',
+    'platformFeePercent',
+    'rentProcessingFeePercent',
+    'propertyVerification',
+    'rentalReceipt',
+  ],
+  RentalReceipt: ['getReceipt', 'getTenantReceipts', 'mintReceipt', 'mintRentPaymentProof', 'MINTER_ROLE', 'hasRole'],
+};
+
+export type CompatibilityIssueKind = 'no-code' | 'abi-mismatch' | 'missing-function' | 'wiring' | 'minter-role';
+
+export interface CompatibilityIssue {
+  contract: ContractName;
+  kind: CompatibilityIssueKind;
+  message: string;
+}
+
+export interface CompatibilityReport {
+  chainId: number;
+  issues: CompatibilityIssue[];
+}
+
+// Signature plus return types: a changed return shape keeps the selector but breaks decoding
+const describeFunction = (fragment: FunctionFragment) =>
+  `${fragment.format('sighash')} returns (${fragment.outputs.map(output => output.format('sighash')).join(',')})`;
+
+// The Solidity dispatcher compares calldata against each selector pushed as an
+// immediate, PUSH4 unless the selector has leading zero bytes
+function dispatchesSelector(code: string, selector: string) {
+  const bytes = selector.slice(2).replace(/^(00)+/, '');
+  const push = (0x5f + bytes.length / 2).toString(16);
+  return code.toLowerCase().includes(push + bytes);
+}
+
+function checkFunctions(name: ContractName, deployment: ChainDeployment, code: string): CompatibilityIssue[] {
+  const issues: CompatibilityIssue[] = [];
+  const pinned = new Interface(deployment[name].abi);
+
+  for (const functionName of REQUIRED_FUNCTIONS[name]) {
+    const expected = EXPECTED_ABIS[name].getFunction(functionName)!;
+    const pinnedFragment = pinned.getFunction(expected.selector);
+    if (!pinnedFragment || describeFunction(pinnedFragment) !== describeFunction(expected)) {
+      issues.push({
+        contract: name,
+        kind: 'abi-mismatch',
+        message: `Pinned ABI ${pinnedFragment ? `declares ${describeFunction(pinnedFragment)}` : `has no ${expected.format('sighash')}`}, the app expects ${describeFunction(expected)}`,
+      });
+    }
+    if (!dispatchesSelector(code, expected.selector)) {
+      issues.push({
+        contract: name,
+        kind: 'missing-function',
+        message: `Deployed bytecode does not implement ${expected.format('sighash')} (${expected.selector})`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks a deployment against what the app was built for: code exists at every address,
+ * the pinned ABIs and deployed bytecode carry the functions the UI and the contracts rely
+ * on, the escrow points at the other two contracts and holds RentalReceipt's MINTER_ROLE.
+ * Resolves with the mismatches found; RPC failures reject.
+ */
+export async function checkDeploymentCompatibility(provider: Provider, deployment: ChainDeployment): Promise<CompatibilityReport> {
+  const { chainId } = await provider.getNetwork();
+  const issues: CompatibilityIssue[] = [];
+  const codes = await Promise.all(CONTRACT_NAMES.map(name => provider.getCode(deployment[name].address)));
+
+  CONTRACT_NAMES.forEach((name, i) => {
+    if (codes[i] === '0x') {
+      issues.push({ contract: name, kind: 'no-code', message: `No contract deployed at ${deployment[name].address}` });
+    } else {
+      issues.push(...checkFunctions(name, deployment, codes[i]));
+    }
+  });
+
+  // Role and wiring reads only make sense once both contracts answer to the expected ABI
+  if (issues.some(issue => issue.contract !== 'PropertyVerification')) {
+    return { chainId: Number(chainId), issues };
+  }
+
+  const escrowAddress = deployment.TrustLeaseEscrow.address;
+  const escrow = connectTrustLeaseEscrow(escrowAddress, provider);
+  const rentalReceipt = connectRentalReceipt(deployment.RentalReceipt.address, provider);
+  const [linkedVerification, linkedReceipt, minterRole] = await Promise.all([
+    escrow.propertyVerification(),
+    escrow.rentalReceipt(),
+    rentalReceipt.MINTER_ROLE(),
+  ]);
+
+  for (const [name, linked] of [['PropertyVerification', linkedVerification], ['RentalReceipt', linkedReceipt]] as const) {
+    if (getAddress(linked) !== getAddress(deployment[name].address)) {
+      issues.push({
+        contract: 'TrustLeaseEscrow',
+        kind: 'wiring',
+        message: `Escrow uses ${name} at ${linked}, but the app is configured with ${deployment[name].address}`,
+      });
+    }
+  }
+
+  if (!(await rentalReceipt.hasRole(minterRole, escrowAddress))) {
+    issues.push({
+      contract: 'RentalReceipt',
+      kind: 'minter-role',
+      message: `Escrow ${escrowAddress} has not been granted MINTER_ROLE, so agreements and rent payments cannot mint receipts`,
+    });
+  }
+
+  return { chainId: Number(chainId), issues };
+}
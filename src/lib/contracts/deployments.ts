@@ -0,0 +1,94 @@
+import type { InterfaceAbi } from 'ethers';
+
+export const CONTRACT_NAMES = ['PropertyVerification', 'TrustLeaseEscrow', 'RentalReceipt'] as const;
+
+export type ContractName = typeof CONTRACT_NAMES[number];
+
+/** Shape of a Remix pinned-contract file under `.deploys/pinned-contracts/<chainId>/`. */
+export interface PinnedContractManifest {
+  name: string;
+  address: string;
+  abi: InterfaceAbi;
+  filePath?: string;
+  pinnedAt?: number;
+  /** Block the contract was created in; where event indexing starts, since public RPCs cannot search history for it. */
+  deployBlock?: number;
+}
+
+export interface ContractDeployment {
+  address: string;
+  abi: InterfaceAbi;
+  pinnedAt?: number;
+  deployBlock?: number;
+}
+
+export type ChainDeployment = Record<ContractName, ContractDeployment>;
+
+export class DeploymentNotFoundError extends Error {
+  constructor(public chainId: number, public missing: ContractName[] = [...CONTRACT_NAMES]) {
+    super(
+      missing.length === CONTRACT_NAMES.length
+        ? `TrustLease is not deployed on chain ${chainId}`
+        : `TrustLease deployment on chain ${chainId} is missing ${missing.join(', ')}`
+    );
+    this.name = 'DeploymentNotFoundError';
+  }
+}
+
+export interface DeploymentRegistry {
+  chainIds: number[];
+  has(chainId: number): boolean;
+  resolve(chainId: number): ChainDeployment;
+}
+
+/**
+ * Builds a registry from manifests grouped by chain ID. When a contract was pinned
+ * more than once on the same chain, the most recently pinned deployment wins.
+ */
+export function createDeploymentRegistry(manifestsByChain: Record<number, PinnedContractManifest[]>): DeploymentRegistry {
+  const deployments = new Map<number, Partial<ChainDeployment>>();
+
+  for (const [chainKey, manifests] of Object.entries(manifestsByChain)) {
+    const chain: Partial<ChainDeployment> = {};
+    for (const manifest of manifests) {
+      if (!CONTRACT_NAMES.includes(manifest.name as ContractName)) continue;
+      const name = manifest.name as ContractName;
+      if (chain[name] && (chain[name].pinnedAt ?? 0) > (manifest.pinnedAt ?? 0)) continue;
+      chain[name] = { address: manifest.address, abi: manifest.abi, pinnedAt: manifest.pinnedAt, deployBlock: manifest.deployBlock };
+    }
+    deployments.set(Number(chainKey), chain);
+  }
+
+  const resolve = (chainId: number): ChainDeployment => {
+    const chain = deployments.get(chainId);
+    if (!chain) throw new DeploymentNotFoundError(chainId);
+    const missing = CONTRACT_NAMES.filter(name => !chain[name]);
+    if (missing.length > 0) throw new DeploymentNotFoundError(chainId, missing);
+    return chain as ChainDeployment;
+  };
+
+  return {
+    chainIds: [...deployments.keys()],
+    has: (chainId) => {
+      const chain = deployments.get(chainId);
+      return !!chain && CONTRACT_NAMES.every(name => chain[name]);
+    },
+    resolve,
+  };
+}
+
+// "/.deploys/pinned-contracts/545/0xabc.json" -> 545
+export function chainIdFromManifestPath(filePath: string) {
+  const match = /pinned-contracts\/(\d+)\//.exec(filePath);
+  if (!match) throw new Error(`Cannot read chain ID from manifest path ${filePath}`);
+  return Number(match[1]);
+}
+
+export function groupManifestsByChain(files: Record<string, PinnedContractManifest>) {
+  const grouped: Record<number, PinnedContractManifest[]> = {};
+  for (const [filePath, manifest] of Object.entries(files)) {
+    const chainId = chainIdFromManifestPath(filePath);
+    (grouped[chainId] ||= []).push(manifest);
+  }
+  return grouped;
+}
@@ -0,0 +1,282 @@
+import { Interface, isCallException, isError } from 'ethers';
+import { PropertyVerificationABI, RentalReceiptABI, TrustLeaseEscrowABI } from './generated/abis';
+import { DeploymentNotFoundError } from './deployments';
+import { WrongNetworkError } from '../networks';
+
+interface ErrorCopy {
+  title: string;
+  message: string;
+  fix?: string;
+}
+
+/** Friendly copy for every `require` message in the TrustLease contracts. */
+export const REVERT_MESSAGES = {
+  // PropertyVerification
+  'Property address required': { title: 'Missing property address', message: 'The listing needs a physical address.', fix: 'Fill in the property address and submit again.' },
+  'Document hash required': { title: 'Missing documents', message: 'The listing needs an IPFS hash for the ownership documents.', fix: 'Upload the documents and paste their IPFS hash.' },
+  'Video hash required': { title: 'Missing video walkthrough', message: 'The listing needs an IPFS hash for the video walkthrough.', fix: 'Upload the video and paste its IPFS hash.' },
+  'GPS coordinates required': { title: 'Missing GPS location', message: 'The listing needs GPS coordinates.', fix: 'Add the coordinates from the video metadata.' },
+  'Invalid KYC level': { title: 'Invalid KYC level', message: 'KYC level must be Basic (1) or Enhanced (2).' },
+  'Insufficient listing fee': { title: 'Listing fee too low', message: 'The payment sent does not cover the listing fee.', fix: 'Send the full listing fee (plus the KYC fee for enhanced verification).' },
+  'Sponsorship pool depleted': { title: 'Sponsorship unavailable', message: 'Your listing fee is sponsored, but the sponsorship pool has run out.', fix: 'Try again later or contact TrustLease support.' },
+  'Property does not exist': { title: 'Property not found', message: 'There is no property with this ID.', fix: 'Check the property ID.' },
+  'Property already verified': { title: 'Already verified', message: 'This property has already been verified.' },
+  'Property is deactivated': { title: 'Property deactivated', message: 'This property has been deactivated and cannot be verified.' },
+  'Property already deactivated': { title: 'Already deactivated', message: 'This property is already deactivated.' },
+  'Persona ID required': { title: 'Missing Persona ID', message: 'A Persona verification ID is required to link KYC.' },
+  'Video timestamp required': { title: 'Missing video timestamp', message: 'A video timestamp is required to link KYC.' },
+  'Government ID not verified': { title: 'Government ID not verified', message: 'Enhanced KYC requires a verified government ID.', fix: 'Link a KYC proof with the government ID verified first.' },
+  'Address proof not verified': { title: 'Address proof not verified', message: 'Enhanced KYC requires verified address documents.', fix: 'Link a KYC proof with the address proof verified first.' },
+  'Property badges are non-transferable': { title: 'Badge is non-transferable', message: 'Property verification badges cannot be transferred.' },
+  'Invalid user address': { title: 'Invalid address', message: 'The wallet address is not valid.' },
+  'No funds to withdraw': { title: 'Nothing to withdraw', message: 'The sponsorship pool is empty.' },
+  'Invalid fee collector': { title: 'Invalid fee collector', message: 'The fee collector must be a non-zero address.' },
+
+  // TrustLeaseEscrow
+  'Deposit must be greater than zero': { title: 'Deposit required', message: 'A security deposit must be locked to create an agreement.', fix: 'Enter a deposit amount above zero.' },
+  'Monthly rent must be greater than zero': { title: 'Rent required', message: 'Monthly rent must be above zero.', fix: 'Enter the agreed monthly rent.' },
+  'Invalid rent interval': { title: 'Invalid rent interval', message: 'Rent must be due between once a day and once a year.' },
+  'Property not verified': { title: 'Property not verified', message: 'Agreements can only be created for verified, active properties.', fix: 'Pick a property marked "Verified" in the listings.' },
+  'Landlord mismatch': { title: 'Landlord mismatch', message: 'The landlord address does not own this property.', fix: 'Copy the landlord address from the property listing.' },
+  'Landlord cannot be tenant': { title: 'Landlord cannot be tenant', message: 'You cannot rent your own property.', fix: 'Use a different wallet as the tenant.' },
+  'Invalid rental period': { title: 'Invalid rental period', message: 'The end date must be after the start date.', fix: 'Pick an end date after the start date.' },
+  'Start date must be in future': { title: 'Start date in the past', message: 'The lease must start in the future.', fix: 'Pick a start date from tomorrow onwards.' },
+  'Not the tenant': { title: 'Not the tenant', message: 'Only the tenant on this agreement can do this.', fix: 'Switch to the tenant wallet.' },
+  'Not the landlord': { title: 'Not the landlord', message: 'Only the landlord on this agreement can do this.', fix: 'Switch to the landlord wallet.' },
+  'Agreement not pending': { title: 'Agreement not pending', message: 'This agreement has already been activated, cancelled or disputed.' },
+  'Already confirmed': { title: 'Already confirmed', message: 'You have already confirmed this agreement.' },
+  'Agreement not active': { title: 'Agreement not active', message: 'This agreement is not active yet, or has already ended.', fix: 'Both tenant and landlord must confirm before rent can be paid.' },
+  'Insufficient rent amount': { title: 'Rent amount too low', message: 'The payment is less than the agreed rent.', fix: 'Pay at least the full rent amount.' },
+  'Lease has ended': { title: 'Lease has ended', message: 'Rent can no longer be paid on this agreement.' },
+  'Not authorized': { title: 'Not authorized', message: 'Only the tenant, landlord or platform can do this.' },
+  'Cooldown: Check once per day': { title: 'Already checked today', message: 'Overdue rent can only be checked once per day for each agreement.', fix: 'Try again in 24 hours.' },
+  'Still within grace period': { title: 'Still in grace period', message: 'Rent is not overdue until the grace period ends.' },
+  'Agreement not releasable': { title: 'Deposit not releasable', message: 'The deposit can only be released on an active or completed agreement.' },
+  'Dispute period not ended': { title: 'Dispute window open', message: 'The deposit cannot be released while the dispute period is running.' },
+  'Lease not ended': { title: 'Lease still running', message: 'The deposit can only be released after the lease ends.' },
+  'Agreement not disputable': { title: 'Cannot dispute', message: 'Only pending or active agreements can be disputed.' },
+  'Reason required': { title: 'Reason required', message: 'Describe the problem before raising a dispute.' },
+  'No active dispute': { title: 'No active dispute', message: 'There is no open dispute on this agreement.' },
+  'Dispute already resolved': { title: 'Dispute resolved', message: 'This dispute has already been resolved.' },
+  'Evidence hash required': { title: 'Evidence required', message: 'Upload evidence before submitting it.' },
+  'Agreement not disputed': { title: 'Not disputed', message: 'This agreement has no dispute to resolve.' },
+  'Only tenant can cancel': { title: 'Tenant only', message: 'Only the tenant can cancel a pending agreement.' },
+  'Invalid status for termination': { title: 'Cannot terminate', message: 'Only active or disputed agreements can be terminated.' },
+  'Refund exceeds total paid': { title: 'Refund too large', message: 'The refund is more than the tenant has paid in.' },
+  'Invalid tenant address': { title: 'Invalid tenant', message: 'The tenant address is not valid.' },
+  'Must send funds': { title: 'No funds sent', message: 'Send an amount above zero to fund the pool.' },
+  'Fee too high': { title: 'Fee too high', message: 'The new fee is above the contract maximum.' },
+  'Invalid period': { title: 'Invalid period', message: 'The period is outside the allowed range.' },
+  'Invalid grace period': { title: 'Invalid grace period', message: 'The grace period must be between 1 and 7 days.' },
+  'Invalid property verification address': { title: 'Invalid PropertyVerification', message: 'The PropertyVerification contract address is not valid.' },
+  'Invalid rental receipt address': { title: 'Invalid RentalReceipt', message: 'The RentalReceipt contract address is not valid.' },
+  'Invalid platform wallet': { title: 'Invalid platform wallet', message: 'The platform wallet must be a non-zero address.' },
+
+  // RentalReceipt
+  'Invalid landlord address': { title: 'Invalid landlord', message: 'The landlord address is not valid.' },
+  'Rent must be greater than zero': { title: 'Rent required', message: 'Rent must be above zero.' },
+  'Metadata hash required': { title: 'Metadata required', message: 'A metadata hash is required to mint the receipt.' },
+  'Receipt does not exist': { title: 'Receipt not found', message: 'There is no receipt with this ID.' },
+  'Rental receipts are non-transferable': { title: 'Receipt is non-transferable', message: 'Rent receipts cannot be transferred.' },
+  'Invalid escrow address': { title: 'Invalid escrow', message: 'The escrow contract address is not valid.' },
+} satisfies Record<string, ErrorCopy>;
+
+export type RevertReason = keyof typeof REVERT_MESSAGES;
+
+// OpenZeppelin custom errors the contracts can raise
+const CUSTOM_ERROR_MESSAGES: Record<string, ErrorCopy> = {
+  OwnableUnauthorizedAccount: { title: 'Admin only', message: 'Only the TrustLease platform owner can do this.' },
+  OwnableInvalidOwner: { title: 'Invalid owner', message: 'Ownership cannot be transferred to the zero address.' },
+  AccessControlUnauthorizedAccount: { title: 'Missing role', message: 'This wallet does not have the role required for this action.' },
+  EnforcedPause: { title: 'Platform paused', message: 'TrustLease is temporarily paused for maintenance.', fix: 'Try again later.' },
+  ReentrancyGuardReentrantCall: { title: 'Transaction rejected', message: 'The contract rejected a re-entrant call.' },
+  AddressInsufficientBalance: { title: 'Transfer failed', message: 'The contract does not hold enough FLOW to complete the transfer.' },
+  InsufficientBalance: { title: 'Transfer failed', message: 'The contract does not hold enough FLOW to complete the transfer.' },
+  FailedInnerCall: { title: 'Transfer failed', message: 'A FLOW transfer inside the contract failed.' },
+  FailedCall: { title: 'Transfer failed', message: 'A FLOW transfer inside the contract failed.' },
+};
+
+export type TrustLeaseError =
+  | (ErrorCopy & { kind: 'revert'; reason: RevertReason; cause: unknown })
+  | (ErrorCopy & { kind: 'custom-error'; errorName: string; cause: unknown })
+  | (ErrorCopy & { kind: 'unknown-revert'; reason: string | null; cause: unknown })
+  | (ErrorCopy & { kind: 'user-rejected'; cause: unknown })
+  | (ErrorCopy & { kind: 'replaced'; reason: 'repriced' | 'cancelled' | 'replaced'; hash: string; cause: unknown })
+  | (ErrorCopy & { kind: 'insufficient-funds'; cause: unknown })
+  | (ErrorCopy & { kind: 'no-wallet'; cause: unknown })
+  | (ErrorCopy & { kind: 'not-deployed'; chainId: number; cause: unknown })
+  | (ErrorCopy & { kind: 'wrong-network'; chainId: number; expectedChainId: number; cause: unknown })
+  | (ErrorCopy & { kind: 'rpc'; code: string | number | null; cause: unknown })
+  | (ErrorCopy & { kind: 'unknown'; cause: unknown });
+
+export type TrustLeaseErrorKind = TrustLeaseError['kind'];
+
+export interface DecodeErrorOptions {
+  /** Human-readable amount the action needs, e.g. "0.1 FLOW", used in the insufficient-funds fix. */
+  required?: string;
+}
+
+const contractErrors = new Interface([
+  ...PropertyVerificationABI.filter(entry => entry.type === 'error'),
+  ...TrustLeaseEscrowABI.filter(entry => entry.type === 'error'),
+  ...RentalReceiptABI.filter(entry => entry.type === 'error'),
+]);
+
+interface ErrorLike {
+  code?: string | number;
+  message?: string;
+  shortMessage?: string;
+  data?: unknown;
+  error?: ErrorLike;
+  info?: { error?: ErrorLike };
+}
+
+// Wallets and ethers nest the original RPC error a few levels deep
+function unwrap(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  let current = error as ErrorLike | undefined;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current);
+    const data = current.data && typeof current.data === 'object' ? current.data as ErrorLike : undefined;
+    current = current.info?.error ?? current.error ?? data;
+  }
+  return chain;
+}
+
+function revertReasonFrom(error: unknown, chain: ErrorLike[]): { reason: string | null; errorName: string | null } {
+  if (isCallException(error)) {
+    // ethers also fills `reason` for custom errors, with their signature
+    const name = error.revert?.name;
+    if (name && name !== 'Error' && name !== 'Panic') return { reason: null, errorName: name };
+    if (error.reason) return { reason: error.reason, errorName: null };
+  }
+
+  for (const item of chain) {
+    if (typeof item.data === 'string' && item.data.startsWith('0x') && item.data.length >= 10) {
+      try {
+        const parsed = contractErrors.parseError(item.data);
+        // parseError also decodes the built-in Error(string) a `require` reverts with
+        if (parsed?.name === 'Error') return { reason: String(parsed.args[0]), errorName: null };
+        if (parsed && parsed.name !== 'Panic') return { reason: null, errorName: parsed.name };
+      } catch {
+        // Not one of our custom errors
+      }
+    }
+    const match = /execution reverted:?\s*(?:reason="?)?([^"\n]+?)"?(?:,|$|\n)/i.exec(item.message || '');
+    if (match) return { reason: match[1].trim(), errorName: null };
+  }
+  return { reason: null, errorName: null };
+}
+
+const matches = (chain: ErrorLike[], test: (item: ErrorLike) => boolean) => chain.some(test);
+
+/**
+ * Turns anything thrown by a wallet, ethers or a TrustLease contract into a typed
+ * error with copy that can go straight into a toast.
+ */
+export function decodeError(error: unknown, options: DecodeErrorOptions = {}): TrustLeaseError {
+  if (error instanceof DeploymentNotFoundError) {
+    return {
+      kind: 'not-deployed',
+      chainId: error.chainId,
+      title: 'Unsupported network',
+      message: error.message,
+      fix: 'Switch your wallet to a network where TrustLease is deployed.',
+      cause: error,
+    };
+  }
+
+  if (error instanceof WrongNetworkError) {
+    return {
+      kind: 'wrong-network',
+      chainId: error.chainId,
+      expectedChainId: error.expected.chainId,
+      title: 'Wrong network',
+      message: `Your wallet is not on ${error.expected.name}, the network selected in TrustLease.`,
+      fix: `Switch your wallet to ${error.expected.name} and try again.`,
+      cause: error,
+    };
+  }
+
+  // Sped-up transactions resolve normally, so this is a cancel or an unrelated transaction on the same nonce
+  if (isError(error, 'TRANSACTION_REPLACED')) {
+    const cancelled = error.reason === 'cancelled';
+    return {
+      kind: 'replaced',
+      reason: error.reason,
+      hash: error.replacement.hash,
+      title: cancelled ? 'Transaction cancelled' : 'Transaction replaced',
+      message: cancelled
+        ? 'The transaction was cancelled before it confirmed, so nothing changed on-chain.'
+        : 'Another transaction from your wallet took its place before it confirmed.',
+      cause: error,
+    };
+  }
+
+  const chain = unwrap(error);
+
+  if (isError(error, 'ACTION_REJECTED') || matches(chain, e => e.code === 4001 || e.code === 'ACTION_REJECTED')) {
+    return { kind: 'user-rejected', title: 'Transaction cancelled', message: 'You rejected the request in your wallet.', cause: error };
+  }
+
+  if (error instanceof Error && error.message === 'No wallet') {
+    return {
+      kind: 'no-wallet',
+      title: 'No wallet found',
+      message: 'This action needs a browser wallet such as MetaMask.',
+      fix: 'Install a wallet extension and connect it.',
+      cause: error,
+    };
+  }
+
+  if (isError(error, 'INSUFFICIENT_FUNDS') || matches(chain, e => /insufficient funds/i.test(e.message || ''))) {
+    return {
+      kind: 'insufficient-funds',
+      title: 'Not enough FLOW',
+      message: 'Your wallet balance cannot cover this transaction and its gas.',
+      fix: options.required ? `You need ${options.required} plus gas.` : 'Top up your wallet and try again.',
+      cause: error,
+    };
+  }
+
+  const { reason, errorName } = revertReasonFrom(error, chain);
+  if (reason && reason in REVERT_MESSAGES) {
+    return { kind: 'revert', reason: reason as RevertReason, ...REVERT_MESSAGES[reason as RevertReason], cause: error };
+  }
+  if (errorName) {
+    const copy = CUSTOM_ERROR_MESSAGES[errorName] ?? { title: 'Transaction failed', message: `The contract rejected the call (${errorName}).` };
+    return { kind: 'custom-error', errorName, ...copy, cause: error };
+  }
+  if (reason || isCallException(error)) {
+    return {
+      kind: 'unknown-revert',
+      reason,
+      title: 'Transaction failed',
+      message: reason ? `The contract rejected the call: ${reason}` : 'The contract rejected the call.',
+      cause: error,
+    };
+  }
+
+  const rpcError = chain.find(e => typeof e.code === 'number' && (e.code <= -32000 || e.code === 4100 || e.code === 4900 || e.code === 4901));
+  if (rpcError || isError(error, 'NETWORK_ERROR') || isError(error, 'SERVER_ERROR') || isError(error, 'TIMEOUT')) {
+    const code = rpcError?.code ?? chain[0]?.code ?? null;
+    return {
+      kind: 'rpc',
+      code,
+      title: code === -32002 ? 'Wallet request pending' : 'Network error',
+      message: code === -32002
+        ? 'Your wallet already has a request waiting for approval.'
+        : 'The Flow EVM node did not respond as expected.',
+      fix: code === -32002 ? 'Open your wallet to approve or reject it.' : 'Check your connection and try again.',
+      cause: error,
+    };
+  }
+
+  const message = chain[0]?.shortMessage || chain[0]?.message;
+  return { kind: 'unknown', title: 'Something went wrong', message: message || 'Please try again.', cause: error };
+}
+
+/** Description line for toasts: the message followed by the suggested fix. */
+export function describeError(error: TrustLeaseError) {
+  return error.fix ? `${error.message} ${error.fix}` : error.message;
+}
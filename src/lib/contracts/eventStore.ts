@@ -0,0 +1,152 @@
+import type { ContractName } from './deployments';
+import type { PropertyVerificationEvents, RentalReceiptEvents, TrustLeaseEscrowEvents } from './generated/types';
+
+export interface ContractEvents {
+  PropertyVerification: PropertyVerificationEvents;
+  TrustLeaseEscrow: TrustLeaseEscrowEvents;
+  RentalReceipt: RentalReceiptEvents;
+}
+
+interface EventRecordBase {
+  /** `<chainId>:<transactionHash>:<logIndex>`, unique per log. */
+  id: string;
+  chainId: number;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** Block timestamp in seconds. */
+  timestamp: number;
+  /**
+   * Lookup keys derived from the args, e.g. `545:agreement:3` or `545:address:0xabc…`,
+   * so timelines and search can pull every event touching one entity.
+   */
+  entities: string[];
+}
+
+/** A decoded log from one of the TrustLease contracts, discriminated by contract and event name. */
+export type IndexedEvent = {
+  [C in ContractName]: {
+    [E in keyof ContractEvents[C] & string]: EventRecordBase & { contract: C; event: E; args: ContractEvents[C][E] };
+  }[keyof ContractEvents[C] & string];
+}[ContractName];
+
+export type EventOf<C extends ContractName, E extends keyof ContractEvents[C] & string> =
+  Extract<IndexedEvent, { contract: C; event: E }>;
+
+export interface SyncCursor {
+  chainId: number;
+  /** Highest block whose logs are fully stored. */
+  lastBlock: number;
+  /**
+   * Hashes of the last few chunk ends, oldest first, the last one being `lastBlock`. A
+   * different hash on resume means a reorg, and the newest one still matching is where to rewind to.
+   */
+  checkpoints?: Array<{ block: number; hash: string }>;
+  /** Contract addresses the cursor was built for; a redeploy invalidates the stored history. */
+  addresses: Record<ContractName, string>;
+}
+
+export interface EventQuery {
+  contract?: ContractName;
+  event?: string;
+  /** Entity key without the chain prefix, e.g. `agreement:3` or `address:0xabc…`. */
+  entity?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+const DB_NAME = 'trustlease-events';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb() {
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      const events = db.createObjectStore('events', { keyPath: 'id' });
+      events.createIndex('byBlock', ['chainId', 'blockNumber', 'logIndex']);
+      events.createIndex('byEntity', 'entities', { multiEntry: true });
+      db.createObjectStore('cursors', { keyPath: 'chainId' });
+    };
+    dbPromise = request(open);
+  }
+  return dbPromise;
+}
+
+export async function getCursor(chainId: number): Promise<SyncCursor | undefined> {
+  const db = await openDb();
+  return request(db.transaction('cursors').objectStore('cursors').get(chainId));
+}
+
+/** Stores a chunk of events and advances the cursor in one transaction, so a crash never skips logs. */
+export async function putEvents(cursor: SyncCursor, events: IndexedEvent[]) {
+  const db = await openDb();
+  const tx = db.transaction(['events', 'cursors'], 'readwrite');
+  const store = tx.objectStore('events');
+  events.forEach(event => store.put(event));
+  tx.objectStore('cursors').put(cursor);
+  await done(tx);
+}
+
+/** Moves the cursor back and deletes the events stored after its new `lastBlock`. */
+export async function rewindChain(cursor: SyncCursor) {
+  const db = await openDb();
+  const tx = db.transaction(['events', 'cursors'], 'readwrite');
+  const range = IDBKeyRange.bound([cursor.chainId, cursor.lastBlock + 1, -Infinity], [cursor.chainId, Infinity, Infinity]);
+  const keys = await request(tx.objectStore('events').index('byBlock').getAllKeys(range));
+  keys.forEach(key => tx.objectStore('events').delete(key));
+  tx.objectStore('cursors').put(cursor);
+  await done(tx);
+}
+
+export async function clearChain(chainId: number) {
+  const db = await openDb();
+  const tx = db.transaction(['events', 'cursors'], 'readwrite');
+  const range = IDBKeyRange.bound([chainId, -Infinity, -Infinity], [chainId, Infinity, Infinity]);
+  const index = tx.objectStore('events').index('byBlock');
+  const keys = await request(index.getAllKeys(range));
+  keys.forEach(key => tx.objectStore('events').delete(key));
+  tx.objectStore('cursors').delete(chainId);
+  await done(tx);
+}
+
+/** Returns stored events for a chain in chain order, filtered by the query. */
+export async function queryEvents(chainId: number, query: EventQuery = {}): Promise<IndexedEvent[]> {
+  const db = await openDb();
+  const store = db.transaction('events').objectStore('events');
+
+  const events: IndexedEvent[] = query.entity
+    ? await request(store.index('byEntity').getAll(`${chainId}:${query.entity}`))
+    : await request(store.index('byBlock').getAll(IDBKeyRange.bound(
+      [chainId, query.fromBlock ?? -Infinity, -Infinity],
+      [chainId, query.toBlock ?? Infinity, Infinity],
+    )));
+
+  return events
+    .filter(e =>
+      (!query.contract || e.contract === query.contract) &&
+      (!query.event || e.event === query.event) &&
+      (query.fromBlock === undefined || e.blockNumber >= query.fromBlock) &&
+      (query.toBlock === undefined || e.blockNumber <= query.toBlock)
+    )
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
@@ -0,0 +1,459 @@
+// Auto-generated by scripts/generate-contracts.ts from artifacts/*.json. Do not edit by hand.
+
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ConstantContractMethod, ContractTransactionResponse } from 'ethers';
+
+// ---- Structs ----
+
+export interface FeeBreakdown {
+  depositAmount: bigint;
+  totalRentPaid: bigint;
+  platformFeeOnDeposit: bigint;
+  platformFeeOnRent: bigint;
+  listingFee: bigint;
+  totalGasSponsored: bigint;
+  netToLandlord: bigint;
+  netToTenant: bigint;
+}
+
+export interface RentalAgreement {
+  agreementId: bigint;
+  propertyId: bigint;
+  tenant: string;
+  landlord: string;
+  depositAmount: bigint;
+  monthlyRent: bigint;
+  rentInterval: bigint;
+  startDate: bigint;
+  endDate: bigint;
+  createdAt: bigint;
+  status: bigint;
+  metadataHash: string;
+  tenantConfirmed: boolean;
+  landlordConfirmed: boolean;
+  disputeDeadline: bigint;
+  nextRentDueDate: bigint;
+  overdueGracePeriod: bigint;
+  totalRentPaid: bigint;
+}
+
+export interface RentPayment {
+  agreementId: bigint;
+  amount: bigint;
+  paidDate: bigint;
+  periodStart: bigint;
+  periodEnd: bigint;
+  status: bigint;
+}
+
+// ---- Multi-value return types ----
+
+export interface KYCProof {
+  personaVerificationId: string;
+  videoTimestamp: string;
+  governmentIdVerified: boolean;
+  addressProofVerified: boolean;
+}
+
+export interface PropertyDetails {
+  owner: string;
+  propertyAddress: string;
+  documentHash: string;
+  videoHash: string;
+  gpsCoordinates: string;
+  verificationDate: bigint;
+  isVerified: boolean;
+  isActive: boolean;
+  kycLevel: bigint;
+}
+
+export interface KycProofsOutput {
+  personaVerificationId: string;
+  videoTimestamp: string;
+  governmentIdVerified: boolean;
+  addressProofVerified: boolean;
+}
+
+export interface PropertiesOutput {
+  owner: string;
+  propertyAddress: string;
+  documentHash: string;
+  videoHash: string;
+  gpsCoordinates: string;
+  verificationDate: bigint;
+  isVerified: boolean;
+  isActive: boolean;
+  kycLevel: bigint;
+}
+
+export interface AgreementsOutput {
+  agreementId: bigint;
+  propertyId: bigint;
+  tenant: string;
+  landlord: string;
+  depositAmount: bigint;
+  monthlyRent: bigint;
+  rentInterval: bigint;
+  startDate: bigint;
+  endDate: bigint;
+  createdAt: bigint;
+  status: bigint;
+  metadataHash: string;
+  tenantConfirmed: boolean;
+  landlordConfirmed: boolean;
+  disputeDeadline: bigint;
+  nextRentDueDate: bigint;
+  overdueGracePeriod: bigint;
+  totalRentPaid: bigint;
+}
+
+export interface DisputesOutput {
+  agreementId: bigint;
+  initiator: string;
+  reason: string;
+  createdAt: bigint;
+  resolved: boolean;
+  winner: string;
+  isRentDispute: boolean;
+}
+
+export interface Dispute {
+  initiator: string;
+  reason: string;
+  evidenceHashes: string[];
+  createdAt: bigint;
+  resolved: boolean;
+  winner: string;
+  isRentDispute: boolean;
+}
+
+export interface RentPaymentsOutput {
+  agreementId: bigint;
+  amount: bigint;
+  paidDate: bigint;
+  periodStart: bigint;
+  periodEnd: bigint;
+  status: bigint;
+}
+
+export interface Receipt {
+  receiptType: bigint;
+  tenant: string;
+  landlord: string;
+  propertyId: bigint;
+  amount: bigint;
+  startDate: bigint;
+  endDate: bigint;
+  issuedDate: bigint;
+  metadataHash: string;
+  linkedAgreementId: bigint;
+}
+
+export interface ReceiptsOutput {
+  receiptType: bigint;
+  tenant: string;
+  landlord: string;
+  propertyId: bigint;
+  amount: bigint;
+  startDate: bigint;
+  endDate: bigint;
+  issuedDate: bigint;
+  metadataHash: string;
+  linkedAgreementId: bigint;
+}
+
+// ---- Events ----
+
+/** Decoded arguments of every PropertyVerification event, keyed by event name. */
+export interface PropertyVerificationEvents {
+  Approval: {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  };
+  ApprovalForAll: {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  };
+  GasSponsorshipGranted: {
+    user: string;
+  };
+  KYCProofLinked: {
+    propertyId: bigint;
+    personaVerificationId: string;
+  };
+  ListingFeeUpdated: {
+    oldFee: bigint;
+    newFee: bigint;
+  };
+  OwnershipTransferred: {
+    previousOwner: string;
+    newOwner: string;
+  };
+  PropertyDeactivated: {
+    propertyId: bigint;
+    reason: string;
+  };
+  PropertySubmitted: {
+    propertyId: bigint;
+    landlord: string;
+    propertyAddress: string;
+    kycLevel: bigint;
+  };
+  PropertyVerified: {
+    propertyId: bigint;
+    verifier: string;
+    kycLevel: bigint;
+  };
+  Transfer: {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  };
+}
+
+/** Decoded arguments of every TrustLeaseEscrow event, keyed by event name. */
+export interface TrustLeaseEscrowEvents {
+  AgreementCancelled: {
+    agreementId: bigint;
+  };
+  AgreementCreated: {
+    agreementId: bigint;
+    propertyId: bigint;
+    tenant: string;
+    landlord: string;
+    depositAmount: bigint;
+    monthlyRent: bigint;
+    rentInterval: bigint;
+  };
+  AgreementTerminated: {
+    agreementId: bigint;
+    refundAmount: bigint;
+  };
+  DepositReleased: {
+    agreementId: bigint;
+    amount: bigint;
+    platformFee: bigint;
+  };
+  DisputeRaised: {
+    agreementId: bigint;
+    initiator: string;
+    reason: string;
+    isRentDispute: boolean;
+  };
+  DisputeResolved: {
+    agreementId: bigint;
+    winner: string;
+  };
+  EvidenceSubmitted: {
+    agreementId: bigint;
+    evidenceHash: string;
+  };
+  FeeBreakdownCalculated: {
+    agreementId: bigint;
+    landlordNet: bigint;
+    platformTotal: bigint;
+  };
+  GasSubsidyGranted: {
+    tenant: string;
+  };
+  LandlordConfirmed: {
+    agreementId: bigint;
+  };
+  OwnershipTransferred: {
+    previousOwner: string;
+    newOwner: string;
+  };
+  Paused: {
+    account: string;
+  };
+  RentOverdue: {
+    agreementId: bigint;
+    daysOverdue: bigint;
+  };
+  RentPaid: {
+    agreementId: bigint;
+    amount: bigint;
+    periodStart: bigint;
+    periodEnd: bigint;
+    nextDueDate: bigint;
+  };
+  TenantConfirmed: {
+    agreementId: bigint;
+  };
+  TenantRefunded: {
+    agreementId: bigint;
+    amount: bigint;
+  };
+  Unpaused: {
+    account: string;
+  };
+}
+
+/** Decoded arguments of every RentalReceipt event, keyed by event name. */
+export interface RentalReceiptEvents {
+  Approval: {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  };
+  ApprovalForAll: {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  };
+  ReceiptMinted: {
+    receiptId: bigint;
+    receiptType: bigint;
+    tenant: string;
+    landlord: string;
+    propertyId: bigint;
+    amount: bigint;
+    agreementId: bigint;
+  };
+  RoleAdminChanged: {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  };
+  RoleGranted: {
+    role: string;
+    account: string;
+    sender: string;
+  };
+  RoleRevoked: {
+    role: string;
+    account: string;
+    sender: string;
+  };
+  Transfer: {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  };
+}
+
+// ---- Contracts ----
+
+/** Typed view of the deployed PropertyVerification contract. */
+export interface PropertyVerificationContract extends BaseContract {
+  approve: BaseContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  deactivateProperty: BaseContractMethod<[propertyId: BigNumberish, reason: string], void, ContractTransactionResponse>;
+  emergencyWithdrawSponsorship: BaseContractMethod<[], void, ContractTransactionResponse>;
+  feeCollector: ConstantContractMethod<[], string>;
+  fundSponsorshipPool: BaseContractMethod<[], void, ContractTransactionResponse>;
+  gasSponsored: ConstantContractMethod<[arg0: AddressLike], boolean>;
+  getApproved: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  getKYCProof: ConstantContractMethod<[propertyId: BigNumberish], KYCProof>;
+  getLandlordProperties: ConstantContractMethod<[landlord: AddressLike], bigint[]>;
+  getListingFee: ConstantContractMethod<[], bigint>;
+  getPropertyDetails: ConstantContractMethod<[propertyId: BigNumberish], PropertyDetails>;
+  getPropertyOwner: ConstantContractMethod<[propertyId: BigNumberish], string>;
+  grantGasSponsorship: BaseContractMethod<[user: AddressLike], void, ContractTransactionResponse>;
+  isApprovedForAll: ConstantContractMethod<[owner: AddressLike, operator: AddressLike], boolean>;
+  isPropertyVerified: ConstantContractMethod<[propertyId: BigNumberish], boolean>;
+  kycProcessingFee: ConstantContractMethod<[], bigint>;
+  kycProofs: ConstantContractMethod<[arg0: BigNumberish], KycProofsOutput>;
+  landlordProperties: ConstantContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint>;
+  linkKYCProof: BaseContractMethod<[propertyId: BigNumberish, _personaVerificationId: string, _videoTimestamp: string, _governmentIdVerified: boolean, _addressProofVerified: boolean], void, ContractTransactionResponse>;
+  listingFee: ConstantContractMethod<[], bigint>;
+  name: ConstantContractMethod<[], string>;
+  owner: ConstantContractMethod<[], string>;
+  ownerOf: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  properties: ConstantContractMethod<[arg0: BigNumberish], PropertiesOutput>;
+  renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256,bytes)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  sponsorshipPool: ConstantContractMethod<[], bigint>;
+  submitProperty: BaseContractMethod<[_propertyAddress: string, _documentHash: string, _videoHash: string, _gpsCoordinates: string, _kycLevel: BigNumberish], bigint, ContractTransactionResponse>;
+  supportsInterface: ConstantContractMethod<[interfaceId: BytesLike], boolean>;
+  symbol: ConstantContractMethod<[], string>;
+  tokenURI: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  transferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+  updateKYCFee: BaseContractMethod<[newFee: BigNumberish], void, ContractTransactionResponse>;
+  updateListingFee: BaseContractMethod<[newFee: BigNumberish], void, ContractTransactionResponse>;
+  verifyProperty: BaseContractMethod<[propertyId: BigNumberish], void, ContractTransactionResponse>;
+}
+
+/** Typed view of the deployed TrustLeaseEscrow contract. */
+export interface TrustLeaseEscrowContract extends BaseContract {
+  agreements: ConstantContractMethod<[arg0: BigNumberish], AgreementsOutput>;
+  calculateFeeBreakdown: ConstantContractMethod<[agreementId: BigNumberish], FeeBreakdown>;
+  cancelAgreement: BaseContractMethod<[agreementId: BigNumberish], void, ContractTransactionResponse>;
+  checkRentOverdue: BaseContractMethod<[agreementId: BigNumberish], void, ContractTransactionResponse>;
+  createAgreement: BaseContractMethod<[propertyId: BigNumberish, landlord: AddressLike, monthlyRent: BigNumberish, rentInterval: BigNumberish, startDate: BigNumberish, endDate: BigNumberish, metadataHash: string], bigint, ContractTransactionResponse>;
+  defaultGracePeriod: ConstantContractMethod<[], bigint>;
+  disputePeriod: ConstantContractMethod<[], bigint>;
+  disputes: ConstantContractMethod<[arg0: BigNumberish], DisputesOutput>;
+  fundGasSubsidy: BaseContractMethod<[], void, ContractTransactionResponse>;
+  gasSubsidyPool: ConstantContractMethod<[], bigint>;
+  getAgreement: ConstantContractMethod<[agreementId: BigNumberish], RentalAgreement>;
+  getDispute: ConstantContractMethod<[agreementId: BigNumberish], Dispute>;
+  getLandlordAgreements: ConstantContractMethod<[landlord: AddressLike], bigint[]>;
+  getRentPayments: ConstantContractMethod<[agreementId: BigNumberish], RentPayment[]>;
+  getTenantAgreements: ConstantContractMethod<[tenant: AddressLike], bigint[]>;
+  grantGasSubsidy: BaseContractMethod<[tenant: AddressLike], void, ContractTransactionResponse>;
+  isGasSubsidized: ConstantContractMethod<[arg0: AddressLike], boolean>;
+  landlordAgreements: ConstantContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint>;
+  landlordConfirm: BaseContractMethod<[agreementId: BigNumberish], void, ContractTransactionResponse>;
+  owner: ConstantContractMethod<[], string>;
+  pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  paused: ConstantContractMethod<[], boolean>;
+  payRent: BaseContractMethod<[agreementId: BigNumberish, metadataHash: string], void, ContractTransactionResponse>;
+  platformFeePercent: ConstantContractMethod<[], bigint>;
+  platformWallet: ConstantContractMethod<[], string>;
+  propertyVerification: ConstantContractMethod<[], string>;
+  raiseDispute: BaseContractMethod<[agreementId: BigNumberish, reason: string, evidenceHash: string], void, ContractTransactionResponse>;
+  releaseDeposit: BaseContractMethod<[agreementId: BigNumberish], void, ContractTransactionResponse>;
+  renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+  rentPayments: ConstantContractMethod<[arg0: BigNumberish, arg1: BigNumberish], RentPaymentsOutput>;
+  rentProcessingFeePercent: ConstantContractMethod<[], bigint>;
+  rentalReceipt: ConstantContractMethod<[], string>;
+  resolveDispute: BaseContractMethod<[agreementId: BigNumberish, refundTenant: boolean], void, ContractTransactionResponse>;
+  submitEvidence: BaseContractMethod<[agreementId: BigNumberish, evidenceHash: string], void, ContractTransactionResponse>;
+  tenantAgreements: ConstantContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint>;
+  tenantConfirm: BaseContractMethod<[agreementId: BigNumberish], void, ContractTransactionResponse>;
+  terminateAgreement: BaseContractMethod<[agreementId: BigNumberish, proRatedRefund: BigNumberish], void, ContractTransactionResponse>;
+  transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+  updateDisputePeriod: BaseContractMethod<[newPeriod: BigNumberish], void, ContractTransactionResponse>;
+  updateGracePeriod: BaseContractMethod<[newPeriod: BigNumberish], void, ContractTransactionResponse>;
+  updatePlatformFee: BaseContractMethod<[newFeePercent: BigNumberish], void, ContractTransactionResponse>;
+  updateRentProcessingFee: BaseContractMethod<[newFeePercent: BigNumberish], void, ContractTransactionResponse>;
+}
+
+/** Typed view of the deployed RentalReceipt contract. */
+export interface RentalReceiptContract extends BaseContract {
+  DEFAULT_ADMIN_ROLE: ConstantContractMethod<[], string>;
+  MINTER_ROLE: ConstantContractMethod<[], string>;
+  agreementRentReceipts: ConstantContractMethod<[arg0: BigNumberish, arg1: BigNumberish], bigint>;
+  approve: BaseContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  balanceOf: ConstantContractMethod<[owner: AddressLike], bigint>;
+  burnReceipt: BaseContractMethod<[receiptId: BigNumberish], void, ContractTransactionResponse>;
+  getAgreementRentReceipts: ConstantContractMethod<[agreementId: BigNumberish], bigint[]>;
+  getApproved: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  getReceipt: ConstantContractMethod<[receiptId: BigNumberish], Receipt>;
+  getRoleAdmin: ConstantContractMethod<[role: BytesLike], string>;
+  getTenantReceipts: ConstantContractMethod<[tenant: AddressLike], bigint[]>;
+  grantRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  hasRole: ConstantContractMethod<[role: BytesLike, account: AddressLike], boolean>;
+  isApprovedForAll: ConstantContractMethod<[owner: AddressLike, operator: AddressLike], boolean>;
+  mintReceipt: BaseContractMethod<[tenant: AddressLike, landlord: AddressLike, propertyId: BigNumberish, depositAmount: BigNumberish, arg4: BigNumberish, startDate: BigNumberish, endDate: BigNumberish, metadataHash: string], bigint, ContractTransactionResponse>;
+  mintRentPaymentProof: BaseContractMethod<[tenant: AddressLike, landlord: AddressLike, agreementId: BigNumberish, rentAmount: BigNumberish, paymentDate: BigNumberish, periodStart: BigNumberish, periodEnd: BigNumberish, metadataHash: string], bigint, ContractTransactionResponse>;
+  name: ConstantContractMethod<[], string>;
+  ownerOf: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  receipts: ConstantContractMethod<[arg0: BigNumberish], ReceiptsOutput>;
+  renounceRole: BaseContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, ContractTransactionResponse>;
+  revokeRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+  'safeTransferFrom(address,address,uint256,bytes)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  setMinter: BaseContractMethod<[escrowContract: AddressLike], void, ContractTransactionResponse>;
+  supportsInterface: ConstantContractMethod<[interfaceId: BytesLike], boolean>;
+  symbol: ConstantContractMethod<[], string>;
+  tenantReceipts: ConstantContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint>;
+  tokenURI: ConstantContractMethod<[tokenId: BigNumberish], string>;
+  transferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+}
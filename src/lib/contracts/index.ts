@@ -0,0 +1,55 @@
+import { Contract, Result, type ContractRunner, type InterfaceAbi } from 'ethers';
+import { PropertyVerificationABI, RentalReceiptABI, TrustLeaseEscrowABI } from './generated/abis';
+import type {
+  PropertyVerificationContract,
+  RentalReceiptContract,
+  TrustLeaseEscrowContract,
+} from './generated/types';
+
+export * from './generated/abis';
+export * from './deployments';
+export type * from './generated/types';
+
+// Solidity enums come back as bigint indexes into these lists
+export const AGREEMENT_STATUSES = ['Pending', 'Active', 'Completed', 'Disputed', 'Cancelled', 'Terminated'] as const;
+export const RENT_STATUSES = ['Paid', 'Overdue', 'Disputed'] as const;
+export const RECEIPT_TYPES = ['RentalAgreement', 'RentPayment'] as const;
+
+export type AgreementStatus = typeof AGREEMENT_STATUSES[number];
+export type RentStatus = typeof RENT_STATUSES[number];
+export type ReceiptType = typeof RECEIPT_TYPES[number];
+
+export const agreementStatus = (status: bigint): AgreementStatus => AGREEMENT_STATUSES[Number(status)];
+export const rentStatus = (status: bigint): RentStatus => RENT_STATUSES[Number(status)];
+export const receiptType = (type: bigint): ReceiptType => RECEIPT_TYPES[Number(type)];
+
+export function connectPropertyVerification(address: string, runner: ContractRunner, abi: InterfaceAbi = PropertyVerificationABI) {
+  return new Contract(address, abi, runner) as unknown as PropertyVerificationContract;
+}
+
+export function connectTrustLeaseEscrow(address: string, runner: ContractRunner, abi: InterfaceAbi = TrustLeaseEscrowABI) {
+  return new Contract(address, abi, runner) as unknown as TrustLeaseEscrowContract;
+}
+
+export function connectRentalReceipt(address: string, runner: ContractRunner, abi: InterfaceAbi = RentalReceiptABI) {
+  return new Contract(address, abi, runner) as unknown as RentalReceiptContract;
+}
+
+/**
+ * Converts an ethers `Result` (structs, multi-value returns, arrays) into plain
+ * objects and arrays so it matches the generated types and can be spread or cached.
+ */
+export function toPlain<T>(value: T): T {
+  if (!(value instanceof Result)) return value;
+  if (value.length === 0) return [] as T;
+
+  let named: Record<string, unknown> = {};
+  try {
+    named = value.toObject();
+  } catch {
+    // Unnamed entries mean this is an array rather than a struct
+  }
+  // Decoded array elements come back unnamed or all labelled "_"
+  if (Object.keys(named).length === 0 || '_' in named) return value.toArray().map(toPlain) as T;
+  return Object.fromEntries(Object.entries(named).map(([key, item]) => [key, toPlain(item)])) as T;
+}
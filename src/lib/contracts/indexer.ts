@@ -0,0 +1,178 @@
+import { Interface, type Log, type Provider } from 'ethers';
+import { toPlain } from './index';
+import { CONTRACT_NAMES, type ChainDeployment, type ContractName } from './deployments';
+import { clearChain, getCursor, putEvents, rewindChain, type IndexedEvent, type SyncCursor } from './eventStore';
+
+export interface SyncOptions {
+  /** Blocks per `eth_getLogs` request; halved when the RPC rejects a range and grown back after each success. */
+  chunkSize?: number;
+  /** First block to scan on an empty store. Defaults to the oldest `deployBlock` in the manifests. */
+  fromBlock?: number;
+  /** Blocks to stay behind the head, so a reorg rarely touches what is already stored. */
+  confirmations?: number;
+  /** How far behind the head an empty store starts at most; a stored cursor always catches up from where it stopped. */
+  maxBackfill?: number;
+  onProgress?: (progress: { fromBlock: number; toBlock: number; head: number; stored: number }) => void;
+  /** Called with each chunk of newly stored events, after they are committed. */
+  onEvents?: (events: IndexedEvent[]) => void;
+  signal?: AbortSignal;
+}
+
+// Args with these names identify an entity; addresses are keyed separately
+const ENTITY_ARGS: Record<string, string> = {
+  propertyId: 'property',
+  agreementId: 'agreement',
+  receiptId: 'receipt',
+  tokenId: 'token',
+};
+
+function entityKeys(chainId: number, contract: ContractName, args: Record<string, unknown>) {
+  const keys = new Set<string>();
+  for (const [name, value] of Object.entries(args)) {
+    if (typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)) {
+      keys.add(`${chainId}:address:${value.toLowerCase()}`);
+    } else if (typeof value === 'bigint' && ENTITY_ARGS[name]) {
+      // Receipt NFTs are keyed by token ID; property badges share IDs with properties
+      const kind = name === 'tokenId' && contract === 'RentalReceipt' ? 'receipt'
+        : name === 'tokenId' && contract === 'PropertyVerification' ? 'property'
+        : ENTITY_ARGS[name];
+      keys.add(`${chainId}:${kind}:${value}`);
+    }
+  }
+  return [...keys];
+}
+
+/** Decodes raw logs from the TrustLease contracts into typed records. Unknown logs are skipped. */
+export function decodeLogs(chainId: number, deployment: ChainDeployment, logs: Log[], timestamps: Map<number, number>) {
+  const byAddress = new Map(CONTRACT_NAMES.map(name => [
+    deployment[name].address.toLowerCase(),
+    { contract: name, iface: new Interface(deployment[name].abi) },
+  ]));
+
+  const events: IndexedEvent[] = [];
+  for (const log of logs) {
+    const source = byAddress.get(log.address.toLowerCase());
+    const parsed = source?.iface.parseLog(log);
+    if (!source || !parsed) continue;
+
+    const args = toPlain(parsed.args.toObject()) as Record<string, unknown>;
+    events.push({
+      id: `${chainId}:${log.transactionHash}:${log.index}`,
+      chainId,
+      contract: source.contract,
+      event: parsed.name,
+      args,
+      address: log.address,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      entities: entityKeys(chainId, source.contract, args),
+    } as IndexedEvent);
+  }
+  return events;
+}
+
+async function blockTimestamps(provider: Provider, logs: Log[]) {
+  const blockNumbers = [...new Set(logs.map(log => log.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map(n => provider.getBlock(n)));
+  return new Map(blocks.filter(b => b !== null).map(b => [b.number, b.timestamp]));
+}
+
+// Chunk ends remembered for reorg checks; at one chunk per poll this reaches back several minutes
+const MAX_CHECKPOINTS = 32;
+
+/**
+ * Walks back through the cursor's checkpoints to the newest one still on the chain and
+ * rewinds there, dropping the events stored after it so the next scan replaces the ones
+ * from orphaned blocks. Clears the chain when no checkpoint survived, since nothing
+ * stored can then be trusted.
+ */
+async function checkReorg(provider: Provider, cursor: SyncCursor) {
+  const checkpoints = cursor.checkpoints ?? [];
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const { block, hash } = checkpoints[i];
+    if ((await provider.getBlock(block))?.hash !== hash) continue;
+    if (i === checkpoints.length - 1) return cursor;
+
+    const rewound: SyncCursor = { ...cursor, lastBlock: block, checkpoints: checkpoints.slice(0, i + 1) };
+    await rewindChain(rewound);
+    return rewound;
+  }
+  if (checkpoints.length === 0) return cursor;
+
+  await clearChain(cursor.chainId);
+  return undefined;
+}
+
+/**
+ * Scans logs for all three contracts from the last indexed block up to `confirmations`
+ * behind the chain head and stores the decoded events in IndexedDB. Each chunk is
+ * committed together with the cursor and the hash of its last block, so an interrupted
+ * sync resumes where it stopped and a reorg under the cursor is rolled back. Returns the
+ * number of new events stored.
+ */
+export async function syncEvents(
+  provider: Provider,
+  chainId: number,
+  deployment: ChainDeployment,
+  { chunkSize = 2000, fromBlock, confirmations = 0, maxBackfill, onProgress, onEvents, signal }: SyncOptions = {}
+) {
+  const addresses = Object.fromEntries(CONTRACT_NAMES.map(name => [name, deployment[name].address])) as SyncCursor['addresses'];
+  // The newest block treated as settled
+  const head = await provider.getBlockNumber() - confirmations;
+  const earliest = maxBackfill === undefined ? 0 : Math.max(0, head - maxBackfill);
+
+  let cursor = await getCursor(chainId);
+  if (cursor && CONTRACT_NAMES.some(name => cursor!.addresses[name].toLowerCase() !== addresses[name].toLowerCase())) {
+    await clearChain(chainId);
+    cursor = undefined;
+  }
+  if (cursor) cursor = await checkReorg(provider, cursor);
+
+  const deployBlocks = CONTRACT_NAMES.map(name => deployment[name].deployBlock).filter(block => block !== undefined);
+  let start: number;
+  if (cursor) {
+    start = cursor.lastBlock + 1;
+  } else if (fromBlock !== undefined || deployBlocks.length > 0) {
+    start = Math.max(fromBlock ?? Math.min(...deployBlocks), earliest);
+  } else if (maxBackfill !== undefined) {
+    start = earliest;
+  } else {
+    throw new Error(`No deployBlock pinned for chain ${chainId}; pass fromBlock or maxBackfill to choose where indexing starts`);
+  }
+
+  let checkpoints = cursor?.checkpoints ?? [];
+  let stored = 0;
+  let size = chunkSize;
+
+  while (start <= head) {
+    signal?.throwIfAborted();
+    const end = Math.min(start + size - 1, head);
+
+    let logs: Log[];
+    try {
+      logs = await provider.getLogs({ address: Object.values(addresses), fromBlock: start, toBlock: end });
+    } catch (error) {
+      // Most RPCs cap the range or result count of eth_getLogs; retry with a smaller window
+      if (size === 1) throw error;
+      size = Math.max(1, Math.floor(size / 2));
+      continue;
+    }
+
+    const [timestamps, endBlock] = await Promise.all([blockTimestamps(provider, logs), provider.getBlock(end)]);
+    const events = decodeLogs(chainId, deployment, logs, timestamps);
+    signal?.throwIfAborted();
+    if (endBlock?.hash) checkpoints = [...checkpoints, { block: end, hash: endBlock.hash }].slice(-MAX_CHECKPOINTS);
+    await putEvents({ chainId, lastBlock: end, checkpoints, addresses }, events);
+    stored += events.length;
+    if (events.length > 0) onEvents?.(events);
+    onProgress?.({ fromBlock: start, toBlock: end, head, stored });
+    start = end + 1;
+    // A narrow window was only needed for a busy stretch of blocks
+    size = Math.min(chunkSize, size * 2);
+  }
+
+  return stored;
+}
@@ -0,0 +1,99 @@
+import { Contract, Interface, type BaseContract, type BaseContractMethod, type Provider } from 'ethers';
+import { toPlain } from './index';
+
+// Multicall3 is deployed at the same address on Flow EVM and most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface BatchCall<R = unknown> {
+  target: string;
+  iface: Interface;
+  method: string;
+  args: readonly unknown[];
+  /** Phantom field so the decoded return type travels with the call. */
+  readonly __result?: R;
+}
+
+export interface MulticallOptions {
+  /** Calls per `aggregate3` request. Keeps each eth_call well under RPC gas and payload limits. */
+  chunkSize?: number;
+  multicallAddress?: string;
+}
+
+type MethodResult<M> = M extends BaseContractMethod<infer _A, infer R> ? R : never;
+
+/** Describes a view call on a typed contract without sending it. */
+export function batchCall<C extends BaseContract, K extends keyof C & string>(
+  contract: C,
+  method: K,
+  args: readonly unknown[]
+): BatchCall<MethodResult<C[K]>> {
+  return { target: contract.target as string, iface: contract.interface, method, args };
+}
+
+function decode<R>(call: BatchCall<R>, data: string): R {
+  const result = call.iface.decodeFunctionResult(call.method, data);
+  return toPlain((result.length === 1 ? result[0] : result) as R);
+}
+
+const multicallSupport = new WeakMap<Provider, Map<string, Promise<boolean>>>();
+
+// Local devnets usually lack Multicall3, so check for code once per provider and address.
+// Only an answer is cached: a probe that fails (a timeout, a 429) says nothing about the chain,
+// so that batch falls back to single calls and the next one asks again.
+function hasMulticall(provider: Provider, address: string) {
+  let byAddress = multicallSupport.get(provider);
+  if (!byAddress) multicallSupport.set(provider, (byAddress = new Map()));
+  let probe = byAddress.get(address);
+  if (!probe) {
+    const pending = provider.getCode(address).then(code => code !== '0x');
+    pending.catch(() => {
+      if (byAddress.get(address) === pending) byAddress.delete(address);
+    });
+    byAddress.set(address, (probe = pending));
+  }
+  return probe.catch(() => false);
+}
+
+/**
+ * Runs a list of view calls through Multicall3 `aggregate3`, `chunkSize` calls per
+ * request, and returns the decoded results in input order. Any reverted call rejects
+ * the whole batch. Falls back to one eth_call per item when Multicall3 is not deployed.
+ */
+export async function multicall<R>(
+  provider: Provider,
+  calls: BatchCall<R>[],
+  { chunkSize = 100, multicallAddress = MULTICALL3_ADDRESS }: MulticallOptions = {}
+): Promise<R[]> {
+  if (calls.length === 0) return [];
+
+  if (!(await hasMulticall(provider, multicallAddress))) {
+    return Promise.all(calls.map(async call => {
+      const data = await provider.call({
+        to: call.target,
+        data: call.iface.encodeFunctionData(call.method, call.args),
+      });
+      return decode(call, data);
+    }));
+  }
+
+  const multicall3 = new Contract(multicallAddress, MULTICALL3_ABI, provider);
+  const chunks: BatchCall<R>[][] = [];
+  for (let i = 0; i < calls.length; i += chunkSize) chunks.push(calls.slice(i, i + chunkSize));
+
+  const results = await Promise.all(chunks.map(async chunk => {
+    const responses: { success: boolean; returnData: string }[] = await multicall3.aggregate3.staticCall(
+      chunk.map(call => ({
+        target: call.target,
+        allowFailure: false,
+        callData: call.iface.encodeFunctionData(call.method, call.args),
+      }))
+    );
+    return responses.map((response, i) => decode(chunk[i], response.returnData));
+  }));
+
+  return results.flat();
+}
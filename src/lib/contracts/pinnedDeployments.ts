@@ -0,0 +1,15 @@
+import { createDeploymentRegistry, groupManifestsByChain, type PinnedContractManifest } from './deployments';
+
+// Every chain with a `.deploys/pinned-contracts/<chainId>/` folder is bundled in at build time
+const manifests = import.meta.glob<PinnedContractManifest>(
+  ['/.deploys/pinned-contracts/*/*.json', '!/.deploys/pinned-contracts/31337/*.json'],
+  { eager: true, import: 'default' }
+);
+
+// The local devnet's addresses only mean something on the machine that ran `npm run devnet`,
+// so a production build leaves them out
+const devnetManifests = import.meta.env.DEV
+  ? import.meta.glob<PinnedContractManifest>('/.deploys/pinned-contracts/31337/*.json', { eager: true, import: 'default' })
+  : {};
+
+export const deploymentRegistry = createDeploymentRegistry(groupManifestsByChain({ ...manifests, ...devnetManifests }));
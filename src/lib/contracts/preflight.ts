@@ -0,0 +1,75 @@
+import type { BaseContractMethod, ContractMethodArgs, ContractTransactionResponse, Provider } from 'ethers';
+
+export interface CostPreview {
+  /** Native value sent with the call: the deposit, rent or listing fee. */
+  value: bigint;
+  /** Share of `value` the platform keeps, from the contract's fee percentage. */
+  platformFee: bigint;
+  feePercent: bigint;
+  /** Estimated gas plus `GAS_LIMIT_MARGIN`; sent as the transaction's limit. */
+  gasLimit: bigint;
+  gasPrice: bigint;
+  /** `gasLimit` at `gasPrice`: the most the gas can cost, not the expected spend. */
+  gasCost: bigint;
+  /** Value plus estimated gas: what the wallet needs to hold. */
+  total: bigint;
+}
+
+/**
+ * Percent of the estimate sent as the gas limit. An estimate is exact for the state it ran
+ * against, so a write whose storage changes before it is mined would run out of gas without it.
+ */
+export const GAS_LIMIT_MARGIN = 120n;
+
+export const withGasMargin = (estimate: bigint) => (estimate * GAS_LIMIT_MARGIN) / 100n;
+
+/**
+ * Simulates a payable write with `staticCall` and estimates its gas at the current
+ * fee level, with `GAS_LIMIT_MARGIN` added. A call that would revert rejects here with
+ * the contract's reason, before the wallet is ever opened.
+ */
+export async function simulateWrite<A extends unknown[], R>(
+  provider: Provider,
+  method: BaseContractMethod<A, R, ContractTransactionResponse>,
+  args: Readonly<A>,
+  value: bigint
+): Promise<Pick<CostPreview, 'gasLimit' | 'gasPrice' | 'gasCost'>> {
+  const callArgs = [...args, { value }] as ContractMethodArgs<A>;
+  await method.staticCall(...callArgs);
+  const [estimate, feeData] = await Promise.all([
+    method.estimateGas(...callArgs),
+    provider.getFeeData(),
+  ]);
+  const gasLimit = withGasMargin(estimate);
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  return { gasLimit, gasPrice, gasCost: gasLimit * gasPrice };
+}
+
+export function buildCostPreview(
+  value: bigint,
+  feePercent: bigint,
+  gas: Pick<CostPreview, 'gasLimit' | 'gasPrice' | 'gasCost'>
+): CostPreview {
+  return {
+    value,
+    platformFee: (value * feePercent) / 100n,
+    feePercent,
+    ...gas,
+    total: value + gas.gasCost,
+  };
+}
+
+export interface Affordability {
+  /** The value sent plus gas, once gas has been estimated. */
+  required: bigint;
+  balance: bigint;
+  /** How much more FLOW the wallet needs; zero when it can pay. */
+  shortfall: bigint;
+  affordable: boolean;
+}
+
+export function checkAffordability(balance: bigint, value: bigint, gasCost = 0n): Affordability {
+  const required = value + gasCost;
+  const shortfall = required > balance ? required - balance : 0n;
+  return { required, balance, shortfall, affordable: shortfall === 0n };
+}
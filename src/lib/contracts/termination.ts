@@ -0,0 +1,57 @@
+import type { RentalAgreement } from './index';
+
+export interface TerminationOptions {
+  /** Unix seconds the lease ends early. */
+  terminatedAt: number | bigint;
+  /** Withheld from the deposit for damage or unpaid bills, in wei. */
+  deductions?: bigint;
+  /** The escrow's `platformFeePercent`. */
+  platformFeePercent: bigint;
+}
+
+export interface TerminationQuote {
+  deposit: bigint;
+  deductions: bigint;
+  /** Unix seconds the rent paid so far covers up to. */
+  paidThrough: bigint;
+  /** Rent paid for time after the termination, prorated by the second. */
+  unusedRent: bigint;
+  /** The `proRatedRefund` to pass to `terminateAgreement`. */
+  refund: bigint;
+  /** Released by the escrow once the tenant is refunded: deposit plus rent paid, less the refund. */
+  remaining: bigint;
+  platformFee: bigint;
+  toLandlord: bigint;
+}
+
+type TerminatedAgreement = Pick<
+  RentalAgreement,
+  'depositAmount' | 'monthlyRent' | 'rentInterval' | 'startDate' | 'nextRentDueDate' | 'totalRentPaid'
+>;
+
+/**
+ * Works out the refund an admin passes to `terminateAgreement`, which leaves the
+ * calculation off-chain: the deposit back less any deductions, plus the rent paid for
+ * time after `terminatedAt`. The split of the rest mirrors the contract.
+ */
+export function quoteTermination(
+  agreement: TerminatedAgreement,
+  { terminatedAt, deductions = 0n, platformFeePercent }: TerminationOptions
+): TerminationQuote {
+  const deposit = agreement.depositAmount;
+  if (deductions < 0n || deductions > deposit) {
+    throw new Error(`Deductions of ${deductions} wei must be between zero and the deposit of ${deposit} wei`);
+  }
+
+  // Each payment moves the due date on an interval, so rent is paid up to the period before it
+  const paidThrough = agreement.nextRentDueDate - agreement.rentInterval;
+  const from = BigInt(terminatedAt) > agreement.startDate ? BigInt(terminatedAt) : agreement.startDate;
+  const unusedSeconds = paidThrough > from ? paidThrough - from : 0n;
+  const prorated = (agreement.monthlyRent * unusedSeconds) / agreement.rentInterval;
+  const unusedRent = prorated < agreement.totalRentPaid ? prorated : agreement.totalRentPaid;
+
+  const refund = deposit - deductions + unusedRent;
+  const remaining = deposit + agreement.totalRentPaid - refund;
+  const platformFee = (remaining * platformFeePercent) / 100n;
+  return { deposit, deductions, paidThrough, unusedRent, refund, remaining, platformFee, toLandlord: remaining - platformFee };
+}
@@ -0,0 +1,210 @@
+export const FLOW_DECIMALS = 18;
+
+export const MINUTE = 60;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+export const WEEK = 7 * DAY;
+
+// ---- Amounts ----
+// Kept in bigint end to end: a float loses wei precision past about 0.009 FLOW
+
+export interface AmountFormatOptions {
+  /** BCP 47 locale, e.g. 'de-DE'. The runtime's default when omitted. */
+  locale?: string;
+  decimals?: number;
+  /** Digits past the point; the rest is rounded half up. */
+  maximumFractionDigits?: number;
+  /** Pads with trailing zeros, e.g. 3 for "2.000". */
+  minimumFractionDigits?: number;
+  /** Unit appended after a space, e.g. 'FLOW' or 'gwei'. */
+  symbol?: string;
+}
+
+interface Separators {
+  group: string;
+  decimal: string;
+}
+
+const separatorCache = new Map<string, Separators>();
+
+function separators(locale?: string): Separators {
+  const key = locale ?? '';
+  let cached = separatorCache.get(key);
+  if (!cached) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1000.5);
+    cached = {
+      group: parts.find(part => part.type === 'group')?.value ?? ',',
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+    };
+    separatorCache.set(key, cached);
+  }
+  return cached;
+}
+
+export function formatAmount(value: bigint, options: AmountFormatOptions = {}): string {
+  const { locale, decimals = FLOW_DECIMALS, maximumFractionDigits = 4, minimumFractionDigits = 0, symbol } = options;
+  const digits = Math.min(maximumFractionDigits, decimals);
+  const withSymbol = (text: string) => (symbol ? `${text} ${symbol}` : text);
+
+  const negative = value < 0n;
+  const magnitude = negative ? -value : value;
+  const scale = 10n ** BigInt(decimals - digits);
+  const rounded = (magnitude + scale / 2n) / scale;
+
+  // Dust that rounds to zero still shows it is there
+  if (rounded === 0n && magnitude > 0n) {
+    return withSymbol(`<${formatAmount(1n, { ...options, decimals: digits, symbol: undefined })}`);
+  }
+
+  const unit = 10n ** BigInt(digits);
+  const whole = new Intl.NumberFormat(locale).format(rounded / unit);
+  const fraction = (rounded % unit)
+    .toString()
+    .padStart(digits, '0')
+    .replace(/0+$/, '')
+    .padEnd(Math.min(minimumFractionDigits, digits), '0');
+  const text = fraction ? `${whole}${separators(locale).decimal}${fraction}` : whole;
+  return withSymbol(negative && rounded > 0n ? `-${text}` : text);
+}
+
+export function formatFlow(wei: bigint, options: Omit<AmountFormatOptions, 'decimals'> = {}) {
+  return formatAmount(wei, { symbol: 'FLOW', ...options, decimals: FLOW_DECIMALS });
+}
+
+/**
+ * Parses a decimal amount into base units. Without a locale the input is plain
+ * "1234.5", as number inputs and `formatEther` produce; with one, its
+ * grouping and decimal separators are honoured, e.g. "1.234,5" for 'de-DE'.
+ */
+export function parseAmount(input: string, { locale, decimals = FLOW_DECIMALS }: Pick<AmountFormatOptions, 'locale' | 'decimals'> = {}) {
+  let normalized = input.trim();
+  if (locale) {
+    const { group, decimal } = separators(locale);
+    // Users type plain spaces where a locale groups with (narrow) no-break spaces
+    normalized = normalized.split(group).join('').replace(/\s/g, '').split(decimal).join('.');
+  }
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(normalized);
+  if (!match || !(match[1] || match[2])) throw new Error(`"${input}" is not a valid amount`);
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) throw new Error(`"${input}" has more than ${decimals} decimal places`);
+
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+export function parseFlow(input: string, locale?: string) {
+  return parseAmount(input, { locale, decimals: FLOW_DECIMALS });
+}
+
+/** Like parseFlow, but null for empty or invalid input, e.g. while a form is being filled in. */
+export function tryParseFlow(input: string, locale?: string) {
+  try {
+    return parseFlow(input, locale);
+  } catch {
+    return null;
+  }
+}
+
+export function formatInteger(value: bigint | number, locale?: string) {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }).format(value);
+}
+
+// ---- Intervals ----
+
+const NAMED_INTERVALS = new Map([
+  [HOUR, 'hourly'],
+  [DAY, 'daily'],
+  [WEEK, 'weekly'],
+  [365 * DAY, 'yearly'],
+]);
+
+const INTERVAL_UNITS = [
+  [WEEK, 'week'],
+  [DAY, 'day'],
+  [HOUR, 'hour'],
+  [MINUTE, 'minute'],
+  [1, 'second'],
+] as const;
+
+/** Describes a `rentInterval` in seconds: "weekly", "every 30 days", "every 2 weeks". */
+export function humanizeInterval(seconds: number | bigint) {
+  const value = Number(seconds);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`Invalid interval of ${seconds} seconds`);
+
+  const named = NAMED_INTERVALS.get(value);
+  if (named) return named;
+
+  const [size, unit] = INTERVAL_UNITS.find(([size]) => value % size === 0)!;
+  const count = value / size;
+  return count === 1 ? `every ${unit}` : `every ${count} ${unit}s`;
+}
+
+/** Compact time left, e.g. "5d 3h 2m", or "3h 2m" under a day. Past times read as zero. */
+export function formatCountdown(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(total / DAY);
+  const hours = Math.floor((total % DAY) / HOUR);
+  const minutes = Math.floor((total % HOUR) / MINUTE);
+  return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m`;
+}
+
+// ---- Lease timestamps ----
+// The contracts store Unix seconds, which are UTC instants. A lease date picked in the
+// form is a calendar day where the user is, so it becomes local midnight unless told otherwise.
+
+export type DateInputZone = 'local' | 'UTC';
+
+export const nowInSeconds = (now = Date.now()) => Math.floor(now / 1000);
+
+export const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+export const fromUnixSeconds = (seconds: number | bigint) => new Date(Number(seconds) * 1000);
+
+export const secondsUntil = (timestamp: number | bigint, now = Date.now()) => Number(timestamp) - nowInSeconds(now);
+
+/** Whole days until `timestamp`, rounded up; zero once it has passed. */
+export const daysUntil = (timestamp: number | bigint, now = Date.now()) => Math.max(0, Math.ceil(secondsUntil(timestamp, now) / DAY));
+
+/**
+ * Unix seconds for the start of a `YYYY-MM-DD` day, the value of a date input.
+ * Unlike `new Date('2025-03-01')`, which reads the day as UTC midnight and lands on
+ * the previous evening west of Greenwich, this uses local midnight by default.
+ */
+export function parseDateInput(value: string, zone: DateInputZone = 'local') {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) throw new Error(`"${value}" is not a YYYY-MM-DD date`);
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = zone === 'UTC' ? new Date(Date.UTC(year, month - 1, day)) : new Date(year, month - 1, day);
+  // Out-of-range days such as 02-30 roll over into the next month
+  if (toDateInput(toUnixSeconds(date), zone) !== value) throw new Error(`"${value}" is not a valid date`);
+  return toUnixSeconds(date);
+}
+
+/** The `YYYY-MM-DD` day a timestamp falls on, for date inputs. */
+export function toDateInput(seconds: number | bigint, zone: DateInputZone = 'local') {
+  const date = fromUnixSeconds(seconds);
+  const [year, month, day] = zone === 'UTC'
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export interface DateFormatOptions {
+  locale?: string;
+  /** IANA time zone, e.g. 'Africa/Lagos'. The user's own when omitted. */
+  timeZone?: string;
+  month?: 'short' | 'long';
+  /** Adds the time of day and the zone it is in. */
+  withTime?: boolean;
+}
+
+export function formatLeaseDate(seconds: number | bigint, { locale, timeZone, month = 'short', withTime = false }: DateFormatOptions = {}) {
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month,
+    day: 'numeric',
+    timeZone,
+    ...(withTime && { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }),
+  }).format(fromUnixSeconds(seconds));
+}
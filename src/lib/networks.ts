@@ -0,0 +1,84 @@
+export interface NetworkConfig {
+  chainId: number;
+  chainIdHex: string;
+  name: string;
+  /** Ranked: reads go to the first healthy endpoint and fail over down the list. */
+  rpcUrls: readonly string[];
+  /** Empty for chains without a public explorer. */
+  blockExplorer: string;
+  currency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  testnet: boolean;
+  /** Blocks the event index stays behind the head, so a reorg rarely rewrites what it stored. */
+  confirmations: number;
+}
+
+// Undefined outside Vite, as when the operator CLI loads this module under Node
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+
+// VITE_RPC_URLS_<chainId> (comma separated) ranks extra endpoints, such as a keyed
+// provider, ahead of the public one
+function rpcEndpoints(chainId: number, ...fallbacks: string[]) {
+  const configured = String(env[`VITE_RPC_URLS_${chainId}`] ?? '').split(',');
+  return [...configured.map(url => url.trim()).filter(Boolean), ...fallbacks];
+}
+
+export const FLOW_EVM_MAINNET: NetworkConfig = {
+  chainId: 747,
+  chainIdHex: '0x2eb',
+  name: 'Flow EVM Mainnet',
+  rpcUrls: rpcEndpoints(747, 'https://mainnet.evm.nodes.onflow.org'),
+  blockExplorer: 'https://evm.flowscan.io',
+  currency: { name: 'Flow', symbol: 'FLOW', decimals: 18 },
+  testnet: false,
+  confirmations: 10,
+};
+
+export const FLOW_EVM_TESTNET: NetworkConfig = {
+  chainId: 545,
+  chainIdHex: '0x221',
+  name: 'Flow EVM Testnet',
+  rpcUrls: rpcEndpoints(545, 'https://testnet.evm.nodes.onflow.org'),
+  blockExplorer: 'https://evm-testnet.flowscan.io',
+  currency: { name: 'Flow', symbol: 'FLOW', decimals: 18 },
+  testnet: true,
+  confirmations: 10,
+};
+
+// Local node seeded by `npm run devnet`
+export const LOCAL_DEVNET: NetworkConfig = {
+  chainId: 31337,
+  chainIdHex: '0x7a69',
+  name: 'TrustLease Devnet',
+  rpcUrls: rpcEndpoints(31337, 'http://127.0.0.1:8545'),
+  blockExplorer: '',
+  currency: { name: 'Flow', symbol: 'FLOW', decimals: 18 },
+  testnet: true,
+  // Mines a block per transaction and never reorgs, so lagging would only hide the latest events
+  confirmations: 0,
+};
+
+export const NETWORKS: readonly NetworkConfig[] = [FLOW_EVM_MAINNET, FLOW_EVM_TESTNET, LOCAL_DEVNET];
+
+export function getNetwork(chainId: number | null | undefined) {
+  return NETWORKS.find(network => network.chainId === chainId);
+}
+
+/** Thrown before a write when the wallet is on another chain than the network picked in the app. */
+export class WrongNetworkError extends Error {
+  constructor(public expected: NetworkConfig, public chainId: number) {
+    super(`Wallet is on chain ${chainId}, not ${expected.name}`);
+    this.name = 'WrongNetworkError';
+  }
+}
+
+// VITE_CHAIN_ID picks the network a first-time visitor lands on; Flow EVM Testnet otherwise
+export const DEFAULT_NETWORK = getNetwork(Number(env.VITE_CHAIN_ID)) ?? FLOW_EVM_TESTNET;
+
+/** Explorer link for a transaction or address, or null when the network has no explorer. */
+export function explorerUrl(network: NetworkConfig | undefined, kind: 'tx' | 'address', value: string) {
+  return network?.blockExplorer ? `${network.blockExplorer}/${kind}/${value}` : null;
+}
@@ -0,0 +1,206 @@
+import { FetchRequest, JsonRpcProvider, type JsonRpcError, type JsonRpcPayload, type JsonRpcResult, type Networkish } from 'ethers';
+
+export type RpcResponse = Array<JsonRpcResult | JsonRpcError>;
+
+/** Sends one JSON-RPC payload (or batch) to `url`. Throwing marks the endpoint as failing. */
+export type RpcTransport = (url: string, payload: JsonRpcPayload | JsonRpcPayload[]) => Promise<RpcResponse>;
+
+export interface RetryPolicy {
+  /** Tries per request, counting the first, across all endpoints. */
+  maxAttempts: number;
+  /** Wait before the first retry; doubles on each retry after that. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Consecutive failures before an endpoint is marked unhealthy and skipped. */
+  failureThreshold: number;
+  /** How long an unhealthy endpoint sits out before it is tried again. */
+  cooldownMs: number;
+  /** Per-request timeout of the default HTTP transport. */
+  timeoutMs: number;
+  /** Whether an error the node answered with is worth retrying elsewhere, e.g. a rate limit. */
+  isTransient: (error: JsonRpcError['error']) => boolean;
+}
+
+// -32005 is the common "limit exceeded" code; the rest only say so in the message
+const TRANSIENT_CODES = new Set([-32005]);
+const TRANSIENT_MESSAGE = /rate limit|too many requests|timed? ?out|header not found|try again|busy/i;
+
+export function isTransientRpcError(error: JsonRpcError['error']) {
+  return TRANSIENT_CODES.has(error.code) || TRANSIENT_MESSAGE.test(error.message ?? '');
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 4_000,
+  failureThreshold: 2,
+  cooldownMs: 30_000,
+  timeoutMs: 10_000,
+  isTransient: isTransientRpcError,
+};
+
+/** Delay before retry number `retry` (1 for the first retry). */
+export function backoffDelay(policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>, retry: number) {
+  return Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+}
+
+export function httpTransport(timeoutMs: number): RpcTransport {
+  return async (url, payload) => {
+    const request = new FetchRequest(url);
+    request.timeout = timeoutMs;
+    // ethers otherwise retries a 429 up to 12 times on the same endpoint, inside one attempt;
+    // a rate limit should reach the retry policy and fail over like any other failure
+    request.setThrottleParams({ maxAttempts: 1 });
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+    const response = await request.send();
+    response.assertOk();
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  };
+}
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError: string | null;
+  /** When an unhealthy endpoint is next tried, in ms since the epoch. */
+  retryAt: number | null;
+}
+
+export type RpcStatus = 'healthy' | 'degraded' | 'down';
+
+export function rpcStatus(health: EndpointHealth[]): RpcStatus {
+  const healthy = health.filter(endpoint => endpoint.healthy).length;
+  if (healthy === health.length) return 'healthy';
+  return healthy > 0 ? 'degraded' : 'down';
+}
+
+export interface RetryEvent {
+  /** 1 for the first retry. */
+  retry: number;
+  /** The endpoint the failed attempt went to. */
+  url: string;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface FailoverProviderOptions {
+  retry?: Partial<RetryPolicy>;
+  transport?: RpcTransport;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * JSON-RPC provider over a ranked list of endpoints. Each request goes to the best
+ * healthy endpoint; transport failures and transient node errors are retried with
+ * exponential backoff on the next endpoint in rank order, and endpoints that keep
+ * failing sit out a cooldown before they are tried again. Reverts and other answers
+ * from the node are returned as-is.
+ */
+export class FailoverProvider extends JsonRpcProvider {
+  readonly policy: RetryPolicy;
+  #endpoints: EndpointHealth[];
+  #transport: RpcTransport;
+  #onRetry?: (event: RetryEvent) => void;
+  #listeners: Array<(health: EndpointHealth[]) => void> = [];
+
+  constructor(urls: readonly string[], network: Networkish, options: FailoverProviderOptions = {}) {
+    if (urls.length === 0) throw new Error('FailoverProvider needs at least one RPC endpoint');
+    super(urls[0], network, { staticNetwork: true });
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.#endpoints = urls.map(url => ({ url, healthy: true, consecutiveFailures: 0, lastError: null, retryAt: null }));
+    this.#transport = options.transport ?? httpTransport(this.policy.timeoutMs);
+    this.#onRetry = options.onRetry;
+  }
+
+  health(): EndpointHealth[] {
+    return this.#endpoints.map(endpoint => ({ ...endpoint }));
+  }
+
+  onHealthChange(listener: (health: EndpointHealth[]) => void) {
+    this.#listeners.push(listener);
+    return () => {
+      const index = this.#listeners.indexOf(listener);
+      if (index > -1) {
+        this.#listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // JsonRpcProvider types this as results only, but its callers handle error entries too
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const tried = new Set<EndpointHealth>();
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.policy.maxAttempts; attempt++) {
+      const endpoint = this.#pick(tried);
+      tried.add(endpoint);
+
+      let response: RpcResponse | undefined;
+      try {
+        response = await this.#transport(endpoint.url, payload);
+      } catch (error) {
+        lastError = error;
+      }
+
+      const transient = response?.find(
+        (result): result is JsonRpcError => 'error' in result && this.policy.isTransient(result.error)
+      );
+      if (response && !transient) {
+        this.#recordSuccess(endpoint);
+        return response as JsonRpcResult[];
+      }
+
+      if (transient) lastError = new Error(transient.error.message);
+      this.#recordFailure(endpoint, lastError);
+      if (attempt === this.policy.maxAttempts) {
+        // Out of retries: let ethers turn the node's own answer into its usual error
+        if (response) return response as JsonRpcResult[];
+        break;
+      }
+
+      const delayMs = backoffDelay(this.policy, attempt);
+      this.#onRetry?.({ retry: attempt, url: endpoint.url, delayMs, error: lastError });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    throw lastError;
+  }
+
+  // Healthy endpoints in rank order, plus unhealthy ones whose cooldown is over; every
+  // endpoint when all are cooling down. Within a request each is tried once per round.
+  #pick(tried: Set<EndpointHealth>) {
+    const now = Date.now();
+    const usable = this.#endpoints.filter(endpoint => endpoint.healthy || (endpoint.retryAt ?? 0) <= now);
+    const pool = usable.length > 0 ? usable : this.#endpoints;
+    const next = pool.find(endpoint => !tried.has(endpoint));
+    if (next) return next;
+    tried.clear();
+    return pool[0];
+  }
+
+  #recordSuccess(endpoint: EndpointHealth) {
+    if (endpoint.healthy && endpoint.consecutiveFailures === 0) return;
+    Object.assign(endpoint, { healthy: true, consecutiveFailures: 0, lastError: null, retryAt: null });
+    this.#emit();
+  }
+
+  #recordFailure(endpoint: EndpointHealth, error: unknown) {
+    endpoint.consecutiveFailures += 1;
+    endpoint.lastError = errorMessage(error);
+    if (endpoint.consecutiveFailures >= this.policy.failureThreshold) {
+      endpoint.healthy = false;
+      endpoint.retryAt = Date.now() + this.policy.cooldownMs;
+    }
+    this.#emit();
+  }
+
+  #emit() {
+    const health = this.health();
+    this.#listeners.forEach(listener => listener(health));
+  }
+}
@@ -0,0 +1,283 @@
+// Sign-In With Ethereum (EIP-4361): proves control of a wallet with a signed, human-readable
+// message instead of a transaction. Off-chain features (messaging, drafts, notification
+// preferences, evidence access) trust a session only after a verifier has checked it.
+import { getAddress, verifyMessage } from 'ethers';
+import { DAY, MINUTE } from '@/lib/format';
+
+export const SIWE_STATEMENT = 'Sign in to TrustLease. This proves you own this wallet; it sends no transaction and costs no gas.';
+
+/** How long a nonce stays redeemable once issued, in seconds. */
+export const NONCE_TTL = 10 * MINUTE;
+/** How long a session lasts from sign-in, in seconds. */
+export const SESSION_TTL = DAY;
+
+export interface SiweMessage {
+  /** RFC 3986 authority asking for the signature, e.g. 'trustlease.app'. */
+  domain: string;
+  /** EIP-55 checksummed address. */
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  /** ISO 8601 timestamps. */
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  domain: string;
+  /** Unix seconds. */
+  issuedAt: number;
+  expiresAt: number;
+  /** The signed message and its signature, so any other verifier can re-check the proof. */
+  message: string;
+  signature: string;
+}
+
+export type SiweErrorCode =
+  | 'malformed-message'
+  | 'domain-mismatch'
+  | 'chain-mismatch'
+  | 'unknown-nonce'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'invalid-signature';
+
+export class SiweError extends Error {
+  constructor(public code: SiweErrorCode, message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+/**
+ * Issues nonces and turns signed messages into sessions. The local verifier below runs
+ * in the page; a hosted backend can implement the same interface.
+ */
+export interface SiweVerifier {
+  issueNonce(): Promise<string>;
+  /** Resolves with the session, or rejects with a `SiweError`. */
+  verify(message: string, signature: string): Promise<SiweSession>;
+  /** Ends the session early, where the verifier keeps any record of it. */
+  revoke?(session: SiweSession): Promise<void>;
+}
+
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/** 17 random alphanumeric characters, comfortably past the 8 EIP-4361 asks for. */
+export function generateNonce(length = 17) {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  // 256 is not a multiple of 62; the slight bias does not matter for a single-use nonce
+  return Array.from(bytes, byte => NONCE_ALPHABET[byte % NONCE_ALPHABET.length]).join('');
+}
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+const toSeconds = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+/** The message for `address` to sign, expiring `SESSION_TTL` after `issuedAt` unless told otherwise. */
+export function createSiweMessage(params: {
+  domain: string;
+  address: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  /** Unix seconds; now when omitted. */
+  issuedAt?: number;
+  ttl?: number;
+  statement?: string;
+  resources?: string[];
+}): SiweMessage {
+  const issuedAt = params.issuedAt ?? Math.floor(Date.now() / 1000);
+  return {
+    domain: params.domain,
+    address: getAddress(params.address),
+    statement: params.statement ?? SIWE_STATEMENT,
+    uri: params.uri,
+    version: '1',
+    chainId: params.chainId,
+    nonce: params.nonce,
+    issuedAt: toIso(issuedAt),
+    expirationTime: toIso(issuedAt + (params.ttl ?? SESSION_TTL)),
+    resources: params.resources,
+  };
+}
+
+/** Renders the message in the exact EIP-4361 layout wallets display and signers sign. */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your Ethereum account:`,
+    message.address,
+    '',
+  ];
+  // The statement is optional, but its trailing blank line is not
+  if (message.statement) lines.push(message.statement);
+  lines.push(
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  );
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  return lines.join('\n');
+}
+
+const HEADER = / wants you to sign in with your Ethereum account:$/;
+const FIELDS: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+export function parseSiweMessage(text: string): SiweMessage {
+  const malformed = (reason: string) => new SiweError('malformed-message', `Not a sign-in message: ${reason}`);
+  const lines = text.split('\n');
+
+  const domain = lines[0]?.replace(HEADER, '');
+  if (!domain || domain === lines[0]) throw malformed('missing header');
+  let address: string;
+  try {
+    address = getAddress(lines[1] ?? '');
+  } catch {
+    throw malformed('invalid address');
+  }
+  if (address !== lines[1]) throw malformed('address is not EIP-55 checksummed');
+
+  // An optional statement sits between two blank lines, which remain when it is left out
+  if (lines[2] !== '') throw malformed('missing blank line after the address');
+  const statement = lines[3] || undefined;
+  if (statement && lines[4] !== '') throw malformed('missing blank line after the statement');
+  let index = statement ? 5 : 4;
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  let resources: string[] | undefined;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === 'Resources:') {
+      resources = lines.slice(index + 1).map(resource => {
+        if (!resource.startsWith('- ')) throw malformed(`bad resource "${resource}"`);
+        return resource.slice(2);
+      });
+      break;
+    }
+    const separator = line.indexOf(': ');
+    const field = FIELDS[line.slice(0, separator)];
+    if (separator < 0 || !field || field in fields) throw malformed(`unexpected line "${line}"`);
+    fields[field] = line.slice(separator + 2);
+  }
+
+  const { uri, version, chainId, nonce, issuedAt } = fields;
+  if (!uri || !chainId || !nonce || !issuedAt) throw malformed('missing a required field');
+  if (version !== '1') throw malformed(`unsupported version ${version}`);
+  if (!/^\d+$/.test(chainId)) throw malformed('chain ID is not a number');
+  if (!/^[A-Za-z0-9]{8,}$/.test(nonce)) throw malformed('nonce must be at least 8 alphanumeric characters');
+  for (const time of [issuedAt, fields.expirationTime, fields.notBefore]) {
+    if (time !== undefined && Number.isNaN(Date.parse(time))) throw malformed(`bad timestamp "${time}"`);
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources,
+  };
+}
+
+export interface LocalSiweVerifierOptions {
+  /** The only domain sessions are accepted for, e.g. `window.location.host`. */
+  domain: string;
+  /** Chains sign-in is accepted on; any when omitted. */
+  chainIds?: number[];
+  /** Unix seconds; for tests. */
+  now?: () => number;
+}
+
+/**
+ * Verifies sign-ins in-process, with no backend: nonces live in memory and are single-use,
+ * and signatures are recovered with `verifyMessage`. Only externally owned accounts can sign
+ * in this way; contract wallets need a verifier that can call ERC-1271 on chain.
+ */
+export function createLocalSiweVerifier(options: LocalSiweVerifierOptions): SiweVerifier {
+  const now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  // Nonce -> when it stops being redeemable
+  const nonces = new Map<string, number>();
+
+  return {
+    async issueNonce() {
+      const time = now();
+      nonces.forEach((expiresAt, nonce) => expiresAt <= time && nonces.delete(nonce));
+      const nonce = generateNonce();
+      nonces.set(nonce, time + NONCE_TTL);
+      return nonce;
+    },
+
+    async verify(text, signature) {
+      const message = parseSiweMessage(text);
+      const time = now();
+
+      // Redeemed before any other check can fail, so a rejected attempt cannot be replayed either
+      const nonceExpiresAt = nonces.get(message.nonce);
+      nonces.delete(message.nonce);
+      if (nonceExpiresAt === undefined || nonceExpiresAt <= time) {
+        throw new SiweError('unknown-nonce', 'Sign-in request expired or was already used. Please sign in again.');
+      }
+
+      if (message.domain !== options.domain) {
+        throw new SiweError('domain-mismatch', `Message is for ${message.domain}, not ${options.domain}`);
+      }
+      if (options.chainIds && !options.chainIds.includes(message.chainId)) {
+        throw new SiweError('chain-mismatch', `Sign-in is not accepted on chain ${message.chainId}`);
+      }
+
+      const expiresAt = message.expirationTime ? toSeconds(message.expirationTime) : toSeconds(message.issuedAt) + SESSION_TTL;
+      if (expiresAt <= time) throw new SiweError('expired', 'Sign-in message has expired');
+      if (message.notBefore && toSeconds(message.notBefore) > time) {
+        throw new SiweError('not-yet-valid', 'Sign-in message is not valid yet');
+      }
+
+      let signer: string;
+      try {
+        signer = verifyMessage(text, signature);
+      } catch {
+        throw new SiweError('invalid-signature', 'Signature could not be read');
+      }
+      if (signer !== message.address) {
+        throw new SiweError('invalid-signature', `Message was signed by ${signer}, not ${message.address}`);
+      }
+
+      return {
+        address: message.address,
+        chainId: message.chainId,
+        domain: message.domain,
+        issuedAt: toSeconds(message.issuedAt),
+        expiresAt,
+        message: text,
+        signature,
+      };
+    },
+  };
+}
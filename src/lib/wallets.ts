@@ -0,0 +1,120 @@
+// EIP-6963 wallet discovery: every installed extension announces itself with a name, icon
+// and its own EIP-1193 provider, instead of racing to own `window.ethereum`
+
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+  on(event: string, listener: (...args: never[]) => void): unknown;
+  removeListener(event: string, listener: (...args: never[]) => void): unknown;
+}
+
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet's icon; empty for the legacy injected wallet. */
+  icon: string;
+  /** Reverse DNS id, e.g. 'io.metamask'. Stable across sessions, unlike the uuid. */
+  rdns: string;
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+
+  interface WindowEventMap {
+    'eip6963:announceProvider': CustomEvent<DiscoveredWallet>;
+  }
+}
+
+/** Stands in for a `window.ethereum` that did not announce itself, as older wallets do. */
+export const INJECTED_WALLET_RDNS = 'injected';
+
+const STORAGE_KEY = 'trustlease:wallet';
+
+const announced = new Map<string, DiscoveredWallet>();
+const listeners: Array<() => void> = [];
+
+let discovering = false;
+let selectedRdns: string | null = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+
+const notify = () => listeners.forEach(listener => listener());
+
+function handleAnnouncement(event: CustomEvent<DiscoveredWallet>) {
+  const { info, provider } = event.detail;
+  if (!info?.rdns || !provider) return;
+  // Extensions re-announce on every request; keep the list stable unless the provider changed
+  if (announced.get(info.rdns)?.provider === provider) return;
+  announced.set(info.rdns, { info, provider });
+  notify();
+}
+
+/** Listens for wallet announcements and asks installed wallets to announce. Safe to call repeatedly. */
+export function startWalletDiscovery() {
+  if (typeof window === 'undefined') return;
+  if (!discovering) {
+    window.addEventListener('eip6963:announceProvider', handleAnnouncement);
+    discovering = true;
+  }
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+}
+
+/** Announced wallets, plus `window.ethereum` when it belongs to none of them. */
+export function getWallets(): DiscoveredWallet[] {
+  const wallets = [...announced.values()];
+  const injected = typeof window === 'undefined' ? undefined : window.ethereum;
+  if (injected && !wallets.some(wallet => wallet.provider === injected)) {
+    wallets.push({ info: { uuid: INJECTED_WALLET_RDNS, name: 'Browser Wallet', icon: '', rdns: INJECTED_WALLET_RDNS }, provider: injected });
+  }
+  return wallets;
+}
+
+/**
+ * The wallet picked in the picker, remembered across sessions. Until one is picked, or
+ * when the remembered one is no longer installed, a lone wallet is used without asking.
+ */
+export function getSelectedWallet(): DiscoveredWallet | null {
+  const wallets = getWallets();
+  return wallets.find(wallet => wallet.info.rdns === selectedRdns) ?? (wallets.length === 1 ? wallets[0] : null);
+}
+
+export function selectWallet(rdns: string) {
+  const wallet = getWallets().find(candidate => candidate.info.rdns === rdns);
+  if (!wallet) throw new Error(`Wallet ${rdns} is not installed`);
+
+  selectedRdns = rdns;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, rdns);
+  }
+  notify();
+  return wallet;
+}
+
+/** Drops the remembered wallet, so the next connection asks again when several are installed. */
+export function forgetWallet() {
+  selectedRdns = null;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  notify();
+}
+
+/** The EIP-1193 provider the app talks to: the selected wallet's, else the legacy `window.ethereum`. */
+export function getActiveEthereum(): EIP1193Provider | null {
+  return getSelectedWallet()?.provider ?? (typeof window === 'undefined' ? null : window.ethereum ?? null);
+}
+
+/** Calls `listener` when wallets are announced or another one is selected. Returns an unsubscribe function. */
+export function onWalletsChanged(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
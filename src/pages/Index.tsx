@@ -7,8 +7,12 @@ import { PayRent } from '@/components/PayRent';
 import { RentalReceipts } from '@/components/RentalReceipts';
 import { DisputeSection } from '@/components/DisputeSection';
 import { Footer } from '@/components/Footer';
+import { useContractEventSync, useWalletQuerySync } from '@/hooks/useTrustLeaseQueries';
 
 const Index = () => {
+  useContractEventSync();
+  useWalletQuerySync();
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to 31337 to run against the local devnet from `npm run devnet`. */
+  readonly VITE_CHAIN_ID?: string;
+  /** Comma-separated RPC endpoints tried before a network's public one, e.g. VITE_RPC_URLS_545. */
+  readonly [key: `VITE_RPC_URLS_${number}`]: string | undefined;
+}
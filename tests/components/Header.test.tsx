@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { Header } from '@/components/Header';
+import { WalletProvider } from '@/components/WalletProvider';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+let wallet: MockEthereumProvider;
+
+const renderHeader = () => render(<WalletProvider><Header /></WalletProvider>);
+
+beforeEach(() => {
+  vi.stubGlobal('location', { ...window.location, reload: vi.fn() });
+});
+
+afterEach(() => {
+  cleanup();
+  wallet?.uninstall();
+  vi.unstubAllGlobals();
+});
+
+describe('Header', () => {
+  it('connects the wallet and shows the account and balance', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE] }).install();
+    wallet.handle('eth_getBalance', () => '0x1bc16d674ec80000'); // 2 FLOW
+    renderHeader();
+
+    fireEvent.click(screen.getByRole('button', { name: /connect wallet/i }));
+
+    expect(await screen.findByText('0x7099...79C8')).toBeTruthy();
+    expect(screen.getByText('2.000')).toBeTruthy();
+  });
+
+  it('offers a network switch to a wallet restored on the wrong chain', async () => {
+    wallet = new MockEthereumProvider({ chainId: 1, accounts: [ALICE], connected: true }).install();
+    wallet.handle('eth_getBalance', () => '0x0');
+    renderHeader();
+
+    fireEvent.click(await screen.findByRole('button', { name: /wrong network/i }));
+
+    await waitFor(() => expect(wallet.chainId).toBe(FLOW_EVM_TESTNET.chainId));
+    expect(wallet.callsTo('wallet_switchEthereumChain')).toHaveLength(1);
+    expect(wallet.callsTo('wallet_addEthereumChain')).toHaveLength(1);
+    await waitFor(() => expect(screen.queryByRole('button', { name: /wrong network/i })).toBeNull());
+    expect(window.location.reload).not.toHaveBeenCalled();
+  });
+
+  it('lists every network and only offers the ones TrustLease is deployed on', async () => {
+    renderHeader();
+
+    fireEvent.click(screen.getByRole('button', { name: /select network/i }));
+
+    const mainnet = screen.getByRole('button', { name: /flow evm mainnet/i }) as HTMLButtonElement;
+    const testnet = screen.getByRole('button', { name: /flow evm testnet/i }) as HTMLButtonElement;
+    expect(mainnet.disabled).toBe(true);
+    expect(mainnet.textContent).toContain('TrustLease not deployed yet');
+    expect(testnet.disabled).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { PropertySubmission } from '@/components/PropertySubmission';
+import { Header } from '@/components/Header';
+import { WalletProvider } from '@/components/WalletProvider';
+import { watchAddress } from '@/hooks/useWatchAddress';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+let wallet: MockEthereumProvider;
+
+function renderForm() {
+  return render(
+    <QueryClientProvider client={new QueryClient()}>
+      <WalletProvider>
+        <Header />
+        <PropertySubmission />
+      </WalletProvider>
+    </QueryClientProvider>,
+  );
+}
+
+// framer-motion's whileInView needs an IntersectionObserver, which jsdom lacks
+class NoopIntersectionObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+beforeEach(() => {
+  vi.stubGlobal('location', { ...window.location, reload: vi.fn() });
+  vi.stubGlobal('IntersectionObserver', NoopIntersectionObserver);
+});
+
+afterEach(() => {
+  cleanup();
+  act(() => { watchAddress(null); });
+  wallet?.uninstall();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('PropertySubmission', () => {
+  it('keeps what was typed when the wallet switches account and chain', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE, BOB], connected: true }).install();
+    wallet.handle('eth_getBalance', () => '0x0');
+    renderForm();
+    expect(await screen.findByText('0x7099...79C8')).toBeTruthy();
+
+    const propertyAddress = screen.getByPlaceholderText('123 Main St, City, Country') as HTMLInputElement;
+    const gps = screen.getByPlaceholderText('6.5244, 3.3792') as HTMLInputElement;
+    fireEvent.change(propertyAddress, { target: { value: '7 Kenyatta Lane, Nairobi' } });
+    fireEvent.change(gps, { target: { value: '-1.2864, 36.8172' } });
+
+    await act(async () => wallet.setAccounts([BOB]));
+    expect(await screen.findByText('0x3C44...93BC')).toBeTruthy();
+    await act(async () => wallet.setChain(1));
+    expect(await screen.findByRole('button', { name: /wrong network/i })).toBeTruthy();
+
+    expect(propertyAddress.value).toBe('7 Kenyatta Lane, Nairobi');
+    expect(gps.value).toBe('-1.2864, 36.8172');
+    expect(window.location.reload).not.toHaveBeenCalled();
+  });
+
+  it('blocks a listing the balance cannot pay for until the balance catches up on a new block', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    let balance = '0xb1a2bc2ec50000'; // 0.05 FLOW, half the listing fee
+    let block = 100;
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE], connected: true }).install();
+    wallet.handle('eth_getBalance', () => balance);
+    wallet.handle('eth_blockNumber', () => `0x${block.toString(16)}`);
+    renderForm();
+
+    const check = await screen.findByRole('status', { name: /affordability check/i });
+    expect(check.textContent).toContain('Listing fee0.1 FLOW');
+    expect(check.textContent).toContain('Not enough FLOW: top up 0.05 FLOW plus gas');
+    const review = screen.getByRole('button', { name: /review submission/i }) as HTMLButtonElement;
+    expect(review.disabled).toBe(true);
+
+    // A top-up lands in the next block
+    balance = '0xde0b6b3a7640000';
+    block += 1;
+    await act(() => vi.advanceTimersByTimeAsync(4_000));
+
+    await waitFor(() => expect(review.disabled).toBe(false));
+    expect(screen.getByRole('status', { name: /affordability check/i }).textContent).toContain('Your balance covers 0.1 FLOW');
+  });
+
+  it('turns off submitting while viewing another address and back on when viewing stops', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE], connected: true }).install();
+    wallet.handle('eth_getBalance', () => '0xde0b6b3a7640000');
+    renderForm();
+    const review = await screen.findByRole('button', { name: /review submission/i }) as HTMLButtonElement;
+    await waitFor(() => expect(review.disabled).toBe(false));
+
+    fireEvent.click(screen.getByRole('button', { name: 'View as address' }));
+    fireEvent.change(await screen.findByLabelText('Address to view'), { target: { value: BOB.toLowerCase() } });
+    fireEvent.click(screen.getByRole('button', { name: /view read-only/i }));
+
+    expect((await screen.findByRole('status', { name: 'Watch mode' })).textContent).toContain('0x3C44...93BC');
+    expect(screen.getByRole('note').textContent).toContain('Submitting properties is turned off');
+    expect(review.disabled).toBe(true);
+    expect(screen.queryByRole('status', { name: /affordability check/i })).toBeNull();
+    // The connected wallet stays connected underneath
+    expect(screen.getByText('0x7099...79C8')).toBeTruthy();
+
+    fireEvent.click(within(screen.getByRole('note')).getByRole('button', { name: 'Stop viewing' }));
+    await waitFor(() => expect(review.disabled).toBe(false));
+    expect(screen.queryByRole('note')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { Header } from '@/components/Header';
+import { WalletProvider } from '@/components/WalletProvider';
+import { getWalletSigner } from '@/hooks/useContract';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+import { forgetWallet, selectWallet, startWalletDiscovery } from '@/lib/wallets';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+let metaMask: MockEthereumProvider;
+let rabby: MockEthereumProvider;
+
+// MetaMask also claims window.ethereum, as it does in a real browser; Rabby only announces itself
+function installWallets({ connected = false } = {}) {
+  metaMask = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE], connected })
+    .install()
+    .announce({ name: 'MetaMask', rdns: 'io.metamask' });
+  rabby = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [BOB], connected })
+    .announce({ name: 'Rabby Wallet', rdns: 'io.rabby' });
+  for (const wallet of [metaMask, rabby]) wallet.handle('eth_getBalance', () => '0x0');
+}
+
+const renderHeader = () => render(<WalletProvider><Header /></WalletProvider>);
+
+beforeEach(() => {
+  vi.stubGlobal('location', { ...window.location, reload: vi.fn() });
+});
+
+afterEach(() => {
+  cleanup();
+  metaMask?.uninstall();
+  rabby?.uninstall();
+  vi.unstubAllGlobals();
+  act(() => forgetWallet());
+  localStorage.clear();
+});
+
+describe('WalletPicker', () => {
+  it('asks which wallet to use and signs with the one picked', async () => {
+    installWallets();
+    renderHeader();
+
+    fireEvent.click(screen.getByRole('button', { name: /connect wallet/i }));
+    const options = walletOptions(await screen.findByRole('dialog'));
+    expect(options.map(button => button.textContent)).toEqual(['MetaMask', 'Rabby Wallet']);
+    expect(screen.getByRole('button', { name: /rabby wallet/i }).querySelector('img')?.getAttribute('src')).toMatch(/^data:image\/svg\+xml/);
+
+    fireEvent.click(screen.getByRole('button', { name: /rabby wallet/i }));
+
+    expect(await screen.findByText('0x3C44...93BC')).toBeTruthy();
+    expect(metaMask.callsTo('eth_requestAccounts')).toHaveLength(0);
+    expect(localStorage.getItem('trustlease:wallet')).toBe('io.rabby');
+    expect((await getWalletSigner()).address).toBe(BOB);
+  });
+
+  it('reconnects the remembered wallet without asking and only listens to it', async () => {
+    installWallets({ connected: true });
+    startWalletDiscovery();
+    act(() => { selectWallet('io.rabby'); });
+    renderHeader();
+
+    expect(await screen.findByText('0x3C44...93BC')).toBeTruthy();
+    expect(metaMask.callsTo('eth_accounts')).toHaveLength(0);
+    expect(rabby.listenerCount('accountsChanged')).toBe(1);
+    expect(metaMask.listenerCount('accountsChanged')).toBe(0);
+  });
+
+  it('keeps the picked wallet when it locks, and forgets it only on Disconnect', async () => {
+    installWallets({ connected: true });
+    startWalletDiscovery();
+    act(() => { selectWallet('io.rabby'); });
+    renderHeader();
+    expect(await screen.findByText('0x3C44...93BC')).toBeTruthy();
+
+    await act(async () => rabby.setAccounts([]));
+    expect(await screen.findByRole('button', { name: /connect wallet/i })).toBeTruthy();
+    expect(localStorage.getItem('trustlease:wallet')).toBe('io.rabby');
+
+    // Unlocking and connecting again goes straight back to Rabby without the picker
+    await act(async () => rabby.setAccounts([BOB]));
+    fireEvent.click(screen.getByRole('button', { name: /connect wallet/i }));
+    expect(await screen.findByText('0x3C44...93BC')).toBeTruthy();
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(metaMask.callsTo('eth_requestAccounts')).toHaveLength(0);
+
+    fireEvent.click(screen.getByText('0x3C44...93BC'));
+    fireEvent.click(screen.getByRole('button', { name: /disconnect/i }));
+    expect(localStorage.getItem('trustlease:wallet')).toBeNull();
+  });
+});
+
+function walletOptions(dialog: HTMLElement) {
+  return Array.from(dialog.querySelectorAll('button')).filter(button => button.textContent !== 'Close');
+}
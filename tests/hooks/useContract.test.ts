@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { getReadDeployment, getWriteClient } from '@/hooks/useContract';
+import { decodeError } from '@/lib/contracts/errors';
+import { FLOW_EVM_MAINNET, FLOW_EVM_TESTNET, WrongNetworkError } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+let wallet: MockEthereumProvider;
+
+afterEach(() => {
+  wallet?.uninstall();
+});
+
+describe('getWriteClient', () => {
+  it('writes to the deployment on the selected network', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE], connected: true }).install();
+
+    const client = await getWriteClient();
+
+    expect(await client.escrow.getAddress()).toBe(getReadDeployment(FLOW_EVM_TESTNET).TrustLeaseEscrow.address);
+    expect(await client.signer?.getAddress()).toBe(ALICE);
+    expect(wallet.callsTo('wallet_switchEthereumChain')).toHaveLength(0);
+  });
+
+  it('asks a wallet on another chain to switch before signing', async () => {
+    wallet = new MockEthereumProvider({
+      chainId: FLOW_EVM_MAINNET.chainId,
+      knownChains: [FLOW_EVM_MAINNET.chainId, FLOW_EVM_TESTNET.chainId],
+      accounts: [ALICE],
+      connected: true,
+    }).install();
+
+    const client = await getWriteClient();
+
+    expect(wallet.callsTo('wallet_switchEthereumChain')[0].params).toEqual([{ chainId: FLOW_EVM_TESTNET.chainIdHex }]);
+    expect(Number((await client.provider.getNetwork()).chainId)).toBe(FLOW_EVM_TESTNET.chainId);
+    expect(await client.escrow.getAddress()).toBe(getReadDeployment(FLOW_EVM_TESTNET).TrustLeaseEscrow.address);
+  });
+
+  it('refuses the write when the wallet stays on another chain', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_MAINNET.chainId, accounts: [ALICE], connected: true }).install();
+
+    const error = await getWriteClient().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(WrongNetworkError);
+    expect(decodeError(error)).toMatchObject({
+      kind: 'wrong-network',
+      chainId: FLOW_EVM_MAINNET.chainId,
+      expectedChainId: FLOW_EVM_TESTNET.chainId,
+      fix: 'Switch your wallet to Flow EVM Testnet and try again.',
+    });
+    expect(wallet.callsTo('eth_sendTransaction')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { Wallet, getBytes } from 'ethers';
+import { useSiwe, setSiweVerifier, getSiweSession } from '@/hooks/useSiwe';
+import { useWallet } from '@/hooks/useWallet';
+import { WalletProvider } from '@/components/WalletProvider';
+import { createLocalSiweVerifier, parseSiweMessage, type SiweVerifier } from '@/lib/siwe';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+// Hardhat accounts #1 and #2
+const alice = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const bob = new Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+
+let wallet: MockEthereumProvider;
+
+// Signs personal_sign requests with whichever account the wallet has selected
+function installWallet() {
+  wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [alice.address, bob.address], connected: true }).install();
+  wallet.handle('eth_getBalance', () => '0x0');
+  wallet.handle('personal_sign', ([data]) => (wallet.accounts[0] === bob.address ? bob : alice).signMessage(getBytes(data as string)));
+  return wallet;
+}
+
+async function renderSiwe() {
+  const { result } = renderHook(() => ({ siwe: useSiwe(), wallet: useWallet() }), { wrapper: WalletProvider });
+  await waitFor(() => expect(result.current.wallet.chainId).toBe(FLOW_EVM_TESTNET.chainId));
+  return result;
+}
+
+afterEach(() => {
+  cleanup();
+  wallet?.uninstall();
+  setSiweVerifier(createLocalSiweVerifier({ domain: window.location.host }));
+});
+
+describe('useSiwe', () => {
+  it('signs in the connected account on its chain and remembers the session', async () => {
+    installWallet();
+    const result = await renderSiwe();
+
+    await act(() => result.current.siwe.signIn());
+
+    const message = parseSiweMessage(String(result.current.siwe.session?.message));
+    expect(message).toMatchObject({ domain: window.location.host, uri: window.location.origin, address: alice.address, chainId: FLOW_EVM_TESTNET.chainId });
+    expect(result.current.siwe).toMatchObject({ isSignedIn: true, error: null });
+    expect(wallet.callsTo('eth_sendTransaction')).toHaveLength(0);
+    expect(JSON.parse(localStorage.getItem('trustlease:siwe')!)).toEqual([result.current.siwe.session]);
+
+    await act(() => result.current.siwe.signOut());
+    expect(result.current.siwe.isSignedIn).toBe(false);
+    expect(getSiweSession(alice.address, FLOW_EVM_TESTNET.chainId)).toBeNull();
+  });
+
+  it('keeps each account signed in separately across wallet switches', async () => {
+    installWallet();
+    const result = await renderSiwe();
+    await act(() => result.current.siwe.signIn());
+
+    await act(async () => wallet.setAccounts([bob.address, alice.address]));
+    await waitFor(() => expect(result.current.wallet.address).toBe(bob.address));
+    expect(result.current.siwe.isSignedIn).toBe(false);
+
+    await act(async () => wallet.setAccounts([alice.address, bob.address]));
+    await waitFor(() => expect(result.current.siwe.isSignedIn).toBe(true));
+
+    await act(async () => wallet.setChain(1));
+    await waitFor(() => expect(result.current.siwe.isSignedIn).toBe(false));
+    await act(async () => wallet.setChain(FLOW_EVM_TESTNET.chainId));
+    await waitFor(() => expect(result.current.siwe.isSignedIn).toBe(true));
+    await act(() => result.current.siwe.signOut());
+  });
+
+  it('reports a signature the user rejected', async () => {
+    installWallet().failNext('personal_sign');
+    const result = await renderSiwe();
+
+    await act(() => result.current.siwe.signIn());
+
+    expect(result.current.siwe).toMatchObject({ isSignedIn: false, isSigningIn: false, error: 'You rejected the sign-in request in your wallet.' });
+  });
+
+  it('signs in through a pluggable verifier and drops the session when it expires', async () => {
+    const local = createLocalSiweVerifier({ domain: window.location.host });
+    const verifier: SiweVerifier = {
+      issueNonce: vi.fn(() => local.issueNonce()),
+      // A server that hands out short sessions
+      verify: vi.fn(async (message, signature) => ({ ...(await local.verify(message, signature)), expiresAt: Math.floor(Date.now() / 1000) + 1 })),
+    };
+    setSiweVerifier(verifier);
+    installWallet();
+    const result = await renderSiwe();
+
+    await act(() => result.current.siwe.signIn());
+    expect(result.current.siwe.isSignedIn).toBe(true);
+    expect(verifier.issueNonce).toHaveBeenCalledTimes(1);
+
+    await waitFor(() => expect(result.current.siwe.isSignedIn).toBe(false), { timeout: 3000 });
+    expect(getSiweSession(alice.address, FLOW_EVM_TESTNET.chainId)).toBeNull();
+  });
+});
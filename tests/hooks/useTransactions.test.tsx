@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render, renderHook, waitFor } from '@testing-library/react';
+import type { TrustLeaseTransaction } from '@/hooks/useTransactions';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+
+const provider = vi.hoisted(() => ({
+  getTransaction: vi.fn(),
+  getTransactionReceipt: vi.fn(),
+  getTransactionCount: vi.fn(),
+}));
+
+vi.mock('@/hooks/useContract', () => ({
+  getReadProvider: () => provider,
+  getWalletSigner: vi.fn(),
+}));
+
+const STORAGE_KEY = 'trustlease:transactions';
+const LANDLORD = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const HASH = `0x${'ab'.repeat(32)}`;
+
+const record = (changes: Partial<TrustLeaseTransaction>): TrustLeaseTransaction => ({
+  id: '1-1',
+  kind: 'payRent',
+  label: 'Pay rent for agreement #3',
+  status: 'submitted',
+  chainId: FLOW_EVM_TESTNET.chainId,
+  hash: HASH,
+  from: LANDLORD,
+  nonce: 4,
+  startBlock: 100,
+  createdAt: 1,
+  updatedAt: 1,
+  ...changes,
+});
+
+const stored = () => JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as TrustLeaseTransaction[];
+
+/** Loads the tracker as a fresh page would, from what the previous one left in localStorage. */
+async function reload(transactions: TrustLeaseTransaction[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  vi.resetModules();
+  const [{ useTransactions }, { TransactionTray }] = await Promise.all([
+    import('@/hooks/useTransactions'),
+    import('@/components/TransactionTray'),
+  ]);
+  const { result } = renderHook(() => useTransactions());
+  render(<TransactionTray />);
+  return result;
+}
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.clearAllMocks();
+});
+
+describe('useTransactions after a reload', () => {
+  it('resumes waiting on a submitted transaction and settles it once mined', async () => {
+    let mine!: () => void;
+    const wait = vi.fn(() => new Promise(resolve => { mine = () => resolve({ hash: HASH, status: 1 }); }));
+    const replaceableTransaction = vi.fn(() => ({ wait }));
+    provider.getTransaction.mockResolvedValue({ hash: HASH, replaceableTransaction });
+
+    const result = await reload([
+      record({ id: '1-2', status: 'awaiting-signature', hash: null }),
+      record({}),
+    ]);
+
+    // Follows the stored hash from the block it was sent at, so a replacement is still noticed
+    await waitFor(() => expect(wait).toHaveBeenCalled());
+    expect(provider.getTransaction).toHaveBeenCalledWith(HASH);
+    expect(replaceableTransaction).toHaveBeenCalledWith(100);
+    expect(result.current.pendingCount).toBe(1);
+    expect(result.current.transactions.map(t => [t.id, t.status, t.error])).toEqual([
+      ['1-2', 'failed', 'Signature request was interrupted'],
+      ['1-1', 'submitted', undefined],
+    ]);
+
+    await act(async () => mine());
+    expect(result.current.transactions[1]).toMatchObject({ id: '1-1', status: 'mined' });
+    expect(result.current.pendingCount).toBe(0);
+    expect(stored()[1]).toMatchObject({ id: '1-1', status: 'mined' });
+  });
+
+  it('settles from the receipt when the node no longer returns the transaction', async () => {
+    provider.getTransaction.mockResolvedValue(null);
+    provider.getTransactionReceipt.mockResolvedValue({ hash: HASH, status: 0 });
+
+    const result = await reload([record({})]);
+
+    await waitFor(() => expect(result.current.transactions[0].status).toBe('failed'));
+    expect(stored()[0].status).toBe('failed');
+  });
+
+  it('marks a transaction dropped from the mempool as replaced once its nonce is taken', async () => {
+    provider.getTransaction.mockResolvedValue(null);
+    provider.getTransactionReceipt.mockResolvedValue(null);
+    provider.getTransactionCount.mockResolvedValue(5);
+
+    const result = await reload([record({})]);
+
+    await waitFor(() => expect(result.current.transactions[0].status).toBe('replaced'));
+    expect(provider.getTransactionCount).toHaveBeenCalledWith(LANDLORD, 'latest');
+  });
+
+  it('leaves transactions on another chain for when that network is picked', async () => {
+    const result = await reload([record({ chainId: 747 })]);
+
+    await act(async () => undefined);
+    expect(provider.getTransaction).not.toHaveBeenCalled();
+    expect(result.current.transactions[0].status).toBe('submitted');
+  });
+});
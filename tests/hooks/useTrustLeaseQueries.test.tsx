@@ -0,0 +1,147 @@
+// @vitest-environment jsdom
+import type { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider, type QueryKey } from '@tanstack/react-query';
+import { invalidateForEvents, trustLeaseKeys, usePayRent, useTenantAgreements } from '@/hooks/useTrustLeaseQueries';
+import type { IndexedEvent } from '@/lib/contracts/eventStore';
+
+const escrow = vi.hoisted(() => ({
+  payRent: vi.fn(),
+  getTenantAgreements: vi.fn(),
+  getAgreements: vi.fn(),
+}));
+
+vi.mock('@/hooks/useContract', () => ({
+  getReadDeployment: vi.fn(),
+  getReadProvider: vi.fn(),
+  useEscrow: () => escrow,
+  usePropertyVerification: () => ({}),
+  useRentalReceipt: () => ({}),
+}));
+
+const TENANT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// Only the entity keys matter for invalidation
+const event = (name: string, ...entities: string[]) => ({ event: name, entities: entities.map(entity => `545:${entity}`) }) as IndexedEvent;
+
+/** A client holding fresh data under every key, to see which ones an event marks stale. */
+function cachedClient(keys: QueryKey[]) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  keys.forEach(queryKey => queryClient.setQueryData(queryKey, 'cached'));
+  return queryClient;
+}
+
+const CACHED: QueryKey[] = [
+  trustLeaseKeys.listingFee(),
+  trustLeaseKeys.property(1),
+  trustLeaseKeys.property(2),
+  trustLeaseKeys.verifiedProperties(),
+  trustLeaseKeys.landlordProperties(TENANT),
+  trustLeaseKeys.agreement(3),
+  trustLeaseKeys.rentPayments(3),
+  trustLeaseKeys.dispute(3),
+  trustLeaseKeys.agreement(4),
+  trustLeaseKeys.tenantAgreements(TENANT),
+  trustLeaseKeys.accountDisputes(TENANT),
+  trustLeaseKeys.receipt(5),
+  trustLeaseKeys.receipt(6),
+  trustLeaseKeys.tenantReceipts(TENANT),
+];
+
+const stale = (queryClient: QueryClient) =>
+  CACHED.filter(queryKey => queryClient.getQueryState(queryKey)?.isInvalidated).map(key => key.slice(1));
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+describe('invalidateForEvents', () => {
+  it('refreshes a property and every property list', () => {
+    const queryClient = cachedClient(CACHED);
+    invalidateForEvents(queryClient, [event('PropertyVerified', 'property:1', `address:${TENANT.toLowerCase()}`)]);
+
+    expect(stale(queryClient)).toEqual([
+      ['property', 1],
+      ['properties', 'verified'],
+      ['properties', 'landlord', TENANT.toLowerCase()],
+    ]);
+  });
+
+  it('refreshes an agreement with what is scoped under it, and every agreement list', () => {
+    const queryClient = cachedClient(CACHED);
+    invalidateForEvents(queryClient, [event('RentPaid', 'agreement:3')]);
+
+    expect(stale(queryClient)).toEqual([
+      ['agreement', 3],
+      ['agreement', 3, 'payments'],
+      ['agreement', 3, 'dispute'],
+      ['agreements', 'tenant', TENANT.toLowerCase()],
+      ['agreements', 'disputes', TENANT.toLowerCase()],
+    ]);
+  });
+
+  it('refreshes a receipt and every receipt list', () => {
+    const queryClient = cachedClient(CACHED);
+    invalidateForEvents(queryClient, [event('ReceiptMinted', 'receipt:5', 'agreement:4')]);
+
+    expect(stale(queryClient)).toEqual([
+      ['agreement', 4],
+      ['agreements', 'tenant', TENANT.toLowerCase()],
+      ['agreements', 'disputes', TENANT.toLowerCase()],
+      ['receipt', 5],
+      ['receipts', 'tenant', TENANT.toLowerCase()],
+    ]);
+  });
+
+  it('leaves the cache alone for events that name no entity', () => {
+    const queryClient = cachedClient(CACHED);
+    invalidateForEvents(queryClient, [event('ListingFeeUpdated'), event('GasSponsorshipGranted', `address:${TENANT.toLowerCase()}`)]);
+
+    expect(stale(queryClient)).toEqual([]);
+  });
+});
+
+function wrapperFor(queryClient: QueryClient) {
+  return ({ children }: { children: ReactNode }) => <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+}
+
+describe('query hooks', () => {
+  it('reads a tenant\'s agreements under a key that ignores address case, and waits for a tenant', async () => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    escrow.getTenantAgreements.mockResolvedValue([3n, 4n]);
+    escrow.getAgreements.mockResolvedValue(['agreement 3', 'agreement 4']);
+
+    const { result, rerender } = renderHook(({ tenant }) => useTenantAgreements(tenant), {
+      wrapper: wrapperFor(queryClient),
+      initialProps: { tenant: null as string | null },
+    });
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(escrow.getTenantAgreements).not.toHaveBeenCalled();
+
+    rerender({ tenant: TENANT });
+    await waitFor(() => expect(result.current.data).toEqual(['agreement 3', 'agreement 4']));
+    expect(escrow.getAgreements).toHaveBeenCalledWith([3, 4]);
+    expect(queryClient.getQueryData(trustLeaseKeys.tenantAgreements(TENANT.toUpperCase().replace('0X', '0x')))).toEqual(['agreement 3', 'agreement 4']);
+  });
+});
+
+describe('mutation hooks', () => {
+  it('refreshes the agreement and the agreement and receipt lists after paying rent, even when the send fails', async () => {
+    const queryClient = cachedClient(CACHED);
+    escrow.payRent.mockRejectedValue(new Error('Transaction cancelled'));
+    const { result } = renderHook(() => usePayRent(), { wrapper: wrapperFor(queryClient) });
+
+    await act(() => result.current.mutateAsync([3, 'ipfs://receipt', { value: 1n }]).catch(() => undefined));
+
+    expect(stale(queryClient)).toEqual([
+      ['agreement', 3],
+      ['agreement', 3, 'payments'],
+      ['agreement', 3, 'dispute'],
+      ['agreements', 'tenant', TENANT.toLowerCase()],
+      ['agreements', 'disputes', TENANT.toLowerCase()],
+      ['receipts', 'tenant', TENANT.toLowerCase()],
+    ]);
+  });
+});
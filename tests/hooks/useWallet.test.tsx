@@ -0,0 +1,247 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { useWallet, useWalletChange } from '@/hooks/useWallet';
+import { WalletProvider } from '@/components/WalletProvider';
+import { selectNetwork } from '@/hooks/useNetwork';
+import { trackTransaction } from '@/hooks/useTransactions';
+import { FLOW_EVM_MAINNET, FLOW_EVM_TESTNET, LOCAL_DEVNET } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const ONE_FLOW = '0xde0b6b3a7640000';
+
+let wallet: MockEthereumProvider;
+
+function installWallet(options: ConstructorParameters<typeof MockEthereumProvider>[0]) {
+  wallet = new MockEthereumProvider({ accounts: [ALICE], ...options }).install();
+  wallet.handle('eth_getBalance', () => ONE_FLOW);
+  return wallet;
+}
+
+beforeEach(() => {
+  // Chain switches must be handled in place; a reload would lose half-filled forms
+  vi.stubGlobal('location', { ...window.location, reload: vi.fn() });
+});
+
+afterEach(() => {
+  cleanup();
+  wallet?.uninstall();
+  localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  act(() => { selectNetwork(FLOW_EVM_TESTNET.chainId); });
+});
+
+describe('useWallet', () => {
+  it('connects and reads the balance on the right network', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.connect());
+
+    expect(result.current).toMatchObject({ address: ALICE, balance: '1.0', isConnected: true, isWrongNetwork: false, error: null });
+    expect(wallet.callsTo('wallet_switchEthereumChain')).toHaveLength(0);
+  });
+
+  it('restores a connection the site already has', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, connected: true });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+    expect(result.current.address).toBe(ALICE);
+    expect(wallet.callsTo('eth_requestAccounts')).toHaveLength(0);
+  });
+
+  it('stays disconnected until asked when the site was never approved', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await waitFor(() => expect(wallet.callsTo('eth_accounts')).toHaveLength(1));
+    expect(result.current.isConnected).toBe(false);
+  });
+
+  it('stays disconnected after Disconnect when another network is picked', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, connected: true });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    act(() => result.current.disconnect());
+    act(() => { selectNetwork(FLOW_EVM_MAINNET.chainId); });
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+
+    expect(result.current).toMatchObject({ address: null, isConnected: false });
+    expect(wallet.callsTo('eth_accounts')).toHaveLength(1);
+  });
+
+  it('stays disconnected across a reload until the user connects again', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, connected: true });
+    const first = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await waitFor(() => expect(first.result.current.isConnected).toBe(true));
+    act(() => first.result.current.disconnect());
+    first.unmount();
+
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+    expect(result.current.isConnected).toBe(false);
+
+    await act(() => result.current.connect());
+    expect(result.current).toMatchObject({ address: ALICE, isConnected: true });
+  });
+
+  it('switches a wallet on another chain it already knows', async () => {
+    installWallet({ chainId: 1, knownChains: [1, FLOW_EVM_TESTNET.chainId] });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.connect());
+
+    expect(wallet.callsTo('wallet_switchEthereumChain')[0].params).toEqual([{ chainId: FLOW_EVM_TESTNET.chainIdHex }]);
+    expect(wallet.callsTo('wallet_addEthereumChain')).toHaveLength(0);
+    expect(wallet.chainId).toBe(FLOW_EVM_TESTNET.chainId);
+    expect(result.current).toMatchObject({ isConnected: true, isWrongNetwork: false, chainId: FLOW_EVM_TESTNET.chainId });
+    expect(window.location.reload).not.toHaveBeenCalled();
+  });
+
+  it('adds the network when the wallet answers 4902', async () => {
+    installWallet({ chainId: 1 });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.connect());
+
+    expect(wallet.callsTo('wallet_addEthereumChain')[0].params).toEqual([{
+      chainId: FLOW_EVM_TESTNET.chainIdHex,
+      chainName: FLOW_EVM_TESTNET.name,
+      rpcUrls: FLOW_EVM_TESTNET.rpcUrls,
+      blockExplorerUrls: [FLOW_EVM_TESTNET.blockExplorer],
+      nativeCurrency: FLOW_EVM_TESTNET.currency,
+    }]);
+    expect(wallet.chainId).toBe(FLOW_EVM_TESTNET.chainId);
+    expect(result.current.isConnected).toBe(true);
+  });
+
+  it('reports a rejected connection request', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId }).failNext('eth_requestAccounts');
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.connect());
+
+    expect(result.current).toMatchObject({ isConnected: false, isConnecting: false, error: 'User rejected the request.' });
+  });
+
+  it('follows account switches and disconnects in the wallet', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE, BOB] });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+
+    await act(async () => wallet.setAccounts([BOB]));
+    await waitFor(() => expect(result.current.address).toBe(BOB));
+
+    await act(async () => wallet.setAccounts([]));
+    expect(result.current).toMatchObject({ address: null, isConnected: false });
+  });
+
+  it('ignores account switches in the wallet after Disconnect', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE, BOB] });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+
+    act(() => result.current.disconnect());
+    await act(async () => wallet.setAccounts([BOB]));
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+
+    expect(result.current).toMatchObject({ address: null, balance: null, isConnected: false });
+    expect(wallet.callsTo('eth_getBalance')).toHaveLength(1);
+  });
+
+  it('follows chain switches in the wallet without reloading', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+
+    wallet.handle('eth_getBalance', () => '0x0');
+    await act(async () => wallet.setChain(1));
+
+    await waitFor(() => expect(result.current.balance).toBe('0.0'));
+    expect(result.current).toMatchObject({ address: ALICE, isConnected: true, chainId: 1, isWrongNetwork: true });
+    expect(window.location.reload).not.toHaveBeenCalled();
+  });
+
+  it('resets state kept for the previous account or chain, once per switch', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE, BOB] });
+    const reset = vi.fn();
+    const { result } = renderHook(() => {
+      useWalletChange(reset);
+      return useWallet();
+    }, { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+    reset.mockClear();
+
+    await act(async () => wallet.setAccounts([BOB]));
+    await waitFor(() => expect(result.current.balance).toBe('1.0'));
+    expect(reset).toHaveBeenCalledTimes(1);
+
+    await act(async () => wallet.setChain(1));
+    await waitFor(() => expect(result.current.chainId).toBe(1));
+    expect(reset).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-reads the balance once a TrustLease transaction settles', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+
+    wallet.handle('eth_getBalance', () => '0x0');
+    await act(() => trackTransaction('payRent', 'Rent for agreement #2', () => Promise.reject(new Error('Nonce too low'))).catch(() => null));
+
+    await waitFor(() => expect(result.current.balance).toBe('0.0'));
+  });
+
+  it('targets the network picked in the app', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+    await act(() => result.current.connect());
+
+    act(() => { selectNetwork(FLOW_EVM_MAINNET.chainId); });
+    expect(result.current).toMatchObject({ isWrongNetwork: true, networkConfig: FLOW_EVM_MAINNET });
+
+    await act(() => result.current.switchNetwork());
+    expect(wallet.callsTo('wallet_addEthereumChain')[0].params).toMatchObject([{ chainId: FLOW_EVM_MAINNET.chainIdHex, rpcUrls: FLOW_EVM_MAINNET.rpcUrls }]);
+    expect(wallet.chainId).toBe(FLOW_EVM_MAINNET.chainId);
+  });
+
+  it('leaves out the explorer when adding a network without one', async () => {
+    installWallet({ chainId: 1 });
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.switchNetwork(LOCAL_DEVNET));
+
+    expect(wallet.callsTo('wallet_addEthereumChain')[0].params).toEqual([expect.objectContaining({ blockExplorerUrls: undefined })]);
+  });
+
+  it('shares one connection and one set of listeners between every caller', async () => {
+    installWallet({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE, BOB] });
+    const { result } = renderHook(() => ({ header: useWallet(), form: useWallet() }), { wrapper: WalletProvider });
+
+    await act(() => result.current.header.connect());
+    expect(result.current.form).toMatchObject({ address: ALICE, balance: '1.0', isConnected: true });
+
+    await act(async () => wallet.setAccounts([BOB]));
+    await waitFor(() => expect(result.current.form.address).toBe(BOB));
+    expect(wallet.listenerCount('accountsChanged')).toBe(1);
+    expect(wallet.callsTo('eth_requestAccounts')).toHaveLength(1);
+  });
+
+  it('must be used inside a WalletProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useWallet())).toThrow('useWallet must be used inside <WalletProvider>');
+  });
+
+  it('asks for an install when there is no wallet', async () => {
+    const { result } = renderHook(() => useWallet(), { wrapper: WalletProvider });
+
+    await act(() => result.current.connect());
+
+    expect(result.current.error).toBe('Please install MetaMask or a compatible wallet');
+  });
+});
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { useViewer, useWatchAddress, watchAddress } from '@/hooks/useWatchAddress';
+import { WalletProvider } from '@/components/WalletProvider';
+import { FLOW_EVM_TESTNET } from '@/lib/networks';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+let wallet: MockEthereumProvider | undefined;
+
+afterEach(() => {
+  cleanup();
+  act(() => { watchAddress(null); });
+  wallet?.uninstall();
+  wallet = undefined;
+  window.history.replaceState(null, '', '/');
+});
+
+describe('useWatchAddress', () => {
+  it('opens watching the address in the URL', async () => {
+    window.history.replaceState(null, '', `/?viewAs=${BOB.toLowerCase()}#receipts`);
+    vi.resetModules();
+    const { getWatchedAddress } = await import('@/hooks/useWatchAddress');
+
+    expect(getWatchedAddress()).toBe(BOB);
+  });
+
+  it('ignores a URL parameter that is not an address', async () => {
+    window.history.replaceState(null, '', '/?viewAs=vitalik.eth');
+    vi.resetModules();
+    const { getWatchedAddress } = await import('@/hooks/useWatchAddress');
+
+    expect(getWatchedAddress()).toBeNull();
+  });
+
+  it('keeps the URL in step so the view can be shared', () => {
+    window.history.replaceState(null, '', '/?ref=docs#disputes');
+    const { result } = renderHook(() => useWatchAddress());
+
+    act(() => { result.current.watchAddress(BOB.toLowerCase()); });
+    expect(result.current).toMatchObject({ watchedAddress: BOB, isWatching: true });
+    expect(window.location.search).toBe(`?ref=docs&viewAs=${BOB}`);
+    expect(window.location.hash).toBe('#disputes');
+
+    act(() => { result.current.watchAddress(null); });
+    expect(result.current.isWatching).toBe(false);
+    expect(window.location.search).toBe('?ref=docs');
+  });
+
+  it('rejects anything that is not an address', () => {
+    expect(() => watchAddress('0x1234')).toThrow('Not a valid address');
+    expect(() => watchAddress(BOB.replace('C44', 'c44'))).toThrow('Not a valid address');
+  });
+});
+
+describe('useViewer', () => {
+  it('follows the connected wallet until an address is watched', async () => {
+    wallet = new MockEthereumProvider({ chainId: FLOW_EVM_TESTNET.chainId, accounts: [ALICE], connected: true }).install();
+    wallet.handle('eth_getBalance', () => '0x0');
+    const { result } = renderHook(() => useViewer(), { wrapper: WalletProvider });
+
+    await waitFor(() => expect(result.current).toEqual({ address: ALICE, isWatching: false }));
+
+    act(() => { watchAddress(BOB); });
+    expect(result.current).toEqual({ address: BOB, isWatching: true });
+
+    act(() => { watchAddress(null); });
+    expect(result.current).toEqual({ address: ALICE, isWatching: false });
+  });
+
+  it('watches without any wallet connected', () => {
+    const { result } = renderHook(() => useViewer(), { wrapper: WalletProvider });
+    expect(result.current).toEqual({ address: null, isWatching: false });
+
+    act(() => { watchAddress(BOB); });
+    expect(result.current).toEqual({ address: BOB, isWatching: true });
+  });
+});
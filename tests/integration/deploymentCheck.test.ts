@@ -0,0 +1,72 @@
+/**
+ * Runs the startup compatibility check against real deployments on a local devnet,
+ * then against deliberately broken configurations of the same contracts.
+ */
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Signer } from 'ethers';
+import { TrustLeaseClient } from '../../src/lib/contracts/client';
+import { PropertyVerificationABI, type ChainDeployment } from '../../src/lib/contracts';
+import { checkDeploymentCompatibility } from '../../src/lib/contracts/compatibility';
+import { deployTrustLease, getDevnetAccounts, startOrAttachNode, type DevnetNode } from '../../scripts/devnet';
+
+const RPC_URL = process.env.TEST_RPC_URL || 'http://127.0.0.1:8546';
+
+// The shape contracts/interfaces/ITrustLease.sol used to declare
+const STALE_GET_PROPERTY_DETAILS =
+  'function getPropertyDetails(uint256 propertyId) view returns (address owner, string propertyAddress, string documentHash, bool isVerified)';
+
+let node: DevnetNode;
+let admin: Signer;
+let deployment: ChainDeployment;
+
+const check = (target: ChainDeployment) => checkDeploymentCompatibility(node.provider, target);
+
+beforeAll(async () => {
+  node = await startOrAttachNode(RPC_URL);
+  admin = (await getDevnetAccounts(node.provider)).admin;
+  deployment = await deployTrustLease(admin);
+});
+
+afterAll(() => node?.stop());
+
+describe('deployment compatibility check', () => {
+  it('passes a deployment made from the current contracts', async () => {
+    expect(await check(deployment)).toEqual({ chainId: 31337, issues: [] });
+  });
+
+  it('flags an address without code', async () => {
+    const target = { ...deployment, TrustLeaseEscrow: { ...deployment.TrustLeaseEscrow, address: await admin.getAddress() } };
+
+    const { issues } = await check(target);
+    expect(issues).toEqual([expect.objectContaining({ contract: 'TrustLeaseEscrow', kind: 'no-code' })]);
+  });
+
+  it('flags a pinned ABI whose return shape drifted from the contract', async () => {
+    const abi = [...PropertyVerificationABI.filter(fragment => !('name' in fragment) || fragment.name !== 'getPropertyDetails'), STALE_GET_PROPERTY_DETAILS];
+    const target = { ...deployment, PropertyVerification: { ...deployment.PropertyVerification, abi } };
+
+    const { issues } = await check(target);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ contract: 'PropertyVerification', kind: 'abi-mismatch' });
+    expect(issues[0].message).toContain('returns (address,string,string,bool)');
+  });
+
+  it('flags bytecode that lacks the functions the app calls and an escrow wired elsewhere', async () => {
+    const target = { ...deployment, PropertyVerification: { ...deployment.RentalReceipt, abi: deployment.PropertyVerification.abi } };
+
+    const { issues } = await check(target);
+    expect(issues.filter(issue => issue.kind === 'missing-function').map(issue => issue.message)).toContainEqual(
+      expect.stringContaining('getPropertyDetails(uint256)')
+    );
+    expect(issues).toContainEqual(expect.objectContaining({ contract: 'TrustLeaseEscrow', kind: 'wiring' }));
+  });
+
+  it('flags an escrow that cannot mint receipts', async () => {
+    const unminted = await deployTrustLease(admin);
+    const { rentalReceipt } = new TrustLeaseClient({ deployment: unminted, signer: admin });
+    await (await rentalReceipt.revokeRole(await rentalReceipt.MINTER_ROLE(), unminted.TrustLeaseEscrow.address)).wait();
+
+    const { issues } = await check(unminted);
+    expect(issues).toEqual([expect.objectContaining({ contract: 'RentalReceipt', kind: 'minter-role' })]);
+  });
+});
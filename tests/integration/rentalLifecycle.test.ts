@@ -0,0 +1,265 @@
+/**
+ * Drives the full rental lifecycle through TrustLeaseClient against real contracts on a
+ * local node (started on TEST_RPC_URL, default http://127.0.0.1:8546, unless one is running).
+ */
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseEther, type ContractTransactionResponse, type JsonRpcProvider, type Signer } from 'ethers';
+import { TrustLeaseClient } from '../../src/lib/contracts/client';
+import { agreementStatus, type ChainDeployment } from '../../src/lib/contracts';
+import { decodeError } from '../../src/lib/contracts/errors';
+import { decodeLogs } from '../../src/lib/contracts/indexer';
+import type { IndexedEvent } from '../../src/lib/contracts/eventStore';
+import { DEVNET_CHAIN_ID, deployTrustLease, startOrAttachNode, type DevnetNode } from '../../scripts/devnet';
+
+const RPC_URL = process.env.TEST_RPC_URL || 'http://127.0.0.1:8546';
+const DAY = 24 * 60 * 60;
+const LISTING_FEE = parseEther('0.1');
+const KYC_FEE = parseEther('0.05');
+const DEPOSIT = parseEther('2');
+const RENT = parseEther('1');
+
+let node: DevnetNode;
+let provider: JsonRpcProvider;
+let deployment: ChainDeployment;
+let admin: TrustLeaseClient;
+let landlord: TrustLeaseClient;
+let tenant: TrustLeaseClient;
+// Holds no keys, like the app in watch mode
+let watcher: TrustLeaseClient;
+let landlordAddress: string;
+let tenantAddress: string;
+let feeWallet: string;
+
+/** Sends a transaction and returns its gas cost and decoded TrustLease events. */
+async function send(tx: Promise<ContractTransactionResponse>) {
+  const receipt = (await (await tx).wait())!;
+  const events = decodeLogs(DEVNET_CHAIN_ID, deployment, [...receipt.logs], new Map());
+  return { gasCost: receipt.fee, events };
+}
+
+const eventNames = (events: IndexedEvent[]) => events.map(e => `${e.contract}.${e.event}`);
+
+function findEvent<C extends IndexedEvent['contract'], E extends string>(events: IndexedEvent[], contract: C, event: E) {
+  const found = events.find(e => e.contract === contract && e.event === event);
+  if (!found) throw new Error(`Expected ${contract}.${event}, got ${eventNames(events).join(', ')}`);
+  return found as Extract<IndexedEvent, { contract: C; event: E }>;
+}
+
+const balance = (address: string) => provider.getBalance(address);
+
+async function timeTravel(seconds: number) {
+  await provider.send('evm_increaseTime', [seconds]);
+  await provider.send('evm_mine', []);
+}
+
+async function now() {
+  return (await provider.getBlock('latest'))!.timestamp;
+}
+
+async function listAndVerify(address: string) {
+  const { events } = await send(landlord.submitProperty(address, 'ipfs://docs', 'ipfs://video', '6.5244, 3.3792', 1, LISTING_FEE));
+  const propertyId = Number(findEvent(events, 'PropertyVerification', 'PropertySubmitted').args.propertyId);
+  await send(admin.propertyVerification.verifyProperty(propertyId));
+  return propertyId;
+}
+
+async function createActiveAgreement(propertyId: number, leaseDays = 365) {
+  const start = (await now()) + 60;
+  const { events } = await send(
+    tenant.createAgreement(propertyId, landlordAddress, RENT, 30 * DAY, start, start + leaseDays * DAY, 'ipfs://terms', DEPOSIT)
+  );
+  const agreementId = Number(findEvent(events, 'TrustLeaseEscrow', 'AgreementCreated').args.agreementId);
+  await send(tenant.escrow.tenantConfirm(agreementId));
+  await send(landlord.escrow.landlordConfirm(agreementId));
+  return agreementId;
+}
+
+beforeAll(async () => {
+  node = await startOrAttachNode(RPC_URL);
+  provider = node.provider;
+  const signers: Signer[] = await Promise.all([0, 1, 2, 3].map(i => provider.getSigner(i)));
+  [landlordAddress, tenantAddress, feeWallet] = await Promise.all([1, 2, 3].map(i => signers[i].getAddress()));
+
+  deployment = await deployTrustLease(signers[0], feeWallet);
+  const client = new TrustLeaseClient({ deployment, provider });
+  watcher = client;
+  admin = client.connect(signers[0]);
+  landlord = client.connect(signers[1]);
+  tenant = client.connect(signers[2]);
+});
+
+afterAll(() => node?.stop());
+
+describe('rental lifecycle', () => {
+  let propertyId: number;
+  let agreementId: number;
+
+  it('charges the listing and KYC fees when a property is submitted', async () => {
+    const feesBefore = await balance(feeWallet);
+    const { events } = await send(
+      landlord.submitProperty('12 Marina Road, Lagos', 'ipfs://docs', 'ipfs://video', '6.4281, 3.4219', 2, LISTING_FEE + KYC_FEE)
+    );
+
+    const submitted = findEvent(events, 'PropertyVerification', 'PropertySubmitted');
+    propertyId = Number(submitted.args.propertyId);
+    expect(submitted.args.landlord).toBe(landlordAddress);
+    expect(submitted.args.kycLevel).toBe(2n);
+    expect(await balance(feeWallet)).toBe(feesBefore + LISTING_FEE + KYC_FEE);
+
+    const details = await landlord.getPropertyDetails(propertyId);
+    expect(details.isVerified).toBe(false);
+  });
+
+  it('requires a linked KYC proof before verifying an enhanced listing', async () => {
+    const error = await admin.propertyVerification.verifyProperty.staticCall(propertyId).catch(e => e);
+    expect(decodeError(error)).toMatchObject({ kind: 'revert', reason: 'Government ID not verified' });
+
+    const { events } = await send(admin.propertyVerification.linkKYCProof(propertyId, 'inq_123', '2025-01-01T10:00:00Z', true, true));
+    expect(findEvent(events, 'PropertyVerification', 'KYCProofLinked').args.personaVerificationId).toBe('inq_123');
+    expect((await admin.propertyVerification.getKYCProof(propertyId)).governmentIdVerified).toBe(true);
+  });
+
+  it('verifies the property and mints the landlord a badge', async () => {
+    const { events } = await send(admin.propertyVerification.verifyProperty(propertyId));
+
+    expect(eventNames(events)).toEqual(['PropertyVerification.Transfer', 'PropertyVerification.PropertyVerified']);
+    expect(await admin.propertyVerification.ownerOf(propertyId)).toBe(landlordAddress);
+    expect((await admin.getPropertyDetails(propertyId)).isVerified).toBe(true);
+  });
+
+  it('blocks an agreement with the wrong landlord before anything is sent', async () => {
+    const start = (await now()) + 60;
+    const error = await tenant
+      .prepareCreateAgreement(propertyId, tenantAddress, RENT, 30 * DAY, start, start + 365 * DAY, 'ipfs://terms', DEPOSIT)
+      .catch(e => e);
+
+    expect(decodeError(error)).toMatchObject({ kind: 'revert', reason: 'Landlord mismatch' });
+  });
+
+  it('escrows the deposit when the tenant creates an agreement', async () => {
+    const start = (await now()) + 60;
+    const prepared = await tenant.prepareCreateAgreement(
+      propertyId, landlordAddress, RENT, 30 * DAY, start, start + 365 * DAY, 'ipfs://terms', DEPOSIT
+    );
+    expect(prepared.preview.platformFee).toBe(DEPOSIT * 2n / 100n);
+
+    const escrowBefore = await balance(deployment.TrustLeaseEscrow.address);
+    const tx = await prepared.send();
+    // The wallet is asked for the same padded limit the preview charged for
+    expect(tx.gasLimit).toBe(prepared.preview.gasLimit);
+    const { events } = await send(Promise.resolve(tx));
+
+    const created = findEvent(events, 'TrustLeaseEscrow', 'AgreementCreated');
+    agreementId = Number(created.args.agreementId);
+    expect(created.args).toMatchObject({ tenant: tenantAddress, landlord: landlordAddress, depositAmount: DEPOSIT, monthlyRent: RENT });
+    expect(await balance(deployment.TrustLeaseEscrow.address)).toBe(escrowBefore + DEPOSIT);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Pending');
+  });
+
+  it('activates once both parties confirm', async () => {
+    const tenantConfirm = await send(tenant.escrow.tenantConfirm(agreementId));
+    expect(eventNames(tenantConfirm.events)).toEqual(['TrustLeaseEscrow.TenantConfirmed']);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Pending');
+
+    const landlordConfirm = await send(landlord.escrow.landlordConfirm(agreementId));
+    expect(eventNames(landlordConfirm.events)).toEqual(['TrustLeaseEscrow.LandlordConfirmed']);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Active');
+  });
+
+  it('splits rent between landlord and platform and mints a payment receipt', async () => {
+    const [landlordBefore, feesBefore] = await Promise.all([balance(landlordAddress), balance(feeWallet)]);
+    const { events } = await send(tenant.payRent(agreementId, 'ipfs://rent-1', RENT));
+
+    const processingFee = RENT / 100n;
+    expect(await balance(landlordAddress)).toBe(landlordBefore + RENT - processingFee);
+    expect(await balance(feeWallet)).toBe(feesBefore + processingFee);
+
+    const minted = findEvent(events, 'RentalReceipt', 'ReceiptMinted');
+    expect(minted.args).toMatchObject({ tenant: tenantAddress, landlord: landlordAddress, amount: RENT });
+    expect(findEvent(events, 'TrustLeaseEscrow', 'RentPaid').args.amount).toBe(RENT);
+
+    const receipts = await tenant.getTenantReceipts(tenantAddress);
+    expect(receipts).toEqual([minted.args.receiptId]);
+    expect(await tenant.rentalReceipt.ownerOf(minted.args.receiptId)).toBe(tenantAddress);
+    expect((await tenant.getRentPayments(agreementId))).toHaveLength(1);
+  });
+
+  it('auto-raises a rent dispute three days past the grace period', async () => {
+    const agreement = await tenant.getAgreement(agreementId);
+    const graceEnd = Number(agreement.nextRentDueDate + agreement.overdueGracePeriod);
+    await timeTravel(graceEnd - (await now()) + 3 * DAY + 60);
+
+    const { events } = await send(landlord.escrow.checkRentOverdue(agreementId));
+
+    expect(findEvent(events, 'TrustLeaseEscrow', 'RentOverdue').args.daysOverdue).toBe(3n);
+    expect(findEvent(events, 'TrustLeaseEscrow', 'DisputeRaised').args.isRentDispute).toBe(true);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Disputed');
+    expect((await tenant.getDispute(agreementId)).isRentDispute).toBe(true);
+  });
+
+  it('lets anyone list the disputes on a landlord\'s agreements without keys', async () => {
+    const agreementIds = (await watcher.getLandlordAgreements(landlordAddress)).map(Number);
+    expect(agreementIds).toContain(agreementId);
+
+    const disputes = await watcher.getDisputes(agreementIds);
+    expect(disputes.filter(dispute => dispute.createdAt > 0n)).toEqual([
+      expect.objectContaining({ agreementId, reason: 'Rent payment overdue beyond grace period', resolved: false }),
+    ]);
+  });
+
+  it('resolves the dispute in the landlord\'s favour minus the platform fee', async () => {
+    const [landlordBefore, feesBefore] = await Promise.all([balance(landlordAddress), balance(feeWallet)]);
+    const { events } = await send(admin.escrow.resolveDispute(agreementId, false));
+
+    const platformFee = DEPOSIT * 2n / 100n;
+    expect(await balance(landlordAddress)).toBe(landlordBefore + DEPOSIT - platformFee);
+    expect(await balance(feeWallet)).toBe(feesBefore + platformFee);
+    expect(findEvent(events, 'TrustLeaseEscrow', 'DepositReleased').args).toMatchObject({ amount: DEPOSIT - platformFee, platformFee });
+    expect(findEvent(events, 'TrustLeaseEscrow', 'DisputeResolved').args.winner).toBe(landlordAddress);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Completed');
+  });
+});
+
+describe('lease endings', () => {
+  it('releases the deposit to the landlord after the lease and mints a final receipt', async () => {
+    const propertyId = await listAndVerify('48 Independence Ave, Accra');
+    const agreementId = await createActiveAgreement(propertyId, 30);
+    await timeTravel(31 * DAY);
+
+    const [landlordBefore, feesBefore, tenantBefore] = await Promise.all([balance(landlordAddress), balance(feeWallet), balance(tenantAddress)]);
+    const { events, gasCost } = await send(tenant.escrow.releaseDeposit(agreementId));
+
+    const platformFee = DEPOSIT * 2n / 100n;
+    expect(await balance(landlordAddress)).toBe(landlordBefore + DEPOSIT - platformFee);
+    expect(await balance(feeWallet)).toBe(feesBefore + platformFee);
+    expect(await balance(tenantAddress)).toBe(tenantBefore - gasCost);
+    expect(eventNames(events)).toEqual(expect.arrayContaining([
+      'RentalReceipt.ReceiptMinted',
+      'TrustLeaseEscrow.DepositReleased',
+      'TrustLeaseEscrow.FeeBreakdownCalculated',
+    ]));
+    expect(findEvent(events, 'TrustLeaseEscrow', 'FeeBreakdownCalculated').args).toMatchObject({
+      landlordNet: DEPOSIT - platformFee,
+      platformTotal: platformFee,
+    });
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Completed');
+  });
+
+  it('terminates early with a pro-rated refund and pays the rest out minus fees', async () => {
+    const propertyId = await listAndVerify('7 Kenyatta Lane, Nairobi');
+    const agreementId = await createActiveAgreement(propertyId);
+    const refund = DEPOSIT / 2n;
+
+    const [landlordBefore, feesBefore, tenantBefore] = await Promise.all([balance(landlordAddress), balance(feeWallet), balance(tenantAddress)]);
+    const { events } = await send(admin.escrow.terminateAgreement(agreementId, refund));
+
+    const remaining = DEPOSIT - refund;
+    const platformFee = remaining * 2n / 100n;
+    expect(await balance(tenantAddress)).toBe(tenantBefore + refund);
+    expect(await balance(landlordAddress)).toBe(landlordBefore + remaining - platformFee);
+    expect(await balance(feeWallet)).toBe(feesBefore + platformFee);
+    expect(findEvent(events, 'TrustLeaseEscrow', 'TenantRefunded').args.amount).toBe(refund);
+    expect(findEvent(events, 'TrustLeaseEscrow', 'AgreementTerminated').args.refundAmount).toBe(refund);
+    expect(agreementStatus((await tenant.getAgreement(agreementId)).status)).toBe('Terminated');
+  });
+});
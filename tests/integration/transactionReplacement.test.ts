@@ -0,0 +1,117 @@
+/**
+ * Speeds up and cancels transactions stuck in the mempool, with automining paused so
+ * the originals stay pending until the test mines a block.
+ */
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { parseEther, type JsonRpcProvider, type Signer } from 'ethers';
+import { TrustLeaseClient } from '../../src/lib/contracts/client';
+import { decodeError } from '../../src/lib/contracts/errors';
+import {
+  cancelTransaction,
+  getTransactions,
+  speedUpTransaction,
+  trackTransaction,
+  type TrustLeaseTransaction,
+} from '../../src/hooks/useTransactions';
+import { deployTrustLease, getDevnetAccounts, startOrAttachNode, type DevnetNode } from '../../scripts/devnet';
+
+const RPC_URL = process.env.TEST_RPC_URL || 'http://127.0.0.1:8546';
+const LISTING_FEE = parseEther('0.1');
+
+let node: DevnetNode;
+let provider: JsonRpcProvider;
+let landlordSigner: Signer;
+let tenantSigner: Signer;
+let landlord: TrustLeaseClient;
+let landlordAddress: string;
+
+/** Starts a listing with mining paused and returns the tracker's record once it is in the mempool. */
+async function sendStuckListing() {
+  await provider.send('evm_setAutomine', [false]);
+  const known = new Set(getTransactions().map(t => t.id));
+  const tracked = trackTransaction('submitProperty', 'List 12 Marina Road', () =>
+    landlord.submitProperty('12 Marina Road, Lagos', 'ipfs://docs', 'ipfs://video', '6.4281, 3.4219', 1, LISTING_FEE)
+  );
+  tracked.catch(() => undefined);
+
+  let record: TrustLeaseTransaction | undefined;
+  while (!record) {
+    record = getTransactions().find(t => !known.has(t.id) && t.status === 'submitted');
+    if (!record) await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return { record, tracked };
+}
+
+/**
+ * Keeps producing blocks until `tracked` settles, as a live chain would. ethers only
+ * re-checks for replacements on new blocks after the one it first sees.
+ */
+async function mineUntilSettled(tracked: Promise<unknown>) {
+  let settled = false;
+  tracked.then(() => { settled = true; }, () => { settled = true; });
+  while (!settled) {
+    await provider.send('evm_mine', []);
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+}
+
+const recordFor = (id: string) => getTransactions().find(t => t.id === id);
+const listingCount = async () => (await landlord.getLandlordProperties(landlordAddress)).length;
+
+beforeAll(async () => {
+  node = await startOrAttachNode(RPC_URL);
+  provider = node.provider;
+  const accounts = await getDevnetAccounts(provider);
+  landlordSigner = accounts.landlord;
+  tenantSigner = accounts.tenant;
+  landlordAddress = await landlordSigner.getAddress();
+  landlord = new TrustLeaseClient({ deployment: await deployTrustLease(accounts.admin), provider }).connect(landlordSigner);
+});
+
+afterEach(() => provider.send('evm_setAutomine', [true]));
+
+afterAll(() => node?.stop());
+
+describe('stuck transactions', () => {
+  it('speeds up a pending transaction and resolves with whichever one mined', async () => {
+    const before = await listingCount();
+    const { record, tracked } = await sendStuckListing();
+
+    const replacement = await speedUpTransaction(record.id, landlordSigner);
+    expect(replacement.nonce).toBe(record.nonce);
+    expect(recordFor(record.id)?.replacing).toEqual({ action: 'speed-up', hash: replacement.hash });
+
+    await mineUntilSettled(tracked);
+    const receipt = await tracked;
+
+    expect(receipt?.hash).toBe(replacement.hash);
+    expect(recordFor(record.id)).toMatchObject({ status: 'mined', replacedBy: replacement.hash });
+    expect(await listingCount()).toBe(before + 1);
+  });
+
+  it('cancels a pending transaction with an empty self-transfer on the same nonce', async () => {
+    const before = await listingCount();
+    const { record, tracked } = await sendStuckListing();
+
+    const cancellation = await cancelTransaction(record.id, landlordSigner);
+    expect(cancellation).toMatchObject({ to: landlordAddress, value: 0n, nonce: record.nonce });
+
+    await mineUntilSettled(tracked);
+    const error = await tracked.catch(e => e);
+
+    expect(decodeError(error)).toMatchObject({ kind: 'replaced', reason: 'cancelled', hash: cancellation.hash });
+    expect(recordFor(record.id)).toMatchObject({ status: 'cancelled', replacedBy: cancellation.hash });
+    expect(await listingCount()).toBe(before);
+  });
+
+  it('only replaces transactions from the connected account', async () => {
+    const { record, tracked } = await sendStuckListing();
+
+    await expect(cancelTransaction(record.id, tenantSigner)).rejects.toThrow(`Switch your wallet to ${landlordAddress}`);
+
+    await mineUntilSettled(tracked);
+    await tracked;
+    expect(recordFor(record.id)?.status).toBe('mined');
+    await expect(speedUpTransaction(record.id, landlordSigner)).rejects.toThrow('Only pending transactions');
+  });
+});
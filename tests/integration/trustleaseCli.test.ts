@@ -0,0 +1,153 @@
+/**
+ * Runs the operator CLI against seeded contracts on a local devnet, reading the
+ * contracts from manifests the way it does for real networks.
+ */
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Wallet, encryptKeystoreJson, parseEther } from 'ethers';
+import { TrustLeaseClient } from '../../src/lib/contracts/client';
+import { agreementStatus, type ChainDeployment } from '../../src/lib/contracts';
+import { quoteTermination } from '../../src/lib/contracts/termination';
+import { runCli } from '../../scripts/trustlease';
+import {
+  deployTrustLease,
+  getDevnetAccounts,
+  seedFixtures,
+  startOrAttachNode,
+  writeDevnetManifests,
+  type DevnetFixtures,
+  type DevnetNode,
+} from '../../scripts/devnet';
+
+const RPC_URL = process.env.TEST_RPC_URL || 'http://127.0.0.1:8546';
+const DAY = 24 * 60 * 60;
+
+// The first two well-known dev accounts of Hardhat and Anvil nodes: the admin and the landlord
+const ADMIN_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const LANDLORD_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+let node: DevnetNode;
+let client: TrustLeaseClient;
+let deployment: ChainDeployment;
+let fixtures: DevnetFixtures;
+let manifestDir: string;
+
+async function cli(args: string[], env: Record<string, string> = {}) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runCli([...args, '--network', '31337', '--rpc', RPC_URL, '--manifests', manifestDir], env, {
+    stdout: text => stdout.push(text),
+    stderr: text => stderr.push(text),
+  });
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+async function cliJson(args: string[], env: Record<string, string> = { TRUSTLEASE_PRIVATE_KEY: ADMIN_KEY }) {
+  const { code, stdout } = await cli([...args, '--json'], env);
+  return { code, output: JSON.parse(stdout) };
+}
+
+beforeAll(async () => {
+  node = await startOrAttachNode(RPC_URL);
+  const accounts = await getDevnetAccounts(node.provider);
+  expect(await accounts.admin.getAddress()).toBe(new Wallet(ADMIN_KEY).address);
+
+  deployment = await deployTrustLease(accounts.admin);
+  fixtures = await seedFixtures(deployment, node.provider, accounts);
+  manifestDir = mkdtempSync(path.join(tmpdir(), 'trustlease-cli-'));
+  writeDevnetManifests(deployment, manifestDir);
+  client = new TrustLeaseClient({ deployment, provider: node.provider });
+});
+
+afterAll(() => {
+  if (manifestDir) rmSync(manifestDir, { recursive: true, force: true });
+  node?.stop();
+});
+
+describe('trustlease CLI', () => {
+  it('lists properties waiting for verification', async () => {
+    const { code, output } = await cliJson(['pending'], {});
+
+    expect(code).toBe(0);
+    expect(output).toEqual([
+      expect.objectContaining({ id: fixtures.properties.pending[0], propertyAddress: '7 Kenyatta Lane, Nairobi', kycProof: null }),
+    ]);
+  });
+
+  it('simulates a write as the owner without a key on --dry-run', async () => {
+    const [propertyId] = fixtures.properties.pending;
+    const { code, output } = await cliJson(['verify', String(propertyId), '--dry-run'], {});
+
+    expect(code).toBe(0);
+    expect(output).toMatchObject({ contract: 'PropertyVerification', method: 'verifyProperty', args: [propertyId], dryRun: true });
+    expect(output.hash).toBeUndefined();
+    expect(BigInt(output.gasLimit)).toBeGreaterThan(0n);
+    expect((await client.getPropertyDetails(propertyId)).isVerified).toBe(false);
+  });
+
+  it('links KYC and verifies a property with the owner key', async () => {
+    const [propertyId] = fixtures.properties.pending;
+    const linked = await cliJson(['link-kyc', String(propertyId), '--persona', 'inq_devnet', '--video-timestamp', '2025-03-01T10:00:00Z', '--government-id']);
+    expect(linked.code).toBe(0);
+
+    const { code, stdout } = await cli(['verify', String(propertyId)], { TRUSTLEASE_PRIVATE_KEY: ADMIN_KEY });
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^Sent PropertyVerification\.verifyProperty\(3\) from 0x/);
+    expect(stdout).toMatch(/Tx {8}0x[0-9a-f]{64} \(block \d+\)/);
+
+    expect((await client.getPropertyDetails(propertyId)).isVerified).toBe(true);
+    expect((await client.getKYCProofs([propertyId]))[0]).toMatchObject({ personaVerificationId: 'inq_devnet', governmentIdVerified: true });
+    expect((await cliJson(['pending'], {})).output).toEqual([]);
+  });
+
+  it('reports the revert when the key is not the owner', async () => {
+    const { code, output } = await cliJson(['deactivate', '1', '--reason', 'Fraudulent listing'], { TRUSTLEASE_PRIVATE_KEY: LANDLORD_KEY });
+
+    expect(code).toBe(1);
+    expect(output.error).toMatchObject({ kind: 'custom-error', errorName: 'OwnableUnauthorizedAccount', title: 'Admin only' });
+    expect((await client.getPropertyDetails(1)).isActive).toBe(true);
+  });
+
+  it('terminates a lease with the pro-rata refund it calculated', async () => {
+    const agreementId = fixtures.agreements.active;
+    const agreement = await client.getAgreement(agreementId);
+    const terminatedAt = Number(agreement.startDate) + 10 * DAY;
+    const quote = quoteTermination(agreement, { terminatedAt, deductions: parseEther('0.5'), platformFeePercent: await client.escrow.platformFeePercent() });
+    // Ten days into a 30-day period paid for with one FLOW
+    expect(quote.unusedRent).toBe(parseEther('1') * 20n / 30n);
+
+    const tenantBefore = await node.provider.getBalance(agreement.tenant);
+    const { code, output } = await cliJson(['terminate', String(agreementId), '--at', String(terminatedAt), '--deduct', '0.5']);
+
+    expect(code).toBe(0);
+    expect(output).toMatchObject({ method: 'terminateAgreement', args: [agreementId, quote.refund.toString()], terminatedAt });
+    expect(output.quote.refund).toBe(quote.refund.toString());
+    expect(await node.provider.getBalance(agreement.tenant)).toBe(tenantBefore + quote.refund);
+    expect(agreementStatus((await client.getAgreement(agreementId)).status)).toBe('Terminated');
+  });
+
+  it('signs with an encrypted keystore', async () => {
+    const wallet = new Wallet(ADMIN_KEY);
+    const keystore = path.join(manifestDir, 'admin.keystore');
+    writeFileSync(keystore, await encryptKeystoreJson({ address: wallet.address, privateKey: wallet.privateKey }, 'devnet', { scrypt: { N: 1 << 10 } }));
+
+    const agreementId = fixtures.agreements.disputed;
+    const { code } = await cliJson(['resolve-dispute', String(agreementId), '--refund-tenant', '--keystore', keystore], {
+      TRUSTLEASE_KEYSTORE_PASSWORD: 'devnet',
+    });
+
+    expect(code).toBe(0);
+    expect((await client.getDispute(agreementId)).resolved).toBe(true);
+  });
+
+  it('rejects bad usage and keyless writes', async () => {
+    expect((await cli(['resolve-dispute', '3'])).code).toBe(2);
+    expect((await cli(['set-fee', 'platform', '1.5'], { TRUSTLEASE_PRIVATE_KEY: ADMIN_KEY })).stderr).toContain('whole percentage');
+
+    const { code, stderr } = await cli(['pause']);
+    expect(code).toBe(2);
+    expect(stderr).toContain('Writes need a key');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Sends TrustLease transactions the way the app does, through a BrowserProvider over
+ * `window.ethereum`, with the mock wallet forwarding to the local node.
+ */
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { BrowserProvider, JsonRpcSigner, parseEther } from 'ethers';
+import { TrustLeaseClient } from '../../src/lib/contracts/client';
+import type { ChainDeployment } from '../../src/lib/contracts';
+import { decodeError } from '../../src/lib/contracts/errors';
+import { trackTransaction } from '../../src/hooks/useTransactions';
+import { DEVNET_CHAIN_ID, deployTrustLease, getDevnetAccounts, startOrAttachNode, type DevnetNode } from '../../scripts/devnet';
+import { MockEthereumProvider } from '../mocks/eip1193';
+
+const RPC_URL = process.env.TEST_RPC_URL || 'http://127.0.0.1:8546';
+const LISTING_FEE = parseEther('0.1');
+
+let node: DevnetNode;
+let deployment: ChainDeployment;
+let landlordAddress: string;
+
+const createWallet = (connected: boolean) =>
+  new MockEthereumProvider({ chainId: DEVNET_CHAIN_ID, accounts: [landlordAddress], rpcUrl: RPC_URL, connected });
+
+async function connectWallet() {
+  const wallet = createWallet(true);
+  const signer = await new BrowserProvider(wallet).getSigner(landlordAddress);
+  return { wallet, client: new TrustLeaseClient({ deployment, signer }) };
+}
+
+const submit = (client: TrustLeaseClient) => () =>
+  client.submitProperty('12 Marina Road, Lagos', 'ipfs://docs', 'ipfs://video', '6.4281, 3.4219', 1, LISTING_FEE);
+
+beforeAll(async () => {
+  node = await startOrAttachNode(RPC_URL);
+  const { admin, landlord } = await getDevnetAccounts(node.provider);
+  landlordAddress = await landlord.getAddress();
+  deployment = await deployTrustLease(admin);
+});
+
+afterAll(() => node?.stop());
+
+describe('wallet transactions', () => {
+  it('signs through the wallet and tracks the transaction until it is mined', async () => {
+    const { wallet, client } = await connectWallet();
+    const before = (await client.getLandlordProperties(landlordAddress)).length;
+
+    const receipt = await trackTransaction('submitProperty', 'List 12 Marina Road', submit(client));
+
+    expect(receipt?.status).toBe(1);
+    expect(receipt?.from).toBe(landlordAddress);
+    expect(wallet.callsTo('eth_sendTransaction')).toHaveLength(1);
+    expect(await client.getLandlordProperties(landlordAddress)).toHaveLength(before + 1);
+  });
+
+  it('surfaces a rejected signature as a user rejection', async () => {
+    const { wallet, client } = await connectWallet();
+    wallet.failNext('eth_sendTransaction');
+
+    const error = await trackTransaction('submitProperty', 'List 12 Marina Road', submit(client)).catch(e => e);
+
+    expect(decodeError(error).kind).toBe('user-rejected');
+  });
+
+  it('refuses to sign before the site is connected', async () => {
+    // getSigner() would prompt for accounts, so sign as the account directly
+    const signer = new JsonRpcSigner(new BrowserProvider(createWallet(false)), landlordAddress);
+    const client = new TrustLeaseClient({ deployment, signer });
+
+    const error = await submit(client)().catch(e => e);
+
+    expect(error.error?.code ?? error.code).toBe(4100);
+  });
+});
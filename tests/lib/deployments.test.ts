@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chainIdFromManifestPath,
+  createDeploymentRegistry,
+  DeploymentNotFoundError,
+  groupManifestsByChain,
+  type PinnedContractManifest,
+} from '@/lib/contracts/deployments';
+
+const manifest = (name: string, address: string, extra: Partial<PinnedContractManifest> = {}): PinnedContractManifest =>
+  ({ name, address, abi: [], ...extra });
+
+const TESTNET = [
+  manifest('PropertyVerification', '0x1d81c1F05926719bF8acBDeF8c222C017Aabb227', { deployBlock: 1200 }),
+  manifest('TrustLeaseEscrow', '0xD11098885107e58F6E5311dC4A6E924739AeE5C7'),
+  manifest('RentalReceipt', '0xa22f7A8539004b5850CC5810E0F04f32F63F100B'),
+];
+
+describe('createDeploymentRegistry', () => {
+  it('resolves every contract pinned for a chain', () => {
+    const registry = createDeploymentRegistry({ 545: TESTNET });
+
+    expect(registry.chainIds).toEqual([545]);
+    expect(registry.has(545)).toBe(true);
+    expect(registry.resolve(545)).toMatchObject({
+      PropertyVerification: { address: '0x1d81c1F05926719bF8acBDeF8c222C017Aabb227', deployBlock: 1200 },
+      TrustLeaseEscrow: { address: '0xD11098885107e58F6E5311dC4A6E924739AeE5C7' },
+      RentalReceipt: { address: '0xa22f7A8539004b5850CC5810E0F04f32F63F100B' },
+    });
+  });
+
+  it('throws DeploymentNotFoundError for a chain without manifests', () => {
+    const registry = createDeploymentRegistry({ 545: TESTNET });
+
+    expect(registry.has(747)).toBe(false);
+    expect(() => registry.resolve(747)).toThrow(new DeploymentNotFoundError(747));
+  });
+
+  it('names the contracts a partial deployment is missing', () => {
+    const registry = createDeploymentRegistry({ 545: [...TESTNET.slice(0, 1), manifest('Unrelated', '0x0000000000000000000000000000000000000001')] });
+
+    expect(registry.has(545)).toBe(false);
+    expect(() => registry.resolve(545)).toThrow('TrustLease deployment on chain 545 is missing TrustLeaseEscrow, RentalReceipt');
+  });
+
+  it('picks the most recently pinned of several manifests for one contract, in any order', () => {
+    const older = manifest('TrustLeaseEscrow', '0x0000000000000000000000000000000000000002', { pinnedAt: 1 });
+    const newer = manifest('TrustLeaseEscrow', '0x0000000000000000000000000000000000000003', { pinnedAt: 2 });
+
+    for (const order of [[older, newer], [newer, older]]) {
+      const registry = createDeploymentRegistry({ 545: [...TESTNET.slice(0, 1), ...order, TESTNET[2]] });
+      expect(registry.resolve(545).TrustLeaseEscrow.address).toBe(newer.address);
+    }
+  });
+});
+
+describe('groupManifestsByChain', () => {
+  it('groups manifests by the chain folder they were pinned in', () => {
+    const grouped = groupManifestsByChain({
+      '/.deploys/pinned-contracts/545/0x1d81.json': TESTNET[0],
+      '/.deploys/pinned-contracts/545/0xD110.json': TESTNET[1],
+      '/.deploys/pinned-contracts/747/0xa22f.json': TESTNET[2],
+    });
+
+    expect(grouped).toEqual({ 545: TESTNET.slice(0, 2), 747: [TESTNET[2]] });
+    expect(() => chainIdFromManifestPath('/contracts/Escrow.json')).toThrow('Cannot read chain ID');
+  });
+});
@@ -0,0 +1,83 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { AbiCoder, Interface, makeError } from 'ethers';
+import { decodeError, describeError, REVERT_MESSAGES } from '@/lib/contracts/errors';
+import { DeploymentNotFoundError } from '@/lib/contracts/deployments';
+import { FLOW_EVM_TESTNET, WrongNetworkError } from '@/lib/networks';
+import { TrustLeaseEscrowABI } from '@/lib/contracts/generated/abis';
+
+const escrow = new Interface(TrustLeaseEscrowABI);
+const STRANGER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const CALL = { to: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', data: '0x' };
+
+// What a `require(cond, "message")` returns as revert data
+const revertData = (message: string) => '0x08c379a0' + AbiCoder.defaultAbiCoder().encode(['string'], [message]).slice(2);
+
+describe('decodeError', () => {
+  it('maps every require message in the contracts, including constructors and admin setters', () => {
+    const dir = path.resolve(__dirname, '../../contracts');
+    const messages = readdirSync(dir)
+      .filter(file => file.endsWith('.sol'))
+      .flatMap(file => [...readFileSync(path.join(dir, file), 'utf8').matchAll(/require\([^;]*?,\s*"([^"]+)"\s*\)/g)].map(match => match[1]));
+
+    expect(messages).toContain('Invalid platform wallet');
+    expect(messages.filter(message => !(message in REVERT_MESSAGES))).toEqual([]);
+  });
+
+  it('decodes a revert string from an ethers call exception', () => {
+    const error = escrow.makeError(revertData('Invalid rental receipt address'), CALL);
+
+    expect(decodeError(error)).toMatchObject({ kind: 'revert', reason: 'Invalid rental receipt address', title: 'Invalid RentalReceipt' });
+  });
+
+  it('decodes a revert string the wallet buried in its JSON-RPC error', () => {
+    const fromWallet = {
+      code: -32603,
+      message: 'Internal JSON-RPC error.',
+      data: { code: 3, message: 'execution reverted: Not the tenant', data: revertData('Not the tenant') },
+    };
+    const error = makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: fromWallet });
+
+    const decoded = decodeError(error);
+    expect(decoded).toMatchObject({ kind: 'revert', reason: 'Not the tenant' });
+    expect(describeError(decoded)).toBe('Only the tenant on this agreement can do this. Switch to the tenant wallet.');
+  });
+
+  it('names custom errors, directly and nested', () => {
+    const data = escrow.encodeErrorResult('OwnableUnauthorizedAccount', [STRANGER]);
+
+    expect(decodeError(escrow.makeError(data, CALL))).toMatchObject({ kind: 'custom-error', errorName: 'OwnableUnauthorizedAccount', title: 'Admin only' });
+    expect(decodeError({ info: { error: { code: 3, message: 'execution reverted', data } } })).toMatchObject({
+      kind: 'custom-error',
+      errorName: 'OwnableUnauthorizedAccount',
+    });
+  });
+
+  it('keeps an unmapped revert reason for the message', () => {
+    expect(decodeError({ message: 'execution reverted: Something new' })).toMatchObject({
+      kind: 'unknown-revert',
+      reason: 'Something new',
+      message: 'The contract rejected the call: Something new',
+    });
+  });
+
+  it('recognises a rejection in the wallet, however it is wrapped', () => {
+    expect(decodeError(makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' })).kind).toBe('user-rejected');
+    expect(decodeError({ code: 4001, message: 'User denied transaction signature.' }).kind).toBe('user-rejected');
+    expect(decodeError({ message: 'could not coalesce error', error: { code: 4001, message: 'User rejected the request.' } }).kind).toBe('user-rejected');
+  });
+
+  it('suggests the amount needed when funds run short', () => {
+    const error = { info: { error: { code: -32000, message: 'insufficient funds for gas * price + value' } } };
+
+    expect(decodeError(error, { required: '0.1 FLOW' })).toMatchObject({ kind: 'insufficient-funds', fix: 'You need 0.1 FLOW plus gas.' });
+  });
+
+  it('tells network and deployment failures apart from reverts', () => {
+    expect(decodeError(new DeploymentNotFoundError(1))).toMatchObject({ kind: 'not-deployed', chainId: 1 });
+    expect(decodeError(new WrongNetworkError(FLOW_EVM_TESTNET, 1))).toMatchObject({ kind: 'wrong-network', chainId: 1, expectedChainId: 545 });
+    expect(decodeError({ code: -32002, message: 'Request already pending' })).toMatchObject({ kind: 'rpc', title: 'Wallet request pending' });
+    expect(decodeError(new Error('boom'))).toMatchObject({ kind: 'unknown', message: 'boom' });
+  });
+});
@@ -0,0 +1,54 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { clearChain, getCursor, putEvents, queryEvents, rewindChain, type IndexedEvent, type SyncCursor } from '@/lib/contracts/eventStore';
+
+const ADDRESSES: SyncCursor['addresses'] = {
+  PropertyVerification: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  TrustLeaseEscrow: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  RentalReceipt: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+};
+
+function paid(chainId: number, blockNumber: number, agreementId: number, logIndex = 0) {
+  return {
+    id: `${chainId}:0x${blockNumber.toString(16).padStart(64, '0')}:${logIndex}`,
+    chainId,
+    contract: 'TrustLeaseEscrow',
+    event: 'RentPaid',
+    args: { agreementId: BigInt(agreementId) },
+    address: ADDRESSES.TrustLeaseEscrow,
+    blockNumber,
+    blockHash: '0x',
+    transactionHash: '0x',
+    logIndex,
+    timestamp: 0,
+    entities: [`${chainId}:agreement:${agreementId}`],
+  } as unknown as IndexedEvent;
+}
+
+const blocks = (events: IndexedEvent[]) => events.map(event => event.blockNumber);
+
+describe('eventStore', () => {
+  it('stores a chunk with its cursor and queries it in chain order', async () => {
+    await putEvents({ chainId: 2001, lastBlock: 30, addresses: ADDRESSES }, [paid(2001, 30, 2), paid(2001, 10, 1), paid(2001, 20, 1)]);
+
+    expect(await getCursor(2001)).toMatchObject({ lastBlock: 30 });
+    expect(blocks(await queryEvents(2001))).toEqual([10, 20, 30]);
+    expect(blocks(await queryEvents(2001, { entity: 'agreement:1' }))).toEqual([10, 20]);
+    expect(blocks(await queryEvents(2001, { fromBlock: 15, toBlock: 30 }))).toEqual([20, 30]);
+    expect(await queryEvents(2001, { event: 'AgreementCreated' })).toEqual([]);
+  });
+
+  it('rewinds and clears one chain without touching another', async () => {
+    await putEvents({ chainId: 2002, lastBlock: 30, addresses: ADDRESSES }, [paid(2002, 10, 1), paid(2002, 20, 1), paid(2002, 30, 1)]);
+    await putEvents({ chainId: 2003, lastBlock: 30, addresses: ADDRESSES }, [paid(2003, 30, 1)]);
+
+    await rewindChain({ chainId: 2002, lastBlock: 19, addresses: ADDRESSES });
+    expect(blocks(await queryEvents(2002))).toEqual([10]);
+    expect(await getCursor(2002)).toMatchObject({ lastBlock: 19 });
+
+    await clearChain(2002);
+    expect(await queryEvents(2002)).toEqual([]);
+    expect(await getCursor(2002)).toBeUndefined();
+    expect(blocks(await queryEvents(2003))).toEqual([30]);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseEther } from 'ethers';
+import {
+  DAY,
+  WEEK,
+  daysUntil,
+  formatAmount,
+  formatCountdown,
+  formatFlow,
+  formatInteger,
+  formatLeaseDate,
+  humanizeInterval,
+  parseAmount,
+  parseDateInput,
+  parseFlow,
+  toDateInput,
+  tryParseFlow,
+} from '@/lib/format';
+
+describe('FLOW amounts', () => {
+  it('formats wei without going through floats', () => {
+    expect(formatFlow(parseEther('2'), { locale: 'en-US' })).toBe('2 FLOW');
+    expect(formatFlow(parseEther('1234567.891'), { locale: 'en-US' })).toBe('1,234,567.891 FLOW');
+    expect(formatFlow(123456789012345678901234567890n, { locale: 'en-US', symbol: undefined })).toBe('123,456,789,012.3457');
+    expect(formatFlow(-parseEther('0.5'), { locale: 'en-US' })).toBe('-0.5 FLOW');
+  });
+
+  it('rounds half up to the requested digits and pads when asked', () => {
+    expect(formatFlow(parseEther('1.23455'), { locale: 'en-US' })).toBe('1.2346 FLOW');
+    expect(formatFlow(parseEther('1.99999'), { locale: 'en-US', maximumFractionDigits: 2 })).toBe('2 FLOW');
+    expect(formatFlow(parseEther('2'), { locale: 'en-US', minimumFractionDigits: 3, maximumFractionDigits: 3 })).toBe('2.000 FLOW');
+  });
+
+  it('shows dust instead of zero', () => {
+    expect(formatFlow(1n, { locale: 'en-US' })).toBe('<0.0001 FLOW');
+    expect(formatFlow(0n, { locale: 'en-US' })).toBe('0 FLOW');
+  });
+
+  it('uses the separators of the locale', () => {
+    expect(formatFlow(parseEther('1234.5'), { locale: 'de-DE' })).toBe('1.234,5 FLOW');
+    expect(formatFlow(parseEther('1234.5'), { locale: 'fr-FR', symbol: undefined })).toBe('1 234,5');
+  });
+
+  it('formats other units', () => {
+    expect(formatAmount(1_500_000_000n, { decimals: 9, symbol: 'gwei', locale: 'en-US' })).toBe('1.5 gwei');
+    expect(formatInteger(21000n, 'en-US')).toBe('21,000');
+  });
+
+  it('parses plain and localized input exactly', () => {
+    expect(parseFlow('0.1')).toBe(parseEther('0.1'));
+    expect(parseFlow('.5')).toBe(parseEther('0.5'));
+    expect(parseFlow('2500')).toBe(parseEther('2500'));
+    expect(parseFlow('0.000000000000000001')).toBe(1n);
+    expect(parseFlow('1.234,5', 'de-DE')).toBe(parseEther('1234.5'));
+    expect(parseFlow('1 234,5', 'fr-FR')).toBe(parseEther('1234.5'));
+    expect(parseFlow('1,234.5', 'en-US')).toBe(parseEther('1234.5'));
+    expect(parseAmount('1.5', { decimals: 6 })).toBe(1_500_000n);
+  });
+
+  it('rejects input that is not an amount', () => {
+    expect(() => parseFlow('')).toThrow('is not a valid amount');
+    expect(() => parseFlow('-1')).toThrow('is not a valid amount');
+    expect(() => parseFlow('1,5')).toThrow('is not a valid amount');
+    expect(() => parseFlow('1e18')).toThrow('is not a valid amount');
+    expect(() => parseFlow('0.0000000000000000001')).toThrow('more than 18 decimal places');
+    expect(tryParseFlow('abc')).toBeNull();
+    expect(tryParseFlow('3')).toBe(parseEther('3'));
+  });
+
+  it('round-trips what it formats', () => {
+    const wei = parseEther('98765.4321');
+    expect(parseFlow(formatFlow(wei, { locale: 'de-DE', symbol: undefined }), 'de-DE')).toBe(wei);
+  });
+});
+
+describe('rent intervals', () => {
+  it('names common intervals', () => {
+    expect(humanizeInterval(DAY)).toBe('daily');
+    expect(humanizeInterval(WEEK)).toBe('weekly');
+    expect(humanizeInterval(BigInt(365 * DAY))).toBe('yearly');
+  });
+
+  it('counts the largest whole unit', () => {
+    expect(humanizeInterval(30 * DAY)).toBe('every 30 days');
+    expect(humanizeInterval(2 * WEEK)).toBe('every 2 weeks');
+    expect(humanizeInterval(90 * 60)).toBe('every 90 minutes');
+    expect(humanizeInterval(60)).toBe('every minute');
+    expect(humanizeInterval(45)).toBe('every 45 seconds');
+  });
+
+  it('rejects intervals that are not positive whole seconds', () => {
+    expect(() => humanizeInterval(0)).toThrow('Invalid interval');
+    expect(() => humanizeInterval(1.5)).toThrow('Invalid interval');
+  });
+
+  it('counts down to a due date', () => {
+    expect(formatCountdown(5 * DAY + 3 * 3600 + 2 * 60 + 59)).toBe('5d 3h 2m');
+    expect(formatCountdown(3 * 3600 + 120)).toBe('3h 2m');
+    expect(formatCountdown(-10)).toBe('0h 0m');
+
+    const now = Date.UTC(2025, 0, 1);
+    expect(daysUntil(now / 1000 + DAY + 1, now)).toBe(2);
+    expect(daysUntil(now / 1000 - 3 * DAY, now)).toBe(0);
+  });
+});
+
+describe('lease dates', () => {
+  const originalTimeZone = process.env.TZ;
+
+  // West of UTC, where reading a date input as UTC midnight lands on the day before
+  beforeEach(() => {
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterEach(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('reads a picked date as local midnight unless told it is UTC', () => {
+    expect(parseDateInput('2025-03-01')).toBe(Date.UTC(2025, 2, 1, 5) / 1000);
+    expect(parseDateInput('2025-03-01', 'UTC')).toBe(Date.UTC(2025, 2, 1) / 1000);
+    expect(toDateInput(parseDateInput('2025-03-01'))).toBe('2025-03-01');
+    expect(toDateInput(Date.UTC(2025, 2, 1, 2) / 1000)).toBe('2025-02-28');
+    expect(toDateInput(Date.UTC(2025, 2, 1, 2) / 1000, 'UTC')).toBe('2025-03-01');
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(() => parseDateInput('03/01/2025')).toThrow('is not a YYYY-MM-DD date');
+    expect(() => parseDateInput('2025-02-30')).toThrow('is not a valid date');
+  });
+
+  it('formats on-chain timestamps in the zone asked for', () => {
+    const timestamp = BigInt(Date.UTC(2025, 2, 1, 2, 30) / 1000);
+    expect(formatLeaseDate(timestamp, { locale: 'en-US' })).toBe('Feb 28, 2025');
+    expect(formatLeaseDate(timestamp, { locale: 'en-US', timeZone: 'UTC', month: 'long' })).toBe('March 1, 2025');
+    expect(formatLeaseDate(timestamp, { locale: 'en-US', withTime: true })).toMatch(/^Feb 28, 2025, 9:30\sPM EST$/);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Event sync against a scripted chain: which ranges get requested, what lands in the store
+ * (fake-indexeddb) and where the cursor resumes.
+ */
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { id, Interface, type Provider } from 'ethers';
+import { syncEvents } from '@/lib/contracts/indexer';
+import { getCursor, queryEvents } from '@/lib/contracts/eventStore';
+import { PropertyVerificationABI, RentalReceiptABI, TrustLeaseEscrowABI } from '@/lib/contracts/generated/abis';
+import type { ChainDeployment } from '@/lib/contracts/deployments';
+
+const PROPERTY_VERIFICATION = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VERIFIER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const verification = new Interface(PropertyVerificationABI);
+
+const deployment = (deployBlock?: number) => ({
+  PropertyVerification: { address: PROPERTY_VERIFICATION, abi: PropertyVerificationABI, deployBlock },
+  TrustLeaseEscrow: { address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', abi: TrustLeaseEscrowABI },
+  RentalReceipt: { address: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0', abi: RentalReceiptABI },
+}) as ChainDeployment;
+
+// IndexedDB outlives each test, so every test indexes a chain of its own
+let nextChainId = 1000;
+
+/** Serves blocks and PropertyVerified logs; `reorg` replaces every block from a height onward. */
+class FakeChain {
+  /** `[fromBlock, toBlock]` of every eth_getLogs request that was answered. */
+  ranges: Array<[number, number]> = [];
+  private logs: Array<{ blockNumber: number; blockHash: string; transactionHash: string; index: number; address: string; topics: string[]; data: string }> = [];
+  private forkedAt = Infinity;
+  private txCount = 0;
+
+  /** `maxLogs` mimics RPCs that refuse a query returning more results than that. */
+  constructor(public head: number, private maxLogs = Infinity) {}
+
+  hash(block: number) {
+    return id(`${block >= this.forkedAt ? 'fork' : 'main'}:${block}`);
+  }
+
+  verify(block: number, propertyId: number) {
+    const { topics, data } = verification.encodeEventLog('PropertyVerified', [propertyId, VERIFIER, 1]);
+    this.logs.push({
+      blockNumber: block,
+      blockHash: this.hash(block),
+      transactionHash: id(`tx:${this.txCount}`),
+      index: this.txCount++,
+      address: PROPERTY_VERIFICATION,
+      topics: [...topics],
+      data,
+    });
+    return this;
+  }
+
+  reorg(fromBlock: number) {
+    this.forkedAt = fromBlock;
+    this.logs = this.logs.filter(log => log.blockNumber < fromBlock);
+    return this;
+  }
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getBlock(block: number) {
+    return block > this.head ? null : { number: block, hash: this.hash(block), timestamp: 1_700_000_000 + block };
+  }
+
+  async getLogs({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) {
+    const logs = this.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    if (logs.length > this.maxLogs) throw new Error(`query returned more than ${this.maxLogs} results`);
+    this.ranges.push([fromBlock, toBlock]);
+    return logs;
+  }
+}
+
+const asProvider = (chain: FakeChain) => chain as unknown as Provider;
+const storedProperties = async (chainId: number) =>
+  (await queryEvents(chainId)).map(event => [event.blockNumber, Number((event.args as { propertyId: bigint }).propertyId)]);
+
+describe('syncEvents', () => {
+  it('scans from the pinned deploy block to `confirmations` behind the head', async () => {
+    const chainId = nextChainId++;
+    const chain = new FakeChain(100).verify(50, 1).verify(95, 2).verify(96, 3);
+
+    expect(await syncEvents(asProvider(chain), chainId, deployment(40), { confirmations: 5 })).toBe(2);
+    expect(chain.ranges).toEqual([[40, 95]]);
+    expect(await storedProperties(chainId)).toEqual([[50, 1], [95, 2]]);
+    expect(await getCursor(chainId)).toMatchObject({ lastBlock: 95, checkpoints: [{ block: 95, hash: chain.hash(95) }] });
+  });
+
+  it('halves the range an RPC refuses and grows it back once past the busy blocks', async () => {
+    const chainId = nextChainId++;
+    const chain = new FakeChain(399, 3).verify(1, 1).verify(2, 2).verify(3, 3).verify(4, 4);
+
+    expect(await syncEvents(asProvider(chain), chainId, deployment(0), { chunkSize: 100 })).toBe(4);
+    expect(chain.ranges).toEqual([
+      [0, 2], [3, 8], [9, 20], [21, 44], [45, 92], [93, 188], [189, 288], [289, 388], [389, 399],
+    ]);
+  });
+
+  it('gives up when even a single block is refused', async () => {
+    const chain = new FakeChain(10, 1).verify(5, 1).verify(5, 2);
+
+    await expect(syncEvents(asProvider(chain), nextChainId++, deployment(0))).rejects.toThrow('more than 1 results');
+  });
+
+  it('resumes after the last stored block', async () => {
+    const chainId = nextChainId++;
+    const chain = new FakeChain(50).verify(20, 1);
+    await syncEvents(asProvider(chain), chainId, deployment(0));
+
+    chain.verify(70, 2).head = 80;
+    chain.ranges = [];
+    expect(await syncEvents(asProvider(chain), chainId, deployment(0))).toBe(1);
+    expect(chain.ranges).toEqual([[51, 80]]);
+    expect(await storedProperties(chainId)).toEqual([[20, 1], [70, 2]]);
+  });
+
+  it('stops when aborted and keeps the chunks already committed', async () => {
+    const chainId = nextChainId++;
+    const chain = new FakeChain(99).verify(5, 1).verify(15, 2).verify(25, 3);
+    const controller = new AbortController();
+
+    await expect(syncEvents(asProvider(chain), chainId, deployment(0), {
+      chunkSize: 10,
+      signal: controller.signal,
+      onProgress: ({ toBlock }) => { if (toBlock === 19) controller.abort(); },
+    })).rejects.toThrow();
+    expect(await getCursor(chainId)).toMatchObject({ lastBlock: 19 });
+    expect(await storedProperties(chainId)).toEqual([[5, 1], [15, 2]]);
+
+    chain.ranges = [];
+    expect(await syncEvents(asProvider(chain), chainId, deployment(0), { chunkSize: 100 })).toBe(1);
+    expect(chain.ranges).toEqual([[20, 99]]);
+  });
+
+  describe('after a reorg', () => {
+    // Three polls, leaving checkpoints at blocks 40, 45 and 50
+    async function indexed() {
+      const chainId = nextChainId++;
+      const chain = new FakeChain(43).verify(38, 1).verify(45, 2).verify(49, 3).verify(50, 4);
+      for (const head of [43, 48, 53]) {
+        chain.head = head;
+        await syncEvents(asProvider(chain), chainId, deployment(0), { confirmations: 3 });
+      }
+      expect(await storedProperties(chainId)).toEqual([[38, 1], [45, 2], [49, 3], [50, 4]]);
+      chain.ranges = [];
+      chain.head = 60;
+      return { chainId, chain };
+    }
+
+    it('rewinds to the newest checkpoint still on the chain and rescans from there', async () => {
+      const { chainId, chain } = await indexed();
+      chain.reorg(49).verify(49, 5).verify(52, 6);
+
+      await syncEvents(asProvider(chain), chainId, deployment(0), { confirmations: 3 });
+      expect(chain.ranges).toEqual([[46, 57]]);
+      expect(await storedProperties(chainId)).toEqual([[38, 1], [45, 2], [49, 5], [52, 6]]);
+    });
+
+    it('walks back past several checkpoints when the reorg is deeper than `confirmations`', async () => {
+      const { chainId, chain } = await indexed();
+      chain.reorg(42).verify(44, 5);
+
+      await syncEvents(asProvider(chain), chainId, deployment(0), { confirmations: 3 });
+      expect(chain.ranges).toEqual([[41, 57]]);
+      expect(await storedProperties(chainId)).toEqual([[38, 1], [44, 5]]);
+      expect(await getCursor(chainId)).toMatchObject({ lastBlock: 57, checkpoints: [{ block: 40 }, { block: 57, hash: chain.hash(57) }] });
+    });
+
+    it('starts over when no checkpoint survived', async () => {
+      const { chainId, chain } = await indexed();
+      chain.reorg(10).verify(12, 5);
+
+      await syncEvents(asProvider(chain), chainId, deployment(0), { confirmations: 3 });
+      expect(chain.ranges).toEqual([[0, 57]]);
+      expect(await storedProperties(chainId)).toEqual([[12, 5]]);
+    });
+  });
+
+  it('starts near the head without a deploy block, and catches up a cursor however far behind', async () => {
+    const chainId = nextChainId++;
+    const chain = new FakeChain(100).verify(95, 1);
+    await syncEvents(asProvider(chain), chainId, deployment(), { maxBackfill: 10 });
+    expect(chain.ranges).toEqual([[90, 100]]);
+
+    chain.verify(150, 2).verify(195, 3).head = 200;
+    chain.ranges = [];
+    await syncEvents(asProvider(chain), chainId, deployment(), { maxBackfill: 10, chunkSize: 50 });
+    expect(chain.ranges).toEqual([[101, 150], [151, 200]]);
+    expect(await storedProperties(chainId)).toEqual([[95, 1], [150, 2], [195, 3]]);
+  });
+
+  it('refuses to guess where to start without a deploy block', async () => {
+    await expect(syncEvents(asProvider(new FakeChain(10)), 545, deployment())).rejects.toThrow('No deployBlock pinned for chain 545');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Chunking and fallback of batched reads, against a fake provider that answers eth_call
+ * for a toy contract and for Multicall3 instead of a real node.
+ */
+import { describe, expect, it } from 'vitest';
+import { Contract, Interface, type Provider } from 'ethers';
+import { batchCall, multicall, MULTICALL3_ADDRESS } from '@/lib/contracts/multicall';
+
+const TARGET = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const toy = new Interface(['function double(uint256 value) view returns (uint256)']);
+const aggregate3 = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+const contract = new Contract(TARGET, toy);
+
+/** Serves `double(x)` directly and through `aggregate3`; `code` decides whether Multicall3 is deployed. */
+class FakeProvider {
+  getCodeCalls = 0;
+  aggregateSizes: number[] = [];
+  directCalls = 0;
+  private codeReplies: Array<'down' | string> = [];
+
+  constructor(private code = '0x6080') {}
+
+  failGetCode() {
+    this.codeReplies.push('down');
+    return this;
+  }
+
+  async getCode(address: string) {
+    expect(address).toBe(MULTICALL3_ADDRESS);
+    this.getCodeCalls++;
+    const reply = this.codeReplies.shift() ?? this.code;
+    if (reply === 'down') throw new Error('429 Too Many Requests');
+    return reply;
+  }
+
+  async call({ to, data }: { to: string; data: string }) {
+    if (to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) {
+      const [calls] = aggregate3.decodeFunctionData('aggregate3', data);
+      this.aggregateSizes.push(calls.length);
+      const results = calls.map((call: { callData: string }) => ({ success: true, returnData: this.double(call.callData) }));
+      return aggregate3.encodeFunctionResult('aggregate3', [results]);
+    }
+    this.directCalls++;
+    return this.double(data);
+  }
+
+  private double(data: string) {
+    const [value] = toy.decodeFunctionData('double', data);
+    return toy.encodeFunctionResult('double', [value * 2n]);
+  }
+}
+
+const asProvider = (fake: FakeProvider) => fake as unknown as Provider;
+const doubles = (count: number) => Array.from({ length: count }, (_, i) => batchCall(contract, 'double', [i]));
+const expected = (count: number) => Array.from({ length: count }, (_, i) => BigInt(i * 2));
+
+describe('multicall', () => {
+  it('splits calls into aggregate3 requests of chunkSize and keeps the input order', async () => {
+    const fake = new FakeProvider();
+
+    expect(await multicall(asProvider(fake), doubles(250), { chunkSize: 100 })).toEqual(expected(250));
+    expect(fake.aggregateSizes).toEqual([100, 100, 50]);
+    expect(fake.directCalls).toBe(0);
+  });
+
+  it('makes no request for an empty batch', async () => {
+    const fake = new FakeProvider();
+
+    expect(await multicall(asProvider(fake), [])).toEqual([]);
+    expect(fake.getCodeCalls).toBe(0);
+  });
+
+  it('falls back to one eth_call per item where Multicall3 is not deployed, probing once', async () => {
+    const fake = new FakeProvider('0x');
+
+    expect(await multicall(asProvider(fake), doubles(3))).toEqual(expected(3));
+    expect(await multicall(asProvider(fake), doubles(2))).toEqual(expected(2));
+    expect(fake.directCalls).toBe(5);
+    expect(fake.aggregateSizes).toEqual([]);
+    expect(fake.getCodeCalls).toBe(1);
+  });
+
+  it('does not let a failed probe turn Multicall3 off for the rest of the session', async () => {
+    const fake = new FakeProvider().failGetCode();
+
+    expect(await multicall(asProvider(fake), doubles(3))).toEqual(expected(3));
+    expect(fake.directCalls).toBe(3);
+
+    expect(await multicall(asProvider(fake), doubles(3))).toEqual(expected(3));
+    expect(fake.aggregateSizes).toEqual([3]);
+    expect(fake.getCodeCalls).toBe(2);
+
+    await multicall(asProvider(fake), doubles(1));
+    expect(fake.getCodeCalls).toBe(2);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseEther, type Provider } from 'ethers';
+import { buildCostPreview, checkAffordability, simulateWrite } from '@/lib/contracts/preflight';
+
+describe('simulateWrite', () => {
+  it('pads the estimate and prices the padded limit, so the preview covers what is sent', async () => {
+    const method = Object.assign(async () => { throw new Error('not sent'); }, {
+      staticCall: async () => undefined,
+      estimateGas: async () => 100_000n,
+    });
+    const provider = { getFeeData: async () => ({ gasPrice: 10n }) } as unknown as Provider;
+
+    const gas = await simulateWrite(provider, method as never, [], parseEther('1'));
+    expect(gas).toEqual({ gasLimit: 120_000n, gasPrice: 10n, gasCost: 1_200_000n });
+    expect(buildCostPreview(parseEther('1'), 2n, gas).total).toBe(parseEther('1') + 1_200_000n);
+  });
+});
+
+describe('checkAffordability', () => {
+  it('counts gas on top of the value once it is estimated', () => {
+    expect(checkAffordability(parseEther('1'), parseEther('1'))).toMatchObject({ affordable: true, shortfall: 0n });
+    expect(checkAffordability(parseEther('1'), parseEther('1'), 21_000n)).toMatchObject({
+      required: parseEther('1') + 21_000n,
+      shortfall: 21_000n,
+      affordable: false,
+    });
+  });
+
+  it('reports how much is missing', () => {
+    expect(checkAffordability(parseEther('0.05'), parseEther('0.1')).shortfall).toBe(parseEther('0.05'));
+  });
+});
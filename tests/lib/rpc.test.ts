@@ -0,0 +1,191 @@
+/**
+ * Retry, backoff and failover of the read provider, against a fake transport that
+ * fails on cue instead of real RPC endpoints.
+ */
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { JsonRpcError, JsonRpcPayload } from 'ethers';
+import { FailoverProvider, rpcStatus, type FailoverProviderOptions, type RetryEvent, type RpcResponse } from '@/lib/rpc';
+
+const PRIMARY = 'https://primary.test';
+const FALLBACK = 'https://fallback.test';
+
+type Reply = 'down' | JsonRpcError['error'];
+
+/** Answers every request with block 0x10 unless a failure is queued for that endpoint. */
+class FakeTransport {
+  calls: string[] = [];
+  private queued = new Map<string, Reply[]>();
+
+  fail(url: string, ...replies: Reply[]) {
+    this.queued.set(url, [...(this.queued.get(url) ?? []), ...replies]);
+    return this;
+  }
+
+  send = async (url: string, payload: JsonRpcPayload | JsonRpcPayload[]): Promise<RpcResponse> => {
+    this.calls.push(url);
+    const reply = this.queued.get(url)?.shift();
+    if (reply === 'down') throw new Error(`connect ECONNREFUSED ${url}`);
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return payloads.map(({ id }) => (reply ? { id, error: reply } : { id, result: '0x10' }));
+  };
+}
+
+const RATE_LIMITED = { code: -32005, message: 'rate limit exceeded' };
+const REVERTED = { code: 3, message: 'execution reverted', data: '0x' };
+
+let providers: FailoverProvider[] = [];
+
+function createProvider(urls: string[], transport: FakeTransport, options: FailoverProviderOptions = {}) {
+  const retries: RetryEvent[] = [];
+  const provider = new FailoverProvider(urls, 545, {
+    ...options,
+    retry: { baseDelayMs: 1, maxDelayMs: 8, ...options.retry },
+    transport: transport.send,
+    onRetry: event => retries.push(event),
+  });
+  providers.push(provider);
+  return { provider, retries };
+}
+
+const blockNumber = (provider: FailoverProvider) => provider.send('eth_blockNumber', []);
+
+afterEach(() => {
+  providers.forEach(provider => provider.destroy());
+  providers = [];
+});
+
+describe('FailoverProvider', () => {
+  it('retries a flaky endpoint with exponential backoff', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, 'down', 'down', RATE_LIMITED);
+    const { provider, retries } = createProvider([PRIMARY], transport, { retry: { failureThreshold: 10 } });
+
+    expect(await blockNumber(provider)).toBe('0x10');
+    expect(transport.calls).toEqual([PRIMARY, PRIMARY, PRIMARY, PRIMARY]);
+    expect(retries.map(retry => retry.delayMs)).toEqual([1, 2, 4]);
+  });
+
+  it('caps the backoff at maxDelayMs', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, 'down', 'down', 'down', 'down', 'down');
+    const { provider, retries } = createProvider([PRIMARY], transport, { retry: { maxAttempts: 6, maxDelayMs: 3 } });
+
+    await blockNumber(provider);
+    expect(retries.map(retry => retry.delayMs)).toEqual([1, 2, 3, 3, 3]);
+  });
+
+  it('fails over to the next endpoint and skips the unhealthy one afterwards', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, 'down', 'down');
+    const { provider } = createProvider([PRIMARY, FALLBACK], transport, { retry: { failureThreshold: 2 } });
+
+    await blockNumber(provider);
+    expect(transport.calls).toEqual([PRIMARY, FALLBACK]);
+    expect(rpcStatus(provider.health())).toBe('healthy');
+
+    await blockNumber(provider);
+    expect(transport.calls).toEqual([PRIMARY, FALLBACK, PRIMARY, FALLBACK]);
+    expect(provider.health()[0]).toMatchObject({ url: PRIMARY, healthy: false, consecutiveFailures: 2 });
+    expect(provider.health()[0].lastError).toContain('ECONNREFUSED');
+    expect(rpcStatus(provider.health())).toBe('degraded');
+
+    await blockNumber(provider);
+    expect(transport.calls.slice(4)).toEqual([FALLBACK]);
+  });
+
+  it('brings an endpoint back once its cooldown is over', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, 'down');
+    const { provider } = createProvider([PRIMARY, FALLBACK], transport, { retry: { failureThreshold: 1, cooldownMs: 20 } });
+    const changes: boolean[] = [];
+    provider.onHealthChange(health => changes.push(health[0].healthy));
+
+    await blockNumber(provider);
+    expect(provider.health()[0].healthy).toBe(false);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await blockNumber(provider);
+    expect(transport.calls).toEqual([PRIMARY, FALLBACK, PRIMARY]);
+    expect(provider.health()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0, lastError: null });
+    expect(changes).toEqual([false, true]);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, 'down', 'down', 'down').fail(FALLBACK, 'down', 'down', 'down');
+    const { provider, retries } = createProvider([PRIMARY, FALLBACK], transport, { retry: { maxAttempts: 4 } });
+
+    await expect(blockNumber(provider)).rejects.toThrow(`ECONNREFUSED ${FALLBACK}`);
+    expect(transport.calls).toEqual([PRIMARY, FALLBACK, PRIMARY, FALLBACK]);
+    expect(retries).toHaveLength(3);
+    expect(rpcStatus(provider.health())).toBe('down');
+  });
+
+  it('returns a node error that is still transient after the last attempt', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, RATE_LIMITED, RATE_LIMITED);
+    const { provider } = createProvider([PRIMARY], transport, { retry: { maxAttempts: 2 } });
+
+    await expect(blockNumber(provider)).rejects.toThrow('rate limit exceeded');
+  });
+
+  it('does not retry reverts or other answers from the node', async () => {
+    const transport = new FakeTransport().fail(PRIMARY, REVERTED);
+    const { provider, retries } = createProvider([PRIMARY, FALLBACK], transport);
+
+    await expect(provider.call({ to: '0x0000000000000000000000000000000000000001', data: '0x' })).rejects.toMatchObject({
+      code: 'CALL_EXCEPTION',
+    });
+    expect(transport.calls).toEqual([PRIMARY]);
+    expect(retries).toHaveLength(0);
+    expect(rpcStatus(provider.health())).toBe('healthy');
+  });
+
+  it('uses a custom transient-error check', async () => {
+    const flaky = { code: -32603, message: 'upstream unavailable' };
+    const transport = new FakeTransport().fail(PRIMARY, flaky);
+    const { provider } = createProvider([PRIMARY, FALLBACK], transport, {
+      retry: { isTransient: error => error.code === -32603 },
+    });
+
+    expect(await blockNumber(provider)).toBe('0x10');
+    expect(transport.calls).toEqual([PRIMARY, FALLBACK]);
+  });
+});
+
+describe('httpTransport', () => {
+  let servers: Server[] = [];
+
+  // A real HTTP endpoint, so the default transport and its fetch settings are exercised
+  async function serve(status: number) {
+    let requests = 0;
+    const server = createServer((req, res) => {
+      requests++;
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        if (status !== 200) {
+          res.writeHead(status, { 'retry-after': '0' }).end('Too Many Requests');
+          return;
+        }
+        const { id } = JSON.parse(body) as JsonRpcPayload;
+        res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', id, result: '0x10' }));
+      });
+    });
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests: () => requests };
+  }
+
+  afterEach(async () => {
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    servers = [];
+  });
+
+  it('fails over on a 429 instead of retrying the rate-limited endpoint itself', async () => {
+    const limited = await serve(429);
+    const fallback = await serve(200);
+    const provider = new FailoverProvider([limited.url, fallback.url], 545, { retry: { baseDelayMs: 1, maxDelayMs: 8 } });
+    providers.push(provider);
+
+    expect(await blockNumber(provider)).toBe('0x10');
+    expect(limited.requests()).toBe(1);
+    expect(fallback.requests()).toBe(1);
+  });
+});
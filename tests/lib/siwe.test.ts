@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Wallet } from 'ethers';
+import {
+  createLocalSiweVerifier,
+  createSiweMessage,
+  formatSiweMessage,
+  parseSiweMessage,
+  SESSION_TTL,
+  type SiweErrorCode,
+} from '@/lib/siwe';
+
+const DOMAIN = 'trustlease.app';
+const NOW = 1_750_000_000;
+const alice = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const bob = new Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+
+async function signIn(options: { now?: number; ttl?: number; domain?: string; chainId?: number; signer?: Wallet } = {}) {
+  let time = NOW;
+  const verifier = createLocalSiweVerifier({ domain: DOMAIN, chainIds: [545, 747], now: () => time });
+  const nonce = await verifier.issueNonce();
+  const message = formatSiweMessage(createSiweMessage({
+    domain: options.domain ?? DOMAIN,
+    address: alice.address,
+    uri: `https://${DOMAIN}`,
+    chainId: options.chainId ?? 545,
+    nonce,
+    issuedAt: NOW,
+    ttl: options.ttl,
+  }));
+  const signature = await (options.signer ?? alice).signMessage(message);
+  time = options.now ?? NOW;
+  return { verifier, message, signature, verify: () => verifier.verify(message, signature) };
+}
+
+const rejectsWith = (promise: Promise<unknown>, code: SiweErrorCode) => expect(promise).rejects.toMatchObject({ name: 'SiweError', code });
+
+describe('SIWE messages', () => {
+  it('renders the EIP-4361 layout and parses it back', () => {
+    const message = createSiweMessage({
+      domain: DOMAIN,
+      address: alice.address.toLowerCase(),
+      uri: `https://${DOMAIN}`,
+      chainId: 545,
+      nonce: 'abcDEF12345',
+      issuedAt: NOW,
+      resources: ['ipfs://evidence/3'],
+    });
+    const text = formatSiweMessage(message);
+
+    expect(text.split('\n').slice(0, 6)).toEqual([
+      'trustlease.app wants you to sign in with your Ethereum account:',
+      alice.address,
+      '',
+      message.statement,
+      '',
+      'URI: https://trustlease.app',
+    ]);
+    expect(text).toContain('Chain ID: 545\nNonce: abcDEF12345\nIssued At: 2025-06-15T15:06:40.000Z');
+    expect(text.endsWith('Resources:\n- ipfs://evidence/3')).toBe(true);
+    expect(parseSiweMessage(text)).toEqual({ ...message, notBefore: undefined, requestId: undefined });
+  });
+
+  it('keeps both blank lines when there is no statement', () => {
+    const message = { ...createSiweMessage({ domain: DOMAIN, address: alice.address, uri: 'https://trustlease.app', chainId: 545, nonce: 'abcDEF12345' }), statement: undefined };
+    const text = formatSiweMessage(message);
+
+    expect(text.split('\n')[4]).toBe('URI: https://trustlease.app');
+    expect(parseSiweMessage(text).statement).toBeUndefined();
+  });
+
+  it('rejects text that is not a sign-in message', () => {
+    expect(() => parseSiweMessage('Hello')).toThrow('missing header');
+    const valid = formatSiweMessage(createSiweMessage({ domain: DOMAIN, address: alice.address, uri: 'https://trustlease.app', chainId: 545, nonce: 'abcDEF12345' }));
+    expect(() => parseSiweMessage(valid.replace(alice.address, alice.address.toLowerCase()))).toThrow('EIP-55');
+    expect(() => parseSiweMessage(valid.replace('Nonce: abcDEF12345', 'Nonce: short'))).toThrow('at least 8');
+  });
+});
+
+describe('createLocalSiweVerifier', () => {
+  it('turns a signed message into a session that expires with the message', async () => {
+    const session = await (await signIn()).verify();
+
+    expect(session).toMatchObject({ address: alice.address, chainId: 545, domain: DOMAIN, issuedAt: NOW, expiresAt: NOW + SESSION_TTL });
+  });
+
+  it('accepts each nonce once', async () => {
+    const { verify } = await signIn();
+    await verify();
+
+    await rejectsWith(verify(), 'unknown-nonce');
+  });
+
+  it('rejects a nonce it did not issue or that has gone stale', async () => {
+    const { message, signature } = await signIn();
+    const other = createLocalSiweVerifier({ domain: DOMAIN });
+    await rejectsWith(other.verify(message, signature), 'unknown-nonce');
+
+    await rejectsWith((await signIn({ now: NOW + 11 * 60 })).verify(), 'unknown-nonce');
+  });
+
+  it('spends the nonce on a rejected attempt too', async () => {
+    const { verifier, message, verify } = await signIn({ chainId: 1 });
+    await rejectsWith(verify(), 'chain-mismatch');
+
+    const retry = formatSiweMessage({ ...parseSiweMessage(message), chainId: 545 });
+    await rejectsWith(verifier.verify(retry, await alice.signMessage(retry)), 'unknown-nonce');
+  });
+
+  it('checks the domain, chain, expiry and signer', async () => {
+    await rejectsWith((await signIn({ domain: 'trustlease.evil' })).verify(), 'domain-mismatch');
+    await rejectsWith((await signIn({ chainId: 1 })).verify(), 'chain-mismatch');
+    await rejectsWith((await signIn({ ttl: 60, now: NOW + 120 })).verify(), 'expired');
+    await rejectsWith((await signIn({ signer: bob })).verify(), 'invalid-signature');
+  });
+});
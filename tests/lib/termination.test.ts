@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseEther } from 'ethers';
+import { quoteTermination } from '@/lib/contracts/termination';
+
+const DAY = 24n * 60n * 60n;
+const START = 1_750_000_000n;
+
+// Deposit of 2 FLOW, 1 FLOW every 30 days, first period paid
+const agreement = {
+  depositAmount: parseEther('2'),
+  monthlyRent: parseEther('1'),
+  rentInterval: 30n * DAY,
+  startDate: START,
+  nextRentDueDate: START + 60n * DAY,
+  totalRentPaid: parseEther('1'),
+};
+
+describe('quoteTermination', () => {
+  it('refunds the deposit and the rent paid for days after termination', () => {
+    const quote = quoteTermination(agreement, { terminatedAt: START + 12n * DAY, platformFeePercent: 2n });
+
+    expect(quote.paidThrough).toBe(START + 30n * DAY);
+    expect(quote.unusedRent).toBe(parseEther('0.6'));
+    expect(quote.refund).toBe(parseEther('2.6'));
+    expect(quote.remaining).toBe(parseEther('0.4'));
+    expect(quote.platformFee).toBe(parseEther('0.008'));
+    expect(quote.toLandlord).toBe(parseEther('0.392'));
+  });
+
+  it('keeps deductions out of the refund', () => {
+    const quote = quoteTermination(agreement, { terminatedAt: START + 12n * DAY, deductions: parseEther('0.5'), platformFeePercent: 0n });
+
+    expect(quote.refund).toBe(parseEther('2.1'));
+    expect(quote.toLandlord).toBe(parseEther('0.9'));
+    expect(() => quoteTermination(agreement, { terminatedAt: START, deductions: parseEther('3'), platformFeePercent: 0n })).toThrow('between zero and the deposit');
+  });
+
+  it('refunds no rent once the paid period is over, and all of it before the lease starts', () => {
+    expect(quoteTermination(agreement, { terminatedAt: START + 45n * DAY, platformFeePercent: 2n }).unusedRent).toBe(0n);
+    expect(quoteTermination(agreement, { terminatedAt: START - DAY, platformFeePercent: 2n }).unusedRent).toBe(parseEther('1'));
+  });
+
+  it('never refunds more rent than was paid', () => {
+    const unpaid = { ...agreement, nextRentDueDate: START + 30n * DAY, totalRentPaid: 0n };
+    expect(quoteTermination(unpaid, { terminatedAt: START + DAY, platformFeePercent: 2n })).toMatchObject({
+      unusedRent: 0n,
+      refund: parseEther('2'),
+      remaining: 0n,
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * An in-memory EIP-1193 wallet for hook and component tests. It covers what the app asks of
+ * `window.ethereum` (accounts, chain switching/adding, events) and forwards every other call to
+ * `rpcUrl` when one is given, so transactions can run against a local devnet node.
+ *
+ *   const wallet = new MockEthereumProvider({ chainId: 1, accounts: [address] }).install();
+ *   wallet.handle('eth_getBalance', () => '0x0');
+ *   wallet.failNext('eth_requestAccounts', ProviderRpcError.userRejected());
+ *   wallet.announce({ name: 'Rabby Wallet', rdns: 'io.rabby' }); // EIP-6963, alongside or instead of install()
+ */
+
+export interface RequestArguments {
+  method: string;
+  params?: unknown[] | object;
+}
+
+type Listener = (...args: never[]) => void;
+type Handler = (params: unknown[]) => unknown;
+
+/** The `{ code, message, data }` error shape wallets reject requests with. */
+export class ProviderRpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = 'ProviderRpcError';
+  }
+
+  static userRejected() {
+    return new ProviderRpcError(4001, 'User rejected the request.');
+  }
+
+  static unrecognizedChain(chainIdHex: string) {
+    return new ProviderRpcError(4902, `Unrecognized chain ID "${chainIdHex}". Try adding the chain using wallet_addEthereumChain first.`);
+  }
+
+  static unsupportedMethod(method: string) {
+    return new ProviderRpcError(4200, `The method "${method}" is not supported.`);
+  }
+}
+
+export interface MockEthereumOptions {
+  /** Wallet accounts, exposed once the site is connected. */
+  accounts?: string[];
+  chainId?: number;
+  /** Chains the wallet already knows; switching to any other fails with 4902. Defaults to `[chainId]`. */
+  knownChains?: number[];
+  /** Start as already connected, as after a previous visit. */
+  connected?: boolean;
+  /** JSON-RPC endpoint that receives every call the mock does not handle itself. */
+  rpcUrl?: string;
+}
+
+export interface MockWalletInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+const toHex = (chainId: number) => `0x${chainId.toString(16)}`;
+
+export class MockEthereumProvider {
+  readonly isMetaMask = true;
+  /** Every request in order, for asserting what the app asked the wallet. */
+  readonly calls: RequestArguments[] = [];
+
+  accounts: string[];
+  chainId: number;
+  connected: boolean;
+  private knownChains: Set<number>;
+  private rpcUrl?: string;
+  private rpcId = 0;
+  private listeners = new Map<string, Set<Listener>>();
+  private handlers = new Map<string, Handler>();
+  private failures = new Map<string, Error[]>();
+  private announcement?: () => void;
+
+  constructor(options: MockEthereumOptions = {}) {
+    this.accounts = options.accounts ?? [];
+    this.chainId = options.chainId ?? 1;
+    this.connected = options.connected ?? false;
+    this.knownChains = new Set(options.knownChains ?? [this.chainId]);
+    this.rpcUrl = options.rpcUrl;
+  }
+
+  /** Sets this wallet as `window.ethereum`; undo with `uninstall()`. */
+  install() {
+    Object.assign(window, { ethereum: this });
+    return this;
+  }
+
+  /** Announces this wallet over EIP-6963 now and whenever the app requests providers, as extensions do. */
+  announce(info: Partial<MockWalletInfo> = {}) {
+    const detail = Object.freeze({
+      info: { uuid: crypto.randomUUID(), name: 'Mock Wallet', icon: 'data:image/svg+xml,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%2F%3E', rdns: 'dev.mock.wallet', ...info },
+      provider: this,
+    });
+    this.announcement = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+    window.addEventListener('eip6963:requestProvider', this.announcement);
+    this.announcement();
+    return this;
+  }
+
+  uninstall() {
+    if (Reflect.get(window, 'ethereum') === this) Reflect.deleteProperty(window, 'ethereum');
+    if (this.announcement) window.removeEventListener('eip6963:requestProvider', this.announcement);
+    this.listeners.clear();
+  }
+
+  /** Answers `method` with `handler` instead of the built-in behaviour or the node. */
+  handle(method: string, handler: Handler) {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  /** Rejects the next call to `method` with `error`. Queue several by calling it repeatedly. */
+  failNext(method: string, error: Error = ProviderRpcError.userRejected()) {
+    this.failures.set(method, [...(this.failures.get(method) ?? []), error]);
+    return this;
+  }
+
+  callsTo(method: string) {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  // ---- Wallet-side actions, as if the user did them in the extension ----
+
+  /** Switches the selected account(s) and emits `accountsChanged`. An empty list disconnects. */
+  setAccounts(accounts: string[]) {
+    this.accounts = accounts;
+    if (accounts.length === 0) this.connected = false;
+    if (this.connected || accounts.length === 0) this.emit('accountsChanged', this.exposedAccounts());
+  }
+
+  /** Switches network and emits `chainChanged`, adding the chain if the wallet did not know it. */
+  setChain(chainId: number) {
+    this.knownChains.add(chainId);
+    if (chainId === this.chainId) return;
+    this.chainId = chainId;
+    this.emit('chainChanged', toHex(chainId));
+  }
+
+  // ---- EIP-1193 ----
+
+  async request({ method, params }: RequestArguments): Promise<unknown> {
+    const args = Array.isArray(params) ? params : params === undefined ? [] : [params];
+    this.calls.push({ method, params: args });
+
+    const failure = this.failures.get(method)?.shift();
+    if (failure) throw failure;
+
+    const handler = this.handlers.get(method);
+    if (handler) return handler(args);
+
+    switch (method) {
+      case 'eth_requestAccounts':
+        if (!this.connected) {
+          this.connected = true;
+          this.emit('connect', { chainId: toHex(this.chainId) });
+          this.emit('accountsChanged', this.exposedAccounts());
+        }
+        return this.exposedAccounts();
+      case 'eth_accounts':
+        return this.exposedAccounts();
+      case 'eth_chainId':
+        return toHex(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'wallet_switchEthereumChain': {
+        const chainId = Number((args[0] as { chainId: string }).chainId);
+        if (!this.knownChains.has(chainId)) throw ProviderRpcError.unrecognizedChain(toHex(chainId));
+        this.setChain(chainId);
+        return null;
+      }
+      case 'wallet_addEthereumChain':
+        // Wallets offer to switch straight after adding
+        this.setChain(Number((args[0] as { chainId: string }).chainId));
+        return null;
+      case 'eth_sendTransaction':
+      case 'eth_sign':
+      case 'personal_sign':
+      case 'eth_signTypedData_v4':
+        if (!this.connected) throw new ProviderRpcError(4100, 'The requested account has not been authorized by the user.');
+        return this.forward(method, args);
+      default:
+        return this.forward(method, args);
+    }
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener) {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  listenerCount(event: string) {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) (listener as (...args: unknown[]) => void)(...args);
+  }
+
+  private exposedAccounts() {
+    return this.connected ? [...this.accounts] : [];
+  }
+
+  private async forward(method: string, params: unknown[]) {
+    if (!this.rpcUrl) throw ProviderRpcError.unsupportedMethod(method);
+
+    const response = await fetch(this.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.rpcId, method, params }),
+    });
+    const { result, error } = await response.json();
+    if (error) throw new ProviderRpcError(error.code, error.message, error.data);
+    return result;
+  }
+}